@@ -0,0 +1,541 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveTimeZone } from "../../supabase/functions/_shared/time.ts";
+import { buildContext, invokeRulesEngine } from "../../supabase/functions/_shared/ruleContext.ts";
+import { loadAccessToken } from "../../supabase/functions/_shared/haToken.ts";
+import { listRegistries, REGISTRY_EVENTS, saveRegistries } from "../../supabase/functions/_shared/haRegistry.ts";
+
+// Long-running Home Assistant subscriber (see README.md next to this file), one per instance.
+// Holds a WebSocket subscription to state_changed and, for each change, updates
+// home_assistant_entities, appends to home_assistant_events and fires home_assistant rules.
+// After a reconnect it backfills the gap from HA's recorder history. Areas and devices are
+// synced on connect and whenever HA's registries change.
+
+interface HAState {
+  entity_id: string;
+  state: string;
+  attributes: Record<string, unknown>;
+  last_changed: string;
+  last_updated: string;
+}
+
+interface StateChange {
+  entity_id: string;
+  old_state: HAState | null;
+  new_state: HAState | null;
+}
+
+interface HAMessage {
+  id?: number;
+  type: string;
+  success?: boolean;
+  result?: unknown;
+  error?: { code: string; message: string };
+  event?: { event_type: string; data: unknown };
+  message?: string;
+}
+
+// history/history_during_period rows with minimal_response: state, last_changed and last_updated in epoch seconds
+interface HistoryRow {
+  s: string;
+  lc?: number;
+  lu: number;
+}
+
+interface HAConnection {
+  command: <T>(message: Record<string, unknown>) => Promise<T>;
+  closed: Promise<void>;
+  close: () => void;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+// Optional; without it the instance URL saved in Cortana is used
+const HA_URL = Deno.env.get("HA_URL")?.replace(/\/$/, "");
+// Optional; without it the token saved in Cortana is used (needs HA_TOKEN_ENCRYPTION_KEY).
+// Required when HA_URL is not the saved URL, as the saved token only ever goes to the saved URL.
+const HA_TOKEN = Deno.env.get("HA_TOKEN");
+const SUPABASE_URL = requireEnv("SUPABASE_URL");
+const SUPABASE_KEY = requireEnv("SUPABASE_SERVICE_ROLE_KEY");
+const USER_ID = requireEnv("CORTANA_USER_ID");
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+// The home_assistant_config this process follows; HA_CONFIG_ID may be left out while the user has only one
+async function resolveConfigId(): Promise<string> {
+  const configured = Deno.env.get("HA_CONFIG_ID");
+  if (configured) return configured;
+
+  const { data, error } = await supabase.from("home_assistant_config").select("id").eq("user_id", USER_ID);
+  if (error) throw error;
+  if (!data?.length) throw new Error("Home Assistant is not configured");
+  if (data.length > 1) throw new Error("Several Home Assistant instances are configured, set HA_CONFIG_ID to one of them");
+  return data[0].id;
+}
+
+const CONFIG_ID = await resolveConfigId();
+
+// The saved token may only be sent to the URL it was saved for
+function savedTokenError(instanceUrl: string): string | null {
+  if (HA_TOKEN || !HA_URL || HA_URL === instanceUrl.replace(/\/$/, "")) return null;
+  return `HA_URL (${HA_URL}) is not the URL saved in Cortana, so the saved token can't be used with it; set HA_TOKEN`;
+}
+
+// Fail at startup rather than retry forever with a setup that can never connect
+async function checkTokenUrl() {
+  const { data, error } = await supabase
+    .from("home_assistant_config")
+    .select("instance_url")
+    .eq("id", CONFIG_ID)
+    .eq("user_id", USER_ID)
+    .maybeSingle();
+  if (error) throw error;
+  const tokenError = data && savedTokenError(data.instance_url);
+  if (tokenError) throw new Error(tokenError);
+}
+
+await checkTokenUrl();
+
+const PING_INTERVAL_MS = 30 * 1000;
+const PONG_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+// The backfill starts a little before the last ingested change; rows it sees twice are ignored
+const BACKFILL_OVERLAP_MS = 60 * 1000;
+// Changes missed for longer than this are recorded but don't fire rules this late
+const BACKFILL_DISPATCH_MINUTES = 15;
+// Editing an area in HA sends a burst of registry events; they are synced once it settles
+const REGISTRY_SYNC_DELAY_MS = 5 * 1000;
+const RULES_CACHE_MS = 60 * 1000;
+const WRITE_BATCH_SIZE = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(message)), ms)),
+  ]);
+}
+
+// Timestamps are kept to the millisecond, so a change seen live and in the history is the same row
+function toTimestamp(value: string | number): string {
+  if (typeof value === "number") return new Date(Math.floor(Math.round(value * 1e6) / 1000)).toISOString();
+  return new Date(value).toISOString();
+}
+
+// jsonb doesn't keep key order, so attributes read back from the database are compared key by key
+function stableStringify(value: unknown): string {
+  if (!value || typeof value !== "object") return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(",")}}`;
+}
+
+function connect(
+  haUrl: string,
+  accessToken: string,
+  onStateChange: (change: StateChange) => void,
+  onRegistryChange: () => void
+): Promise<HAConnection> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`${haUrl.replace(/^http/, "ws")}/api/websocket`);
+    const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+    let nextId = 1;
+    let authenticated = false;
+
+    let markClosed: () => void = () => {};
+    const closed = new Promise<void>(resolveClosed => { markClosed = resolveClosed; });
+
+    const command = <T>(message: Record<string, unknown>) => new Promise<T>((resolveCommand, rejectCommand) => {
+      const id = nextId++;
+      pending.set(id, { resolve: resolveCommand as (result: unknown) => void, reject: rejectCommand });
+      socket.send(JSON.stringify({ ...message, id }));
+    });
+
+    socket.onmessage = (raw) => {
+      const message = JSON.parse(raw.data) as HAMessage;
+      switch (message.type) {
+        case "auth_required":
+          socket.send(JSON.stringify({ type: "auth", access_token: accessToken }));
+          break;
+        case "auth_ok":
+          authenticated = true;
+          resolve({ command, closed, close: () => socket.close() });
+          break;
+        case "auth_invalid":
+          reject(new Error(`Home Assistant rejected the token: ${message.message}`));
+          socket.close();
+          break;
+        case "event":
+          if (message.event?.event_type === "state_changed") onStateChange(message.event.data as StateChange);
+          else if (REGISTRY_EVENTS.includes(message.event?.event_type || "")) onRegistryChange();
+          break;
+        case "result":
+        case "pong": {
+          const request = pending.get(message.id!);
+          if (!request) break;
+          pending.delete(message.id!);
+          if (message.type === "pong" || message.success) request.resolve(message.result);
+          else request.reject(new Error(message.error?.message || "Home Assistant command failed"));
+          break;
+        }
+      }
+    };
+
+    socket.onerror = (event) => {
+      console.error("Home Assistant WebSocket error:", event instanceof ErrorEvent ? event.message : event.type);
+    };
+
+    socket.onclose = () => {
+      for (const request of pending.values()) request.reject(new Error("Connection closed"));
+      pending.clear();
+      if (!authenticated) reject(new Error("Connection closed before authentication"));
+      markClosed();
+    };
+  });
+}
+
+// Rules only hear about entities they trigger on; rules without an entity filter hear about all of them.
+// Rules limited to another instance are left out.
+let watchedEntities: { all: boolean; ids: Set<string>; loadedAt: number } | null = null;
+
+async function isWatched(entityId: string): Promise<boolean> {
+  if (!watchedEntities || Date.now() - watchedEntities.loadedAt > RULES_CACHE_MS) {
+    const { data: rules, error } = await supabase
+      .from("rules")
+      .select("trigger_config")
+      .eq("user_id", USER_ID)
+      .eq("trigger_type", "home_assistant")
+      .eq("is_enabled", true);
+    if (error) throw error;
+
+    const ids = new Set<string>();
+    let all = false;
+    for (const rule of rules || []) {
+      const config = (rule.trigger_config || {}) as { instance_id?: string; entity_id?: string };
+      if (config.instance_id && config.instance_id !== CONFIG_ID) continue;
+      if (config.entity_id) ids.add(config.entity_id);
+      else all = true;
+    }
+    watchedEntities = { all, ids, loadedAt: Date.now() };
+  }
+  return watchedEntities.all || watchedEntities.ids.has(entityId);
+}
+
+let timeZone: string | null = null;
+
+async function getTimeZone(): Promise<string> {
+  if (!timeZone) {
+    const { data: userSettings } = await supabase
+      .from("user_settings")
+      .select("timezone")
+      .eq("user_id", USER_ID)
+      .maybeSingle();
+    timeZone = resolveTimeZone(userSettings?.timezone);
+  }
+  return timeZone;
+}
+
+async function upsertEntities(states: HAState[]) {
+  for (let i = 0; i < states.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await supabase.from("home_assistant_entities").upsert(
+      states.slice(i, i + WRITE_BATCH_SIZE).map(s => ({
+        user_id: USER_ID,
+        config_id: CONFIG_ID,
+        entity_id: s.entity_id,
+        friendly_name: (s.attributes.friendly_name as string) || s.entity_id,
+        state: s.state,
+        attributes: s.attributes,
+        domain: s.entity_id.split(".")[0],
+        last_updated_at: s.last_updated,
+      })),
+      { onConflict: "config_id,entity_id" }
+    );
+    if (error) throw new Error(`Failed to update entities: ${error.message}`);
+  }
+}
+
+interface StateEvent {
+  entity_id: string;
+  old_state: string | null;
+  new_state: string | null;
+  occurred_at: string;
+  backfilled?: boolean;
+}
+
+async function recordEvents(events: StateEvent[]) {
+  for (let i = 0; i < events.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await supabase.from("home_assistant_events").upsert(
+      events.slice(i, i + WRITE_BATCH_SIZE).map(({ backfilled, ...event }) => ({
+        ...event,
+        user_id: USER_ID,
+        config_id: CONFIG_ID,
+        event_type: "state_changed",
+        metadata: backfilled ? { backfilled: true } : {},
+      })),
+      { onConflict: "config_id,entity_id,occurred_at", ignoreDuplicates: true }
+    );
+    if (error) throw new Error(`Failed to record state changes: ${error.message}`);
+  }
+}
+
+// Same trigger data and idempotency key as the app's emitEntityStateChange
+async function fireRules(
+  entityId: string,
+  before: Pick<HAState, "state" | "attributes">,
+  after: HAState,
+  backfilled = false
+) {
+  if (!(await isWatched(entityId))) return;
+
+  const triggerData = {
+    instance_id: CONFIG_ID,
+    entity_id: entityId,
+    from_state: before.state,
+    to_state: after.state,
+    state_changed: before.state !== after.state,
+    attributes: after.attributes,
+    from_attributes: before.attributes || {},
+    ...(backfilled && { backfilled: true }),
+  };
+  const context = await buildContext(supabase, USER_ID, await getTimeZone(), new Date(), triggerData);
+  await invokeRulesEngine(SUPABASE_URL, SUPABASE_KEY, {
+    userId: USER_ID,
+    triggerType: "home_assistant",
+    triggerData,
+    context,
+    // Without one, rules-engine uses the saved token
+    haAccessToken: HA_TOKEN,
+    haConfigId: CONFIG_ID,
+    idempotencyKey: `ha:${CONFIG_ID}:${entityId}:${after.last_updated}`,
+  });
+}
+
+let lastEventAt: string | null = null;
+
+async function ingestStateChange({ entity_id, old_state, new_state }: StateChange) {
+  if (!new_state) {
+    await supabase.from("home_assistant_entities").delete().eq("config_id", CONFIG_ID).eq("entity_id", entity_id);
+    return;
+  }
+
+  await upsertEntities([new_state]);
+  if (old_state?.state !== new_state.state) {
+    await recordEvents([{
+      entity_id,
+      old_state: old_state?.state ?? null,
+      new_state: new_state.state,
+      occurred_at: toTimestamp(new_state.last_changed),
+    }]);
+  }
+  lastEventAt = new_state.last_updated;
+
+  // New entities don't fire rules, as with a manual sync
+  if (old_state) await fireRules(entity_id, old_state, new_state);
+}
+
+// Bring the database up to date with what happened while disconnected
+async function backfill(connection: HAConnection) {
+  const startedAt = new Date().toISOString();
+  const states = await connection.command<HAState[]>({ type: "get_states" });
+
+  const [{ data: stored, error: storedError }, { data: config }] = await Promise.all([
+    supabase
+      .from("home_assistant_entities")
+      .select("entity_id, state, attributes")
+      .eq("config_id", CONFIG_ID),
+    supabase
+      .from("home_assistant_config")
+      .select("last_event_at")
+      .eq("id", CONFIG_ID)
+      .maybeSingle(),
+  ]);
+  if (storedError) throw storedError;
+  const previous = new Map((stored || []).map(e => [e.entity_id, e]));
+
+  const events: StateEvent[] = [];
+  if (config?.last_event_at) {
+    const history = await connection.command<Record<string, HistoryRow[]>>({
+      type: "history/history_during_period",
+      start_time: new Date(new Date(config.last_event_at).getTime() - BACKFILL_OVERLAP_MS).toISOString(),
+      entity_ids: states.map(s => s.entity_id),
+      minimal_response: true,
+      no_attributes: true,
+      significant_changes_only: false,
+    });
+    for (const [entityId, rows] of Object.entries(history || {})) {
+      let state = previous.get(entityId)?.state ?? null;
+      for (const row of rows) {
+        if (row.s === state) continue;
+        events.push({
+          entity_id: entityId,
+          old_state: state,
+          new_state: row.s,
+          occurred_at: toTimestamp(row.lc ?? row.lu),
+          backfilled: true,
+        });
+        state = row.s;
+      }
+    }
+  } else {
+    // First run: nothing to fill in, only the changes since the last manual sync
+    for (const s of states) {
+      const before = previous.get(s.entity_id);
+      if (before?.state === s.state) continue;
+      events.push({
+        entity_id: s.entity_id,
+        old_state: before?.state ?? null,
+        new_state: s.state,
+        occurred_at: toTimestamp(s.last_changed || s.last_updated),
+      });
+    }
+  }
+
+  await recordEvents(events);
+  await upsertEntities(states);
+
+  // Rules hear once per entity about where it ended up
+  const cutoff = Date.now() - BACKFILL_DISPATCH_MINUTES * 60 * 1000;
+  let fired = 0;
+  if (config?.last_event_at) {
+    for (const s of states) {
+      const before = previous.get(s.entity_id);
+      if (!before || new Date(s.last_updated).getTime() < cutoff) continue;
+      if (before.state === s.state && stableStringify(before.attributes) === stableStringify(s.attributes)) continue;
+
+      try {
+        await fireRules(s.entity_id, { state: before.state, attributes: (before.attributes || {}) as Record<string, unknown> }, s, true);
+        fired++;
+      } catch (err) {
+        console.error(`Failed to fire rules for ${s.entity_id}:`, err);
+      }
+    }
+  }
+
+  lastEventAt = startedAt;
+  console.log(`Backfilled ${events.length} state changes for ${states.length} entities (${fired} sent to rules)`);
+}
+
+// Areas become rooms and entities are linked to them; state ingestion goes on if this fails
+async function syncRegistries(connection: HAConnection, configName: string) {
+  try {
+    const registries = await listRegistries(connection.command);
+    const saved = await saveRegistries(supabase, USER_ID, { id: CONFIG_ID, name: configName }, registries);
+    console.log(`Synced ${saved.areas} areas and ${saved.devices} devices (${saved.entities} entities linked)`);
+  } catch (err) {
+    console.error("Failed to sync areas and devices:", err instanceof Error ? err.message : err);
+  }
+}
+
+async function writeHeartbeat() {
+  const { error } = await supabase
+    .from("home_assistant_config")
+    .update({
+      subscriber_seen_at: new Date().toISOString(),
+      ...(lastEventAt && { last_event_at: lastEventAt }),
+    })
+    .eq("id", CONFIG_ID);
+  if (error) console.error("Failed to record heartbeat:", error);
+}
+
+// Changes are written one at a time, in the order Home Assistant sent them
+let queue: Promise<void> = Promise.resolve();
+const enqueue = (task: () => Promise<void>) => {
+  queue = queue.then(task).catch(err => console.error("Failed to ingest state change:", err));
+};
+
+async function runSession() {
+  const { data: config, error: configError } = await supabase
+    .from("home_assistant_config")
+    .select("id, name, instance_url, is_active")
+    .eq("id", CONFIG_ID)
+    .eq("user_id", USER_ID)
+    .maybeSingle();
+  if (configError) throw configError;
+  if (!config || config.is_active === false) throw new Error("Home Assistant is not configured or is disabled");
+
+  // Checked again on every connect, as the saved URL may have changed since startup
+  const tokenError = savedTokenError(config.instance_url);
+  if (tokenError) throw new Error(tokenError);
+
+  // Read on every connect, so a rotated or revoked token takes effect
+  const accessToken = HA_TOKEN || await loadAccessToken(supabase, config.id);
+  if (!accessToken) throw new Error("No Home Assistant access token saved in Cortana and HA_TOKEN is not set");
+
+  const haUrl = HA_URL || config.instance_url.replace(/\/$/, "");
+  // Queued behind the state changes, so entities HA just added are there to link
+  let registryTimer: number | undefined;
+  const onRegistryChange = () => {
+    clearTimeout(registryTimer);
+    registryTimer = setTimeout(() => enqueue(() => syncRegistries(connection, config.name)), REGISTRY_SYNC_DELAY_MS);
+  };
+  const connection = await connect(haUrl, accessToken, change => enqueue(() => ingestStateChange(change)), onRegistryChange);
+  console.log(`Connected to ${config.name} at ${haUrl}`);
+
+  // Live changes wait behind the backfill, so older history can't overwrite them
+  let openGate: () => void = () => {};
+  const gate = new Promise<void>(resolveGate => { openGate = resolveGate; });
+  enqueue(() => gate);
+
+  const pinger = setInterval(() => {
+    withTimeout(connection.command({ type: "ping" }), PONG_TIMEOUT_MS, "No pong").catch(() => {
+      console.warn("Home Assistant stopped answering pings, reconnecting");
+      connection.close();
+    });
+  }, PING_INTERVAL_MS);
+  const heartbeat = setInterval(writeHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await connection.command({ type: "subscribe_events", event_type: "state_changed" });
+    for (const eventType of REGISTRY_EVENTS) {
+      await connection.command({ type: "subscribe_events", event_type: eventType });
+    }
+
+    const now = new Date().toISOString();
+    await supabase
+      .from("home_assistant_config")
+      .update({ subscriber_connected_at: now, subscriber_seen_at: now, last_connected_at: now })
+      .eq("id", CONFIG_ID);
+
+    try {
+      await backfill(connection);
+    } finally {
+      openGate();
+    }
+    enqueue(() => syncRegistries(connection, config.name));
+
+    await connection.closed;
+    console.warn("Disconnected from Home Assistant");
+  } finally {
+    clearInterval(pinger);
+    clearInterval(heartbeat);
+    clearTimeout(registryTimer);
+    connection.close();
+    // Rules and settings may have changed while disconnected
+    watchedEntities = null;
+    timeZone = null;
+    await queue;
+    await writeHeartbeat();
+  }
+}
+
+let delay = MIN_RECONNECT_DELAY_MS;
+while (true) {
+  const startedAt = Date.now();
+  try {
+    await runSession();
+  } catch (err) {
+    console.error("Home Assistant subscription failed:", err instanceof Error ? err.message : err);
+  }
+
+  // A session that stayed up for a while was healthy, so back off from the start again
+  if (Date.now() - startedAt > MAX_RECONNECT_DELAY_MS) delay = MIN_RECONNECT_DELAY_MS;
+  console.log(`Reconnecting in ${delay / 1000}s`);
+  await sleep(delay);
+  delay = Math.min(delay * 2, MAX_RECONNECT_DELAY_MS);
+}
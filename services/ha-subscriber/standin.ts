@@ -0,0 +1,225 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+// A stand-in for the parts of Home Assistant that Cortana uses, for trying ha-subscriber
+// (and the Integrations page) without a real instance. Entities change every few seconds.
+//
+//   deno run --allow-net --allow-env services/ha-subscriber/standin.ts
+//
+// PORT (default 8123), STANDIN_TOKEN (default "standin") and DROP_EVERY_SECONDS, which
+// closes every socket on that interval so reconnects and backfill can be watched.
+
+interface StandInState {
+  entity_id: string;
+  state: string;
+  attributes: Record<string, unknown>;
+  last_changed: string;
+  last_updated: string;
+}
+
+const PORT = Number(Deno.env.get("PORT") || 8123);
+const TOKEN = Deno.env.get("STANDIN_TOKEN") || "standin";
+const DROP_EVERY_SECONDS = Number(Deno.env.get("DROP_EVERY_SECONDS") || 0);
+const CHANGE_INTERVAL_MS = 5000;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, content-type",
+};
+
+function makeState(entityId: string, state: string, attributes: Record<string, unknown>): StandInState {
+  const now = new Date().toISOString();
+  return { entity_id: entityId, state, attributes, last_changed: now, last_updated: now };
+}
+
+const states = new Map<string, StandInState>([
+  ["light.kitchen", makeState("light.kitchen", "off", { friendly_name: "Kitchen Light", brightness: 0 })],
+  ["binary_sensor.hallway_motion", makeState("binary_sensor.hallway_motion", "off", { friendly_name: "Hallway Motion", device_class: "motion" })],
+  ["sensor.living_room_temperature", makeState("sensor.living_room_temperature", "21.0", { friendly_name: "Living Room Temperature", unit_of_measurement: "°C" })],
+  ["switch.office_fan", makeState("switch.office_fan", "off", { friendly_name: "Office Fan" })],
+]);
+
+// Areas, devices and which device each entity belongs to, for the config/*_registry/list commands
+const areas = [
+  { area_id: "kitchen", name: "Kitchen", aliases: [] },
+  { area_id: "hallway", name: "Hallway", aliases: [] },
+  { area_id: "living_room", name: "Living Room", aliases: ["Lounge"] },
+  { area_id: "office", name: "Office", aliases: [] },
+];
+const devices = [
+  { id: "standin-kitchen-bulb", name: "Kitchen Bulb", name_by_user: null, manufacturer: "Stand-in", model: "Bulb", area_id: "kitchen" },
+  { id: "standin-multisensor", name: "Multisensor", name_by_user: null, manufacturer: "Stand-in", model: "Multisensor", area_id: "living_room" },
+  { id: "standin-fan-plug", name: "Fan Plug", name_by_user: null, manufacturer: "Stand-in", model: "Plug", area_id: "office" },
+];
+const entityRegistry = [
+  { entity_id: "light.kitchen", device_id: "standin-kitchen-bulb", area_id: null },
+  // The sensor sits in the living room, but its motion entity is placed in the hallway
+  { entity_id: "binary_sensor.hallway_motion", device_id: "standin-multisensor", area_id: "hallway" },
+  { entity_id: "sensor.living_room_temperature", device_id: "standin-multisensor", area_id: null },
+  { entity_id: "switch.office_fan", device_id: "standin-fan-plug", area_id: null },
+];
+
+// Every state each entity has been in, for history/history_during_period
+const history = new Map<string, StandInState[]>([...states.values()].map(s => [s.entity_id, [s]]));
+
+// Sockets subscribed to state_changed, with the id of their subscribe_events command
+const subscribers = new Map<WebSocket, number>();
+
+function setState(entityId: string, state: string, attributes: Record<string, unknown>) {
+  const oldState = states.get(entityId) ?? null;
+  const now = new Date().toISOString();
+  const newState: StandInState = {
+    entity_id: entityId,
+    state,
+    attributes: { ...oldState?.attributes, ...attributes },
+    last_changed: oldState && oldState.state === state ? oldState.last_changed : now,
+    last_updated: now,
+  };
+  states.set(entityId, newState);
+  history.get(entityId)?.push(newState);
+
+  for (const [socket, subscriptionId] of subscribers) {
+    socket.send(JSON.stringify({
+      id: subscriptionId,
+      type: "event",
+      event: {
+        event_type: "state_changed",
+        data: { entity_id: entityId, old_state: oldState, new_state: newState },
+        time_fired: now,
+        origin: "LOCAL",
+      },
+    }));
+  }
+}
+
+function changeSomething() {
+  const light = states.get("light.kitchen")!;
+  const motion = states.get("binary_sensor.hallway_motion")!;
+  const temperature = states.get("sensor.living_room_temperature")!;
+
+  switch (Math.floor(Math.random() * 4)) {
+    case 0:
+      setState("light.kitchen", light.state === "on" ? "off" : "on", { brightness: light.state === "on" ? 0 : 200 });
+      break;
+    case 1:
+      setState("binary_sensor.hallway_motion", motion.state === "on" ? "off" : "on", {});
+      break;
+    case 2:
+      setState("sensor.living_room_temperature", (Number(temperature.state) + (Math.random() - 0.5)).toFixed(1), {});
+      break;
+    default:
+      // Attribute-only change
+      if (light.state === "on") setState("light.kitchen", "on", { brightness: Math.floor(Math.random() * 255) });
+  }
+}
+
+// history/history_during_period in minimal_response form: { s, lc?, lu } in epoch seconds
+function getHistory(startTime: string, entityIds: string[]) {
+  const start = new Date(startTime).getTime();
+  const result: Record<string, Array<{ s: string; lc?: number; lu: number }>> = {};
+
+  for (const entityId of entityIds) {
+    const entries = history.get(entityId) || [];
+    // The state at start_time first, then every change after it
+    const firstAfter = entries.findIndex(e => new Date(e.last_updated).getTime() >= start);
+    const from = firstAfter === -1 ? entries.length - 1 : Math.max(0, firstAfter - 1);
+    result[entityId] = entries.slice(from).map(e => ({
+      s: e.state,
+      lu: new Date(e.last_updated).getTime() / 1000,
+      ...(e.last_changed !== e.last_updated && { lc: new Date(e.last_changed).getTime() / 1000 }),
+    }));
+  }
+  return result;
+}
+
+function handleSocket(socket: WebSocket) {
+  let authenticated = false;
+  const send = (message: Record<string, unknown>) => socket.send(JSON.stringify(message));
+
+  socket.onopen = () => send({ type: "auth_required", ha_version: "standin" });
+  socket.onclose = () => subscribers.delete(socket);
+
+  socket.onmessage = (raw) => {
+    const message = JSON.parse(raw.data);
+    if (!authenticated) {
+      if (message.type === "auth" && message.access_token === TOKEN) {
+        authenticated = true;
+        send({ type: "auth_ok", ha_version: "standin" });
+      } else {
+        send({ type: "auth_invalid", message: "Invalid access token" });
+        socket.close();
+      }
+      return;
+    }
+
+    switch (message.type) {
+      case "ping":
+        send({ id: message.id, type: "pong" });
+        break;
+      case "subscribe_events":
+        if (message.event_type === "state_changed") subscribers.set(socket, message.id);
+        send({ id: message.id, type: "result", success: true, result: null });
+        break;
+      case "get_states":
+        send({ id: message.id, type: "result", success: true, result: [...states.values()] });
+        break;
+      case "config/area_registry/list":
+        send({ id: message.id, type: "result", success: true, result: areas });
+        break;
+      case "config/device_registry/list":
+        send({ id: message.id, type: "result", success: true, result: devices });
+        break;
+      case "config/entity_registry/list":
+        send({ id: message.id, type: "result", success: true, result: entityRegistry });
+        break;
+      case "history/history_during_period":
+        send({ id: message.id, type: "result", success: true, result: getHistory(message.start_time, message.entity_ids || []) });
+        break;
+      default:
+        send({
+          id: message.id,
+          type: "result",
+          success: false,
+          error: { code: "unknown_command", message: `The stand-in doesn't support ${message.type}` },
+        });
+    }
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+setInterval(changeSomething, CHANGE_INTERVAL_MS);
+
+if (DROP_EVERY_SECONDS > 0) {
+  setInterval(() => {
+    console.log(`Dropping ${subscribers.size} connection(s)`);
+    for (const socket of subscribers.keys()) socket.close();
+  }, DROP_EVERY_SECONDS * 1000);
+}
+
+console.log(`Home Assistant stand-in on http://localhost:${PORT} (token "${TOKEN}")`);
+
+serve((req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { pathname } = new URL(req.url);
+  if (pathname === "/api/websocket") {
+    const { socket, response } = Deno.upgradeWebSocket(req);
+    handleSocket(socket);
+    return response;
+  }
+
+  // The REST endpoints the home-assistant edge function calls for test and sync
+  if (req.headers.get("authorization") !== `Bearer ${TOKEN}`) {
+    return jsonResponse({ message: "Unauthorized" }, 401);
+  }
+  if (pathname === "/api/") return jsonResponse({ message: "API running.", version: "standin" });
+  if (pathname === "/api/states") return jsonResponse([...states.values()]);
+  return jsonResponse({ message: "Not found" }, 404);
+}, { port: PORT });
@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
 import { AuthGuard } from "@/components/AuthGuard";
+import { RuleEventDispatcher } from "@/components/RuleEventDispatcher";
 import Index from "./pages/Index";
 import Settings from "./pages/Settings";
 import Login from "./pages/Login";
@@ -15,7 +16,9 @@ import Cameras from "./pages/Cameras";
 import Goals from "./pages/Goals";
 import Tasks from "./pages/Tasks";
 import Rules from "./pages/Rules";
+import RuleAnalytics from "./pages/RuleAnalytics";
 import Integrations from "./pages/Integrations";
+import HomeControls from "./pages/HomeControls";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,6 +28,7 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <RuleEventDispatcher />
       <BrowserRouter>
         <SidebarProvider>
           <div className="min-h-screen flex w-full">
@@ -75,11 +79,21 @@ const App = () => (
                       <Rules />
                     </AuthGuard>
                   } />
+                  <Route path="/rules/analytics" element={
+                    <AuthGuard>
+                      <RuleAnalytics />
+                    </AuthGuard>
+                  } />
                   <Route path="/integrations" element={
                     <AuthGuard>
                       <Integrations />
                     </AuthGuard>
                   } />
+                  <Route path="/home-controls" element={
+                    <AuthGuard>
+                      <HomeControls />
+                    </AuthGuard>
+                  } />
                   
                   {/* Catch-all */}
                   <Route path="*" element={<NotFound />} />
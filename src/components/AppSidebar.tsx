@@ -1,4 +1,4 @@
-import { Home, Settings, LayoutDashboard, Camera, Target, Zap, LogIn, UserPlus, ListTodo, Sparkles } from "lucide-react";
+import { Home, Settings, LayoutDashboard, Camera, Target, Zap, LogIn, UserPlus, ListTodo, Sparkles, Lightbulb } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -22,6 +22,7 @@ const mainItems = [
   { title: "Goals", url: "/goals", icon: Target, requiresAuth: true },
   { title: "Rules", url: "/rules", icon: Sparkles, requiresAuth: true },
   { title: "Cameras", url: "/cameras", icon: Camera, requiresAuth: true },
+  { title: "Home Controls", url: "/home-controls", icon: Lightbulb, requiresAuth: true },
   { title: "Integrations", url: "/integrations", icon: Zap, requiresAuth: true },
   { title: "Settings", url: "/settings", icon: Settings },
 ];
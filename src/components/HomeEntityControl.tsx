@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import type { ExpectedEntityState, HomeAssistantEntity } from '@/hooks/useHomeAssistant';
+import { ControllableDomain, entityDomain, entityLabel } from '@/lib/homeControls';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Lightbulb, ToggleLeft, Blinds, Thermometer, Tv, Lock, LockOpen, Clapperboard, Star,
+  ArrowUp, ArrowDown, Square, Minus, Plus, Play, Pause, SkipBack, SkipForward,
+} from 'lucide-react';
+
+const DOMAIN_ICONS: Record<ControllableDomain, typeof Lightbulb> = {
+  light: Lightbulb,
+  switch: ToggleLeft,
+  cover: Blinds,
+  climate: Thermometer,
+  media_player: Tv,
+  lock: Lock,
+  scene: Clapperboard,
+};
+
+// Light color modes that take rgb_color
+const COLOR_MODES = ['hs', 'rgb', 'rgbw', 'rgbww', 'xy'];
+
+const SWATCHES: { label: string; rgb: [number, number, number] }[] = [
+  { label: 'Warm white', rgb: [255, 180, 107] },
+  { label: 'White', rgb: [255, 255, 255] },
+  { label: 'Red', rgb: [255, 0, 0] },
+  { label: 'Orange', rgb: [255, 128, 0] },
+  { label: 'Green', rgb: [0, 255, 0] },
+  { label: 'Blue', rgb: [0, 64, 255] },
+  { label: 'Purple', rgb: [160, 0, 255] },
+];
+
+const MEDIA_OFF_STATES = ['off', 'standby', 'unavailable', 'unknown'];
+
+export type ControlService = (service: string, data?: Record<string, unknown>, expected?: ExpectedEntityState) => void;
+
+const toHex = (rgb: unknown): string => {
+  if (!Array.isArray(rgb) || rgb.length < 3) return '#ffffff';
+  return `#${rgb.slice(0, 3).map(c => Number(c).toString(16).padStart(2, '0')).join('')}`;
+};
+
+const fromHex = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const formatState = (state: string | null): string =>
+  state ? state.charAt(0).toUpperCase() + state.slice(1).replace(/_/g, ' ') : 'Unknown';
+
+function describeState(entity: HomeAssistantEntity, domain: string): string {
+  const attr = entity.attributes || {};
+  switch (domain) {
+    case 'light':
+      return entity.state === 'on' && typeof attr.brightness === 'number'
+        ? `On · ${Math.round(attr.brightness / 2.55)}%`
+        : formatState(entity.state);
+    case 'cover':
+      return typeof attr.current_position === 'number' && entity.state === 'open'
+        ? `Open · ${attr.current_position}%`
+        : formatState(entity.state);
+    case 'climate':
+      return typeof attr.current_temperature === 'number'
+        ? `${formatState(entity.state)} · ${attr.current_temperature}° now`
+        : formatState(entity.state);
+    case 'media_player':
+      return attr.media_title ? `${formatState(entity.state)} · ${attr.media_title}` : formatState(entity.state);
+    case 'scene':
+      return 'Scene';
+    default:
+      return formatState(entity.state);
+  }
+}
+
+// A slider that only calls Home Assistant when released
+function CommitSlider({ value, min = 0, max = 100, step = 1, disabled, onCommit }: {
+  value: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  disabled?: boolean;
+  onCommit: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState<number | null>(null);
+  return (
+    <Slider
+      min={min}
+      max={max}
+      step={step}
+      disabled={disabled}
+      value={[draft ?? value]}
+      onValueChange={([v]) => setDraft(v)}
+      onValueCommit={([v]) => {
+        setDraft(null);
+        onCommit(v);
+      }}
+    />
+  );
+}
+
+function LightControls({ entity, control, disabled }: { entity: HomeAssistantEntity; control: ControlService; disabled: boolean }) {
+  const attr = entity.attributes || {};
+  const modes = Array.isArray(attr.supported_color_modes) ? attr.supported_color_modes as string[] : [];
+  const dimmable = typeof attr.brightness === 'number' || modes.some(m => m !== 'onoff');
+  const colorable = modes.some(m => COLOR_MODES.includes(m));
+  const brightness = entity.state === 'on' && typeof attr.brightness === 'number' ? Math.round(attr.brightness / 2.55) : 0;
+
+  const setColor = (rgb: [number, number, number]) =>
+    control('turn_on', { rgb_color: rgb }, { state: 'on', attributes: { rgb_color: rgb } });
+
+  return (
+    <div className="space-y-3">
+      {dimmable && (
+        <CommitSlider
+          value={brightness}
+          disabled={disabled}
+          onCommit={(pct) => pct === 0
+            ? control('turn_off', undefined, { state: 'off' })
+            : control('turn_on', { brightness_pct: pct }, { state: 'on', attributes: { brightness: Math.round(pct * 2.55) } })}
+        />
+      )}
+      {colorable && (
+        <div className="flex items-center gap-1.5 flex-wrap">
+          {SWATCHES.map(swatch => (
+            <button
+              key={swatch.label}
+              type="button"
+              title={swatch.label}
+              disabled={disabled}
+              className="h-5 w-5 rounded-full border disabled:opacity-50"
+              style={{ backgroundColor: `rgb(${swatch.rgb.join(',')})` }}
+              onClick={() => setColor(swatch.rgb)}
+            />
+          ))}
+          <input
+            key={toHex(attr.rgb_color)}
+            type="color"
+            title="Custom color"
+            disabled={disabled}
+            defaultValue={toHex(attr.rgb_color)}
+            className="h-6 w-6 cursor-pointer bg-transparent"
+            onBlur={(e) => e.target.value !== toHex(attr.rgb_color) && setColor(fromHex(e.target.value))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CoverControls({ entity, control, disabled }: { entity: HomeAssistantEntity; control: ControlService; disabled: boolean }) {
+  const position = entity.attributes?.current_position;
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => control('open_cover', undefined, { state: 'opening' })}>
+          <ArrowUp className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => control('stop_cover')}>
+          <Square className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => control('close_cover', undefined, { state: 'closing' })}>
+          <ArrowDown className="h-4 w-4" />
+        </Button>
+      </div>
+      {typeof position === 'number' && (
+        <CommitSlider
+          value={position}
+          disabled={disabled}
+          onCommit={(value) => control('set_cover_position', { position: value }, { attributes: { current_position: value } })}
+        />
+      )}
+    </div>
+  );
+}
+
+function ClimateControls({ entity, control, disabled }: { entity: HomeAssistantEntity; control: ControlService; disabled: boolean }) {
+  const attr = entity.attributes || {};
+  const target = typeof attr.temperature === 'number' ? attr.temperature : null;
+  const step = typeof attr.target_temp_step === 'number' ? attr.target_temp_step : 0.5;
+  const min = typeof attr.min_temp === 'number' ? attr.min_temp : -Infinity;
+  const max = typeof attr.max_temp === 'number' ? attr.max_temp : Infinity;
+  const modes = Array.isArray(attr.hvac_modes) ? attr.hvac_modes as string[] : [];
+
+  const setTarget = (value: number) => {
+    const temperature = Math.min(max, Math.max(min, Math.round(value / step) * step));
+    control('set_temperature', { temperature }, { attributes: { temperature } });
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      {target !== null ? (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" disabled={disabled} onClick={() => setTarget(target - step)}>
+            <Minus className="h-4 w-4" />
+          </Button>
+          <span className="text-lg font-semibold w-14 text-center">{target}°</span>
+          <Button variant="outline" size="icon" className="h-8 w-8" disabled={disabled} onClick={() => setTarget(target + step)}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : <span />}
+      {modes.length > 0 && (
+        <Select
+          value={entity.state || undefined}
+          disabled={disabled}
+          onValueChange={(mode) => control('set_hvac_mode', { hvac_mode: mode }, { state: mode })}
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue placeholder="Mode" />
+          </SelectTrigger>
+          <SelectContent>
+            {modes.map(mode => (
+              <SelectItem key={mode} value={mode}>{formatState(mode)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+function MediaControls({ entity, control, disabled }: { entity: HomeAssistantEntity; control: ControlService; disabled: boolean }) {
+  const attr = entity.attributes || {};
+  const playing = entity.state === 'playing';
+  const volume = typeof attr.volume_level === 'number' ? Math.round(attr.volume_level * 100) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => control('media_previous_track')}>
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => control('media_play_pause', undefined, { state: playing ? 'paused' : 'playing' })}
+        >
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="outline" size="sm" disabled={disabled} onClick={() => control('media_next_track')}>
+          <SkipForward className="h-4 w-4" />
+        </Button>
+      </div>
+      {volume !== null && (
+        <CommitSlider
+          value={volume}
+          disabled={disabled}
+          onCommit={(value) => control('volume_set', { volume_level: value / 100 }, { attributes: { volume_level: value / 100 } })}
+        />
+      )}
+    </div>
+  );
+}
+
+interface HomeEntityControlProps {
+  entity: HomeAssistantEntity;
+  // Shown when the user has several Home Assistant instances
+  instanceName?: string;
+  control: ControlService;
+  onToggleFavorite: () => void;
+}
+
+// One entity on the home control panel, with the controls its domain supports
+export function HomeEntityControl({ entity, instanceName, control, onToggleFavorite }: HomeEntityControlProps) {
+  const domain = entityDomain(entity) as ControllableDomain;
+  const Icon = entity.state === 'unlocked' ? LockOpen : DOMAIN_ICONS[domain];
+  const unavailable = entity.state === 'unavailable';
+
+  // Lights, switches and media players have an on/off switch
+  const isOn = domain === 'media_player' ? !MEDIA_OFF_STATES.includes(entity.state || '') : entity.state === 'on';
+  const hasPower = domain === 'light' || domain === 'switch' || domain === 'media_player';
+  const isActive = (hasPower && isOn) || ['open', 'unlocked', 'heat', 'cool', 'heat_cool'].includes(entity.state || '');
+
+  return (
+    <Card className={unavailable ? 'opacity-60' : ''}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <Icon className={`h-5 w-5 shrink-0 ${isActive ? 'text-ai-glow' : 'text-muted-foreground'}`} />
+            <div className="min-w-0">
+              <p className="font-medium truncate">{entityLabel(entity)}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {describeState(entity, domain)}
+                {instanceName && ` · ${instanceName}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title={entity.is_favorite ? 'Remove from favorites' : 'Add to favorites'}
+              onClick={onToggleFavorite}
+            >
+              <Star className={`h-4 w-4 ${entity.is_favorite ? 'fill-yellow-500 text-yellow-500' : ''}`} />
+            </Button>
+            {hasPower && (
+              <Switch
+                checked={isOn}
+                disabled={unavailable}
+                onCheckedChange={(on) => control(on ? 'turn_on' : 'turn_off', undefined, {
+                  state: on ? 'on' : 'off',
+                })}
+              />
+            )}
+          </div>
+        </div>
+
+        {domain === 'light' && <LightControls entity={entity} control={control} disabled={unavailable} />}
+        {domain === 'cover' && <CoverControls entity={entity} control={control} disabled={unavailable} />}
+        {domain === 'climate' && <ClimateControls entity={entity} control={control} disabled={unavailable} />}
+        {domain === 'media_player' && isOn && <MediaControls entity={entity} control={control} disabled={unavailable} />}
+        {domain === 'lock' && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={unavailable}
+            onClick={() => entity.state === 'locked'
+              ? control('unlock', undefined, { state: 'unlocked' })
+              : control('lock', undefined, { state: 'locked' })}
+          >
+            {entity.state === 'locked' ? <LockOpen className="h-4 w-4 mr-1" /> : <Lock className="h-4 w-4 mr-1" />}
+            {entity.state === 'locked' ? 'Unlock' : 'Lock'}
+          </Button>
+        )}
+        {domain === 'scene' && (
+          <Button variant="outline" size="sm" disabled={unavailable} onClick={() => control('turn_on')}>
+            <Play className="h-4 w-4 mr-1" />
+            Activate
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
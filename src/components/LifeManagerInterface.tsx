@@ -13,6 +13,7 @@ import { useRules } from '@/hooks/useRules';
 import { useCameras } from '@/hooks/useCameras';
 import { useSettings } from '@/hooks/useSettings';
 import { useUserContext } from '@/hooks/useUserContext';
+import { isAcknowledgement, emitSignal, emitRunNow } from '@/lib/ruleEvents';
 import { toast } from 'sonner';
 import cortanaAI from '@/assets/cortana-ai.jpg';
 
@@ -27,7 +28,7 @@ export default function LifeManagerInterface() {
 
   const { tasks, getPendingTasks, getOverdueTasks } = useTasks();
   const { goals } = useGoals();
-  const { rules, getEnabledRules } = useRules();
+  const { rules, getEnabledRules, acknowledgeEscalations } = useRules();
   const { cameras } = useCameras();
   const { context: userContext } = useUserContext();
   const { getVoiceProviderConfig } = useSettings();
@@ -159,6 +160,25 @@ Idle time: ${userContext.idle_minutes || 0} minutes
 Tasks completed today: ${userContext.tasks_completed_today || 0}`;
   }, [userContext]);
   
+  const acknowledgeAlerts = useCallback(async () => {
+    const count = await acknowledgeEscalations();
+    return count > 0
+      ? `Acknowledged ${count} alert${count === 1 ? '' : 's'}. Escalation cancelled.`
+      : 'No alerts waiting for acknowledgment.';
+  }, [acknowledgeEscalations]);
+
+  const emitVoiceSignal = useCallback((signalName: string) => {
+    emitSignal(signalName, 'voice');
+    return `Sent signal "${signalName}".`;
+  }, []);
+
+  const runRuleByName = useCallback((ruleName: string) => {
+    const rule = rules.find(r => r.name.toLowerCase() === ruleName.trim().toLowerCase());
+    if (!rule) return `No rule named "${ruleName}".`;
+    emitRunNow(rule.id, 'voice');
+    return `Running "${rule.name}".`;
+  }, [rules]);
+
   // Interactive voice conversation using settings-based provider
   const unifiedVoice = useUnifiedVoice({
     systemInstruction: `You are Cortana, an AI home guardian and personal assistant.
@@ -176,6 +196,9 @@ When the user asks about tasks, goals, or their status, use the available tools
       getRules: getRulesData,
       getCameras: getCamerasData,
       getUserStatus: getUserStatusData,
+      acknowledgeAlerts,
+      emitSignal: emitVoiceSignal,
+      runRule: runRuleByName,
     },
     onStateChange: (state) => {
       if (isActive && isConversationalMode) {
@@ -188,6 +211,12 @@ When the user asks about tasks, goals, or their status, use the available tools
     onTranscript: (text, isFinal) => {
       if (isFinal && text.trim()) {
         setObservationLog(prev => [`You: "${text}"`, ...prev.slice(0, 9)]);
+        // "Okay" / "got it" after a rule alert cancels its escalation
+        if (isAcknowledgement(text)) {
+          acknowledgeEscalations().then(count => {
+            if (count > 0) toast.success(`Acknowledged ${count} alert${count === 1 ? '' : 's'}`);
+          });
+        }
       }
     },
     onResponse: (response) => {
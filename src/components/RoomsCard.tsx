@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import type { Room, RoomInput } from '@/hooks/useRooms';
+import type { HomeAssistantConfig } from '@/hooks/useHomeAssistant';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { MapPin, Plus, Trash2, Edit2, Check, X } from 'lucide-react';
+
+interface RoomsCardProps {
+  rooms: Room[];
+  instances: Pick<HomeAssistantConfig, 'id' | 'name'>[];
+  countEntities: (roomId: string) => number;
+  addRoom: (room: RoomInput) => Promise<Room | null>;
+  updateRoom: (id: string, updates: Partial<RoomInput>) => Promise<Room | null>;
+  deleteRoom: (id: string) => Promise<boolean>;
+  isNameTaken: (name: string, exceptId?: string) => boolean;
+}
+
+// The user's rooms, shared by tasks, cameras, rules and the life manager.
+// Home Assistant areas become rooms on sync; other rooms are added here.
+export function RoomsCard({ rooms, instances, countEntities, addRoom, updateRoom, deleteRoom, isNameTaken }: RoomsCardProps) {
+  const { toast } = useToast();
+  const [newRoom, setNewRoom] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+
+  const checkName = (name: string, exceptId?: string): boolean => {
+    if (!name.trim()) return false;
+    if (isNameTaken(name, exceptId)) {
+      toast({ title: 'Room exists', description: `There is already a room called ${name.trim()}.`, variant: 'destructive' });
+      return false;
+    }
+    return true;
+  };
+
+  const handleAdd = async () => {
+    if (!checkName(newRoom)) return;
+    const result = await addRoom({ name: newRoom });
+    if (result) {
+      toast({ title: 'Room added', description: result.name });
+      setNewRoom('');
+    }
+  };
+
+  const handleRename = async (room: Room) => {
+    if (renameValue.trim() === room.name) {
+      setRenamingId(null);
+      return;
+    }
+    if (!checkName(renameValue, room.id)) return;
+    const result = await updateRoom(room.id, { name: renameValue.trim() });
+    if (result) {
+      toast({ title: 'Room renamed', description: `${room.name} is now ${result.name}; the old name still works.` });
+      setRenamingId(null);
+    }
+  };
+
+  const handleAddAlias = async (room: Room) => {
+    const alias = aliasDrafts[room.id]?.trim();
+    if (!alias) return;
+    const result = await updateRoom(room.id, { aliases: [...room.aliases, alias] });
+    if (result) setAliasDrafts(prev => ({ ...prev, [room.id]: '' }));
+  };
+
+  const handleRemoveAlias = async (room: Room, alias: string) => {
+    await updateRoom(room.id, { aliases: room.aliases.filter(a => a !== alias) });
+  };
+
+  const handleDelete = async (room: Room) => {
+    const result = await deleteRoom(room.id);
+    if (result) {
+      toast({ title: 'Room deleted', description: `${room.name} removed. Tasks and cameras in it keep the name.` });
+    }
+  };
+
+  const describeArea = (room: Room): string | null => {
+    if (!room.ha_area_id) return null;
+    const instance = instances.find(i => i.id === room.config_id);
+    return instances.length > 1 && instance ? `Area in ${instance.name}` : 'Home Assistant area';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5 text-cyan-500" />
+          Rooms
+        </CardTitle>
+        <CardDescription>
+          Tasks, cameras, rules and Cortana's sense of where you are all use these rooms.
+          Home Assistant areas become rooms when you sync. A room also answers to its aliases.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={newRoom}
+            onChange={(e) => setNewRoom(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Add a room, e.g. Garage"
+          />
+          <Button variant="outline" onClick={handleAdd} disabled={!newRoom.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+
+        {rooms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rooms yet. Sync Home Assistant or add one above.</p>
+        ) : (
+          <div className="space-y-2">
+            {rooms.map(room => {
+              const area = describeArea(room);
+              const entityCount = countEntities(room.id);
+              return (
+                <div key={room.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    {renamingId === room.id ? (
+                      <div className="flex items-center gap-1 flex-1">
+                        <Input
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename(room)}
+                          className="h-8"
+                          autoFocus
+                        />
+                        <Button variant="ghost" size="icon" onClick={() => handleRename(room)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setRenamingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{room.name}</span>
+                        {area && <Badge variant="secondary">{area}</Badge>}
+                        {entityCount > 0 && (
+                          <span className="text-xs text-muted-foreground">{entityCount} entities</span>
+                        )}
+                      </div>
+                    )}
+                    {renamingId !== room.id && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            setRenamingId(room.id);
+                            setRenameValue(room.name);
+                          }}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(room)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {room.aliases.map(alias => (
+                      <Badge key={alias} variant="outline" className="flex items-center gap-1">
+                        {alias}
+                        <button
+                          type="button"
+                          className="hover:text-destructive"
+                          onClick={() => handleRemoveAlias(room, alias)}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Input
+                      value={aliasDrafts[room.id] || ''}
+                      onChange={(e) => setAliasDrafts(prev => ({ ...prev, [room.id]: e.target.value }))}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddAlias(room)}
+                      placeholder="Add alias"
+                      className="h-7 w-32 text-xs"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
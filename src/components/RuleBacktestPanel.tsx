@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Rule, RuleInput, RuleBacktestReport, RuleBacktestEntry } from '@/hooks/useRules';
+import { toast } from 'sonner';
+
+const BACKTEST_WINDOWS = [
+  { value: '1', label: 'Last 24 hours' },
+  { value: '3', label: 'Last 3 days' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+];
+
+const STATUS_LABELS: Record<RuleBacktestEntry['status'], string> = {
+  fired: 'Fired',
+  skipped_cooldown: 'Cooldown',
+  skipped_daily_cap: 'Daily cap',
+  skipped_excluded_time: 'Excluded time',
+  skipped_excluded_room: 'Excluded room',
+  skipped_conditions: 'Conditions',
+};
+
+// What happened, in a few words, for a timeline row
+function describeTriggerData(data: Record<string, unknown>): string {
+  if (data.entity_id) return `${data.entity_id}: ${data.from_state ?? '?'} → ${data.to_state ?? '?'}`;
+  if (data.task_title) return `${data.task_title} (${data.status}${data.overdue_minutes ? `, ${data.overdue_minutes}m overdue` : ''})`;
+  if (data.goal_title) return `${data.goal_title} at ${data.progress_percent ?? '?'}%`;
+  if (data.scheduled_for) return `Scheduled ${new Date(String(data.scheduled_for)).toLocaleString()}`;
+  if (data.room || data.activity_tag) return [data.room, data.activity_tag].filter(Boolean).join(' · ');
+  return JSON.stringify(data);
+}
+
+interface RuleBacktestPanelProps {
+  rule: RuleInput & Partial<Rule>;
+  backtestRule: (rule: RuleInput & Partial<Rule>, from: Date, to: Date) => Promise<RuleBacktestReport | null>;
+}
+
+export function RuleBacktestPanel({ rule, backtestRule }: RuleBacktestPanelProps) {
+  const [days, setDays] = useState('7');
+  const [report, setReport] = useState<RuleBacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [showSkipped, setShowSkipped] = useState(false);
+
+  const handleRun = async () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - Number(days) * 86400000);
+
+    setIsRunning(true);
+    const result = await backtestRule(rule, from, to);
+    setIsRunning(false);
+
+    if (result) setReport(result);
+    else toast.error('Backtest failed');
+  };
+
+  const timeline = report?.timeline.filter(entry => showSkipped || entry.status === 'fired') || [];
+  const skippedTotal = report ? Object.values(report.skipped).reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKTEST_WINDOWS.map(w => (
+              <SelectItem key={w.value} value={w.value}>{w.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleRun} disabled={isRunning}>
+          {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <History className="w-4 h-4 mr-2" />}
+          Replay
+        </Button>
+      </div>
+
+      {report && (
+        <div className="space-y-3 text-xs">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="p-2 bg-muted/50 rounded">
+              <div className="text-lg font-semibold">{report.fired}</div>
+              <div className="text-muted-foreground">fires of {report.matched} matching events</div>
+            </div>
+            <div className="p-2 bg-muted/50 rounded">
+              <div className="text-lg font-semibold">{report.averageFiresPerDay}</div>
+              <div className="text-muted-foreground">per day on average</div>
+            </div>
+            <div className="p-2 bg-muted/50 rounded">
+              <div className="text-lg font-semibold">{report.maxFiresPerDay}</div>
+              <div className="text-muted-foreground">on the busiest day</div>
+            </div>
+          </div>
+
+          {skippedTotal > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(report.skipped).filter(([, n]) => n > 0).map(([reason, n]) => (
+                <Badge key={reason} variant="outline">
+                  {n} skipped: {STATUS_LABELS[`skipped_${reason}` as RuleBacktestEntry['status']]}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {Object.keys(report.firesPerDay).length > 0 && (
+            <div className="p-2 bg-muted/50 rounded space-y-1">
+              <span className="font-medium">Fires per day</span>
+              {Object.entries(report.firesPerDay).map(([date, n]) => (
+                <div key={date} className="flex justify-between">
+                  <span>{date}</span>
+                  <span>{n}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.notes.map(note => (
+            <p key={note} className="text-muted-foreground">• {note}</p>
+          ))}
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">Timeline</span>
+              <Button variant="ghost" size="sm" onClick={() => setShowSkipped(!showSkipped)}>
+                {showSkipped ? 'Fires only' : 'Show skipped'}
+              </Button>
+            </div>
+            {timeline.length === 0 && <p className="text-muted-foreground">Nothing to show</p>}
+            {timeline.map((entry, i) => (
+              <div key={i} className="flex items-start gap-2 p-1 border-b border-border/50">
+                <Badge variant={entry.status === 'fired' ? 'default' : 'secondary'} className="shrink-0">
+                  {STATUS_LABELS[entry.status]}
+                </Badge>
+                <div className="min-w-0">
+                  <div>
+                    {new Date(entry.at).toLocaleString()}
+                    <span className="text-muted-foreground"> — {describeTriggerData(entry.triggerData)}</span>
+                  </div>
+                  {entry.explanation && <div className="text-muted-foreground">{entry.explanation}</div>}
+                </div>
+              </div>
+            ))}
+            {report.truncated && <p className="text-muted-foreground">Timeline truncated</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState, useMemo } from 'react';
+import { Download, Upload, AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useHomeAssistant } from '@/hooks/useHomeAssistant';
+import { useGoals } from '@/hooks/useGoals';
+import { useTasks } from '@/hooks/useTasks';
+import { useCameras } from '@/hooks/useCameras';
+import type { Rule, RuleInput } from '@/hooks/useRules';
+import {
+  parseRuleBundle,
+  collectReferences,
+  remapReferences,
+  RuleBundleError,
+  RuleBundleFormat,
+  RuleBundleIssue,
+  RuleReference,
+  RuleReferenceKind,
+  RuleReferenceMapping,
+} from '@/lib/ruleBundle';
+import { toast } from 'sonner';
+
+const REFERENCE_LABELS: Record<RuleReferenceKind, string> = {
+  instance_id: 'Home Assistant',
+  entity_id: 'Entity',
+  goal_id: 'Goal',
+  task_id: 'Task',
+  camera_id: 'Camera',
+};
+
+// Select value for "leave the reference as it is"
+const KEEP_REFERENCE = '__keep__';
+
+interface RuleBundleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rules: Rule[];
+  exportRules: (scope: { ruleId?: string; category?: string }, format: RuleBundleFormat) => string;
+  importRules: (rules: RuleInput[]) => Promise<Rule[] | null>;
+}
+
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function ExportPanel({ rules, exportRules }: Pick<RuleBundleDialogProps, 'rules' | 'exportRules'>) {
+  // "all", "category:<name>" or "rule:<id>"
+  const [scope, setScope] = useState('all');
+  const [format, setFormat] = useState<RuleBundleFormat>('json');
+
+  const categories = useMemo(
+    () => [...new Set(rules.map(r => r.category || 'custom'))].sort(),
+    [rules]
+  );
+
+  const [scopeKind, scopeValue] = scope.split(':');
+  const bundle = exportRules(
+    {
+      ruleId: scopeKind === 'rule' ? scopeValue : undefined,
+      category: scopeKind === 'category' ? scopeValue : undefined,
+    },
+    format
+  );
+
+  const handleDownload = () => {
+    const name = scopeKind === 'rule'
+      ? rules.find(r => r.id === scopeValue)?.name || 'rule'
+      : scopeValue || 'all-rules';
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadText(bundle, `${slug}.rules.${format}`, format === 'yaml' ? 'application/yaml' : 'application/json');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label>Rules</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rules ({rules.length})</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category} value={`category:${category}`}>
+                  Category: {category}
+                </SelectItem>
+              ))}
+              {rules.map(rule => (
+                <SelectItem key={rule.id} value={`rule:${rule.id}`}>{rule.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(v) => setFormat(v as RuleBundleFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="yaml">YAML</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Textarea readOnly className="font-mono text-xs min-h-[240px]" value={bundle} />
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => navigator.clipboard.writeText(bundle).then(() => toast.success('Copied to clipboard'))}
+        >
+          Copy
+        </Button>
+        <Button onClick={handleDownload}>
+          <Download className="w-4 h-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Rendered only while importing, so the lookups below don't load with the page
+function ReferenceMappingStep({
+  references,
+  mapping,
+  onChange,
+}: {
+  references: RuleReference[];
+  mapping: RuleReferenceMapping;
+  onChange: (mapping: RuleReferenceMapping) => void;
+}) {
+  const { configs, entities } = useHomeAssistant();
+  const { goals } = useGoals();
+  const { tasks } = useTasks();
+  const { cameras } = useCameras();
+
+  const options: Record<RuleReferenceKind, Array<{ id: string; label: string }>> = {
+    instance_id: configs.map(c => ({ id: c.id, label: c.name })),
+    // The same entity_id can exist in several instances
+    entity_id: [...new Map(entities.map(e => [e.entity_id, { id: e.entity_id, label: e.friendly_name || e.entity_id }])).values()],
+    goal_id: goals.map(g => ({ id: g.id, label: g.title })),
+    task_id: tasks.map(t => ({ id: t.id, label: t.title })),
+    camera_id: cameras.map(c => ({ id: c.id, label: c.name })),
+  };
+
+  const missing = references.filter(ref => !options[ref.kind].some(o => o.id === ref.id));
+
+  if (missing.length === 0) {
+    return <p className="text-sm text-muted-foreground">All referenced entities, goals, tasks and cameras exist in this account.</p>;
+  }
+
+  const setTarget = (ref: RuleReference, target: string) => {
+    const forKind = { ...mapping[ref.kind] };
+    if (target === KEEP_REFERENCE) delete forKind[ref.id];
+    else forKind[ref.id] = target;
+    onChange({ ...mapping, [ref.kind]: forKind });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        These references don't exist in this account. Map them to your own, or keep them to fix later.
+      </p>
+      {missing.map(ref => (
+        <div key={`${ref.kind}:${ref.id}`} className="grid grid-cols-2 gap-2 items-center">
+          <div className="text-sm min-w-0">
+            <Badge variant="outline" className="mr-1">{REFERENCE_LABELS[ref.kind]}</Badge>
+            <span className="font-mono break-all">{ref.id}</span>
+            <div className="text-xs text-muted-foreground truncate">Used by {ref.usedBy.join(', ')}</div>
+          </div>
+          <Select
+            value={mapping[ref.kind]?.[ref.id] || KEEP_REFERENCE}
+            onValueChange={(v) => setTarget(ref, v)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP_REFERENCE}>Keep as is</SelectItem>
+              {options[ref.kind].map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ImportPanel({ importRules, onDone }: Pick<RuleBundleDialogProps, 'importRules'> & { onDone: () => void }) {
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<RuleInput[] | null>(null);
+  const [issues, setIssues] = useState<RuleBundleIssue[]>([]);
+  const [mapping, setMapping] = useState<RuleReferenceMapping>({});
+  const [importDisabled, setImportDisabled] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const references = useMemo(() => (parsed ? collectReferences(parsed) : []), [parsed]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setParsed(null);
+  };
+
+  const handleValidate = () => {
+    try {
+      const bundle = parseRuleBundle(text);
+      setParsed(bundle.rules);
+      setIssues([]);
+      setMapping({});
+    } catch (err) {
+      setParsed(null);
+      if (err instanceof RuleBundleError) {
+        setIssues(err.issues.length ? err.issues : [{ path: '', message: err.message }]);
+      } else {
+        console.error('Failed to read rule bundle:', err);
+        setIssues([{ path: '', message: 'Failed to read bundle' }]);
+      }
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed) return;
+
+    setIsImporting(true);
+    const remapped = remapReferences(parsed, mapping)
+      .map(rule => (importDisabled ? { ...rule, is_enabled: false } : rule));
+    const imported = await importRules(remapped);
+    setIsImporting(false);
+
+    if (imported) {
+      toast.success(`Imported ${imported.length} rule${imported.length === 1 ? '' : 's'}`);
+      onDone();
+    } else {
+      toast.error('Failed to import rules');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {!parsed ? (
+        <>
+          <div className="grid gap-2">
+            <Label>Bundle file</Label>
+            <Input type="file" accept=".json,.yaml,.yml" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </div>
+          <div className="grid gap-2">
+            <Label>Or paste JSON / YAML</Label>
+            <Textarea
+              className="font-mono text-xs min-h-[200px]"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+
+          {issues.length > 0 && (
+            <div className="p-2 bg-destructive/10 rounded space-y-1 text-xs">
+              {issues.map((issue, i) => (
+                <div key={i} className="flex items-start gap-1">
+                  <AlertTriangle className="w-3 h-3 text-destructive shrink-0 mt-0.5" />
+                  <span>
+                    {issue.ruleIndex !== undefined && `Rule ${issue.ruleIndex + 1}${issue.ruleName ? ` (${issue.ruleName})` : ''}: `}
+                    {issue.path && <span className="font-mono">{issue.path} </span>}
+                    {issue.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button onClick={handleValidate} disabled={!text.trim()}>Validate</Button>
+          </DialogFooter>
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {parsed.map((rule, i) => (
+              <Badge key={i} variant="secondary">{rule.name}</Badge>
+            ))}
+          </div>
+
+          <ReferenceMappingStep references={references} mapping={mapping} onChange={setMapping} />
+
+          <div className="flex items-center gap-2">
+            <Switch checked={importDisabled} onCheckedChange={setImportDisabled} />
+            <Label>Import as disabled</Label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setParsed(null)}>Back</Button>
+            <Button onClick={handleImport} disabled={isImporting}>
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import {parsed.length} rule{parsed.length === 1 ? '' : 's'}
+            </Button>
+          </DialogFooter>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function RuleBundleDialog({ open, onOpenChange, rules, exportRules, importRules }: RuleBundleDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import / Export Rules</DialogTitle>
+          <DialogDescription>
+            Share rule sets as versioned JSON or YAML bundles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export">
+            <ExportPanel rules={rules} exportRules={exportRules} />
+          </TabsContent>
+
+          <TabsContent value="import">
+            <ImportPanel importRules={importRules} onDone={() => onOpenChange(false)} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,7 @@
+import { useRuleEvents } from '@/hooks/useRuleEvents';
+
+// Headless bridge between app events and the rules engine
+export function RuleEventDispatcher() {
+  useRuleEvents();
+  return null;
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CheckCircle2, XCircle, Loader2, RefreshCw, FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RuleBacktestPanel } from '@/components/RuleBacktestPanel';
+import { useAuth } from '@/hooks/useAuth';
+import type { Rule, RuleInput, RuleTestReport, RuleBacktestReport, RuleConditionTrace } from '@/hooks/useRules';
+import { buildEvaluationContext, sampleTriggerData, RuleEvaluationContext } from '@/lib/ruleEvents';
+import { describeCondition } from '@/lib/ruleConditions';
+import { toast } from 'sonner';
+
+interface RuleTestDialogProps {
+  rule: (RuleInput & Partial<Rule>) | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  testRule: (
+    rule: RuleInput & Partial<Rule>,
+    triggerData: Record<string, unknown>,
+    context: RuleEvaluationContext
+  ) => Promise<RuleTestReport | null>;
+  backtestRule: (rule: RuleInput & Partial<Rule>, from: Date, to: Date) => Promise<RuleBacktestReport | null>;
+}
+
+function ConditionTraceNode({ trace }: { trace: RuleConditionTrace }) {
+  const icon = trace.result
+    ? <CheckCircle2 className="w-3 h-3 text-green-500 shrink-0" />
+    : <XCircle className="w-3 h-3 text-destructive shrink-0" />;
+
+  if ('group' in trace) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-1 font-medium">
+          {icon}
+          {trace.group.toUpperCase()}
+        </div>
+        <div className="border-l-2 border-border pl-3 space-y-1">
+          {trace.children.length === 0 && <p className="text-muted-foreground">(no conditions)</p>}
+          {trace.children.map((child, i) => (
+            <ConditionTraceNode key={i} trace={child} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-1">
+      {icon}
+      <span>
+        {describeCondition(trace.condition)}
+        <span className="text-muted-foreground"> — actual: {JSON.stringify(trace.actual_value) ?? 'undefined'}</span>
+      </span>
+    </div>
+  );
+}
+
+export function RuleTestDialog({ rule, open, onOpenChange, testRule, backtestRule }: RuleTestDialogProps) {
+  const { user } = useAuth();
+  const [triggerJson, setTriggerJson] = useState('{}');
+  const [contextJson, setContextJson] = useState('{}');
+  const [report, setReport] = useState<RuleTestReport | null>(null);
+  const [isLoadingContext, setIsLoadingContext] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const loadLiveContext = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoadingContext(true);
+    try {
+      // triggerData is sent separately, so leave it out of the editable context
+      const { triggerData: _triggerData, ...context } = await buildEvaluationContext(user.id, {});
+      setContextJson(JSON.stringify(context, null, 2));
+    } catch (err) {
+      console.error('Failed to load live context:', err);
+      toast.error('Failed to load live context');
+    } finally {
+      setIsLoadingContext(false);
+    }
+  }, [user]);
+
+  // Serialized so a re-render that passes an equal rule does not reset the edited JSON
+  const sampleTriggerJson = useMemo(
+    () => (rule ? JSON.stringify(sampleTriggerData(rule), null, 2) : null),
+    [rule]
+  );
+
+  useEffect(() => {
+    if (!open || sampleTriggerJson === null) return;
+    setReport(null);
+    setTriggerJson(sampleTriggerJson);
+    loadLiveContext();
+  }, [open, sampleTriggerJson, loadLiveContext]);
+
+  const handleRun = async () => {
+    if (!rule) return;
+
+    let triggerData: Record<string, unknown>;
+    let context: RuleEvaluationContext;
+    try {
+      triggerData = JSON.parse(triggerJson);
+      context = JSON.parse(contextJson);
+    } catch {
+      toast.error('Trigger data and context must be valid JSON');
+      return;
+    }
+
+    setIsRunning(true);
+    const result = await testRule(rule, triggerData, context);
+    setIsRunning(false);
+
+    if (result) setReport(result);
+    else toast.error('Rule test failed');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="w-4 h-4" />
+            Test Rule{rule?.name ? `: ${rule.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Dry run against the live or an edited context, or replay recorded history. Nothing is executed or logged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="dry-run">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="dry-run">Dry run</TabsTrigger>
+            <TabsTrigger value="backtest">Backtest</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="dry-run" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>Trigger data</Label>
+                <Textarea
+                  className="font-mono text-xs min-h-[180px]"
+                  value={triggerJson}
+                  onChange={(e) => setTriggerJson(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <div className="flex items-center justify-between">
+                  <Label>Context</Label>
+                  <Button variant="ghost" size="sm" onClick={loadLiveContext} disabled={isLoadingContext}>
+                    <RefreshCw className={`w-3 h-3 mr-1 ${isLoadingContext ? 'animate-spin' : ''}`} />
+                    Live
+                  </Button>
+                </div>
+                <Textarea
+                  className="font-mono text-xs min-h-[180px]"
+                  value={contextJson}
+                  onChange={(e) => setContextJson(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Button onClick={handleRun} disabled={isRunning || !rule} className="w-full">
+              {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+              Run test
+            </Button>
+
+            {report && (
+              <div className="space-y-3 text-xs">
+                <Badge variant={report.wouldFire ? 'default' : 'secondary'}>
+                  {report.wouldFire ? 'Would fire' : 'Would not fire'}
+                </Badge>
+
+                <div className="p-2 bg-muted/50 rounded space-y-1">
+                  <span className="font-medium">Checks</span>
+                  {report.checks.map(check => (
+                    <div key={check.check} className="flex items-start gap-1">
+                      {check.passed
+                        ? <CheckCircle2 className="w-3 h-3 text-green-500 shrink-0" />
+                        : <XCircle className="w-3 h-3 text-destructive shrink-0" />}
+                      <span>
+                        {check.check} <span className="text-muted-foreground">— {check.detail}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="p-2 bg-muted/50 rounded space-y-1">
+                  <span className="font-medium">Conditions</span>
+                  <ConditionTraceNode trace={report.conditions} />
+                </div>
+
+                <div className="p-2 bg-muted/50 rounded space-y-1">
+                  <span className="font-medium">{report.wouldFire ? 'Would run' : 'Would have run'}</span>
+                  {report.actions.length === 0 && <p className="text-muted-foreground">No actions</p>}
+                  {report.actions.map((action, i) => (
+                    <div key={i}>
+                      {action.type} <span className="text-muted-foreground">{JSON.stringify(action.config)}</span>
+                    </div>
+                  ))}
+                  {report.escalation && (
+                    <div>
+                      then after {report.escalation.after_minutes} min unacknowledged: {report.escalation.action.type}
+                    </div>
+                  )}
+                </div>
+
+                {report.explanation && (
+                  <div className="p-2 bg-muted/50 rounded">
+                    <span className="font-medium">BECAUSE:</span> {report.explanation}
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="backtest">
+            {rule && <RuleBacktestPanel key={rule.id || 'unsaved'} rule={rule} backtestRule={backtestRule} />}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react';
+import { History, Loader2, RotateCcw, Bot, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Rule, RuleVersion } from '@/hooks/useRules';
+import { describeRuleChanges } from '@/lib/ruleVersions';
+import { toast } from 'sonner';
+
+interface RuleVersionHistoryDialogProps {
+  rule: Rule | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getRuleVersions: (ruleId: string) => Promise<RuleVersion[]>;
+  rollbackRule: (ruleId: string, version: RuleVersion) => Promise<Rule | null>;
+}
+
+function VersionChanges({ version }: { version: RuleVersion }) {
+  if (!version.changes) {
+    return <p className="text-xs text-muted-foreground">Created</p>;
+  }
+
+  const changes = describeRuleChanges(version.changes);
+  return (
+    <div className="space-y-1 text-xs">
+      {changes.map((change, i) => (
+        <div key={i} className="p-2 bg-muted/50 rounded">
+          <span className="font-medium">{change.label}:</span>
+          {change.before !== undefined && (
+            <span className="ml-1 text-red-400 line-through break-all">{change.before}</span>
+          )}
+          {change.before !== undefined && change.after !== undefined && <span className="mx-1">→</span>}
+          {change.after !== undefined && (
+            <span className={`${change.before === undefined ? 'ml-1 ' : ''}text-green-400 break-all`}>{change.after}</span>
+          )}
+          {change.before === undefined && change.after === undefined && (
+            <span className="ml-1 text-muted-foreground">cleared</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function RuleVersionHistoryDialog({
+  rule, open, onOpenChange, getRuleVersions, rollbackRule,
+}: RuleVersionHistoryDialogProps) {
+  const [versions, setVersions] = useState<RuleVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+
+  const ruleId = rule?.id;
+
+  const loadVersions = useCallback(async () => {
+    if (!open || !ruleId) return;
+    setIsLoading(true);
+    setVersions(await getRuleVersions(ruleId));
+    setIsLoading(false);
+  }, [open, ruleId, getRuleVersions]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleRollback = async (version: RuleVersion) => {
+    if (!rule) return;
+
+    setRestoringVersion(version.version);
+    const restored = await rollbackRule(rule.id, version);
+    setRestoringVersion(null);
+
+    if (restored) {
+      toast.success(`Rolled back to version ${version.version}`);
+      loadVersions();
+    } else {
+      toast.error('Rollback failed');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History{rule ? `: ${rule.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Every change to the rule's trigger, conditions, actions and settings. Rolling back saves the old definition as a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map(version => {
+              const isCurrent = version.version === rule?.version;
+              const EditorIcon = version.edited_by === 'ai' ? Bot : User;
+
+              return (
+                <div key={version.id} className="border border-border rounded-md p-3 space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">v{version.version}</span>
+                    {isCurrent && <Badge variant="secondary">current</Badge>}
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <EditorIcon className="w-3 h-3" />
+                      {version.edited_by === 'ai' ? 'AI' : 'You'}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(version.created_at).toLocaleString()}
+                    </span>
+                    {version.note && <Badge variant="outline">{version.note}</Badge>}
+                    {!isCurrent && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-auto"
+                        disabled={restoringVersion !== null}
+                        onClick={() => handleRollback(version)}
+                      >
+                        {restoringVersion === version.version
+                          ? <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          : <RotateCcw className="w-3 h-3 mr-1" />}
+                        Roll back
+                      </Button>
+                    )}
+                  </div>
+                  <VersionChanges version={version} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { Copy, Eye, EyeOff, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useRuleWebhook, getRuleWebhookUrl } from '@/hooks/useRuleWebhook';
+import { toast } from 'sonner';
+
+interface RuleWebhookPanelProps {
+  // Unsaved rules have no webhook yet
+  ruleId: string | null;
+}
+
+function copy(text: string, what: string) {
+  navigator.clipboard.writeText(text).then(() => toast.success(`${what} copied to clipboard`));
+}
+
+export function RuleWebhookPanel({ ruleId }: RuleWebhookPanelProps) {
+  const { webhook, isLoading, error, rotateSecret, setRateLimit } = useRuleWebhook(ruleId);
+  const [showSecret, setShowSecret] = useState(false);
+  const [rateLimit, setRateLimitInput] = useState('');
+  const [isRotating, setIsRotating] = useState(false);
+
+  useEffect(() => {
+    if (webhook) setRateLimitInput(String(webhook.rate_limit_per_minute));
+  }, [webhook]);
+
+  if (!ruleId) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Save the rule to get its webhook URL and signing secret.
+      </p>
+    );
+  }
+
+  if (isLoading || !webhook) {
+    return error ? (
+      <p className="text-xs text-destructive">{error}</p>
+    ) : (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Loading webhook...
+      </div>
+    );
+  }
+
+  const url = getRuleWebhookUrl(webhook);
+
+  const handleRotate = async () => {
+    setIsRotating(true);
+    // The old secret stops working immediately, so callers need the new one
+    if (await rotateSecret()) toast.success('Secret rotated', { description: 'Update the secret wherever this webhook is called from' });
+    else toast.error('Failed to rotate secret');
+    setIsRotating(false);
+  };
+
+  const handleRateLimitBlur = async () => {
+    const value = parseInt(rateLimit);
+    if (!value || value < 1) {
+      setRateLimitInput(String(webhook.rate_limit_per_minute));
+      return;
+    }
+    if (value !== webhook.rate_limit_per_minute && !(await setRateLimit(value))) {
+      toast.error('Failed to update rate limit');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs">URL</Label>
+        <div className="flex gap-2">
+          <Input value={url} readOnly className="font-mono text-xs" />
+          <Button type="button" variant="outline" size="icon" onClick={() => copy(url, 'URL')}>
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Signing secret</Label>
+        <div className="flex gap-2">
+          <Input
+            value={showSecret ? webhook.secret : '•'.repeat(24)}
+            readOnly
+            className="font-mono text-xs"
+          />
+          <Button type="button" variant="outline" size="icon" onClick={() => setShowSecret(!showSecret)}>
+            {showSecret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          </Button>
+          <Button type="button" variant="outline" size="icon" onClick={() => copy(webhook.secret, 'Secret')}>
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="outline" size="icon" disabled={isRotating} onClick={handleRotate}>
+            {isRotating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label className="text-xs whitespace-nowrap">Max requests per minute</Label>
+        <Input
+          type="number"
+          min={1}
+          value={rateLimit}
+          onChange={(e) => setRateLimitInput(e.target.value)}
+          onBlur={handleRateLimitBlur}
+          className="w-24"
+        />
+      </div>
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        <p>
+          POST any body; a JSON object becomes the trigger data, e.g. <code>{'{trigger.event}'}</code> in templates.
+          Sign each request with these headers:
+        </p>
+        <pre className="p-2 bg-muted/50 rounded font-mono whitespace-pre-wrap break-all">
+{`X-Cortana-Timestamp: <unix seconds>
+X-Cortana-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" with the secret>
+X-Idempotency-Key: <optional, same on retries>`}
+        </pre>
+      </div>
+
+      {webhook.last_received_at && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          Last request {new Date(webhook.last_received_at).toLocaleString()}
+          {webhook.last_status && <Badge variant="outline">{webhook.last_status}</Badge>}
+        </div>
+      )}
+    </div>
+  );
+}
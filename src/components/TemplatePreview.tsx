@@ -0,0 +1,24 @@
+import { renderTemplate, validateTemplate } from '@/lib/ruleTemplate';
+
+interface TemplatePreviewProps {
+  template?: string;
+  scope: Record<string, unknown> | null;
+}
+
+// Live rendering of a rule template against the current context
+export function TemplatePreview({ template, scope }: TemplatePreviewProps) {
+  if (!template) return null;
+
+  const error = validateTemplate(template);
+  if (error) return <p className="text-xs text-destructive">{error}</p>;
+  if (!scope || !template.includes('{')) return null;
+
+  // The scope's context carries the user's timezone, as in rules-engine
+  const { timeZone } = (scope.context || {}) as { timeZone?: string };
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      Preview: {renderTemplate(template, scope, { timeZone })}
+    </p>
+  );
+}
@@ -31,7 +31,7 @@ interface AmbientAIConfig {
 export function useAmbientAIWithSettings(config: AmbientAIConfig = {}) {
   const { goals } = useGoals();
   const { tasks, refetch: refetchTasks } = useTasks();
-  const { settings, getWebhookById } = useSettings();
+  const { settings, getWebhookById, timeZone } = useSettings();
   
   // Get TTS webhook from current voice provider setting
   const voiceProvider = settings.voice?.provider;
@@ -123,6 +123,7 @@ export function useAmbientAIWithSettings(config: AmbientAIConfig = {}) {
           })),
           isProactiveCheck: true,
           conversationHistory: conversationHistoryRef.current.slice(-6),
+          timeZone,
         },
       });
 
@@ -154,7 +155,7 @@ export function useAmbientAIWithSettings(config: AmbientAIConfig = {}) {
       setIsProcessing(false);
       scheduleProactiveCheck();
     }
-  }, [isProcessing, isSpeaking, isActive, config, scheduleProactiveCheck, refetchTasks]);
+  }, [isProcessing, isSpeaking, isActive, config, scheduleProactiveCheck, refetchTasks, timeZone]);
 
   // Process user input
   const processInput = useCallback(async (transcript: string) => {
@@ -196,6 +197,7 @@ export function useAmbientAIWithSettings(config: AmbientAIConfig = {}) {
             room: t.room,
           })),
           conversationHistory: conversationHistoryRef.current.slice(-10),
+          timeZone,
         },
       });
 
@@ -237,7 +239,7 @@ export function useAmbientAIWithSettings(config: AmbientAIConfig = {}) {
     } finally {
       setIsProcessing(false);
     }
-  }, [isProcessing, isSpeaking, config, refetchTasks]);
+  }, [isProcessing, isSpeaking, config, refetchTasks, timeZone]);
 
   // Speak using configured provider
   const speak = useCallback(async (text: string) => {
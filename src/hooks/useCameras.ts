@@ -13,6 +13,8 @@ export interface Camera {
   username?: string;
   password?: string;
   room?: string;
+  // The rooms row this camera is in; kept in sync with room by trigger
+  room_id?: string;
   is_active: boolean;
   last_seen?: string;
   created_at: string;
@@ -29,6 +31,7 @@ export interface CameraInput {
   username?: string;
   password?: string;
   room?: string;
+  room_id?: string;
   is_active?: boolean;
 }
 
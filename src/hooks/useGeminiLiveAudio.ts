@@ -67,7 +67,7 @@ function getSpeechRecognition(): (new () => SpeechRecognition) | null {
  * while working within browser constraints.
  */
 export function useGeminiLiveAudio(config: GeminiLiveConfig = {}) {
-  const { settings, getVoiceProviderConfig } = useSettings();
+  const { settings, getVoiceProviderConfig, timeZone } = useSettings();
   const [state, setState] = useState<SessionState>('idle');
   const [isActive, setIsActive] = useState(false);
   const [currentTranscript, setCurrentTranscript] = useState('');
@@ -374,6 +374,7 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig = {}) {
           provider: provider,
           apiKey: config.aiApiKey,
           model: config.aiModel,
+          timeZone,
         },
       });
 
@@ -417,7 +418,7 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig = {}) {
     } finally {
       isProcessingRef.current = false;
     }
-  }, [conversationHistory, config, speak, updateState, isActive]);
+  }, [conversationHistory, config, speak, updateState, isActive, timeZone]);
 
   // Start listening
   const startListening = useCallback(() => {
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { emitGoalState } from '@/lib/ruleEvents';
 
 export interface Goal {
   id: string;
@@ -151,6 +152,7 @@ export const useGoals = () => {
         status: data.status as 'active' | 'completed' | 'paused'
       };
       setGoals(prev => prev.map(g => g.id === id ? updatedGoal : g));
+      emitGoalState(updatedGoal);
       return updatedGoal;
     } catch (err) {
       console.error('Failed to update goal:', err);
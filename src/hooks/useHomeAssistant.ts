@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { emitEntityStateChange } from '@/lib/ruleEvents';
 
 export interface HomeAssistantConfig {
   id: string;
@@ -9,6 +10,13 @@ export interface HomeAssistantConfig {
   name: string;
   is_active: boolean;
   last_connected_at: string | null;
+  // Written by services/ha-subscriber while it holds a live subscription
+  last_event_at: string | null;
+  subscriber_connected_at: string | null;
+  subscriber_seen_at: string | null;
+  // Last characters of the saved token; the token itself never leaves the edge functions
+  token_hint: string | null;
+  token_updated_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -16,12 +24,34 @@ export interface HomeAssistantConfig {
 export interface HomeAssistantEntity {
   id: string;
   user_id: string;
+  // The instance (home_assistant_config) it belongs to; entity_id is only unique within one
+  config_id: string;
   entity_id: string;
   friendly_name: string | null;
   state: string | null;
   attributes: Record<string, unknown>;
   domain: string | null;
   last_updated_at: string | null;
+  // From Home Assistant's registries: the entity's device, its area (or its device's) and that area's room
+  device_id: string | null;
+  area_id: string | null;
+  room_id: string | null;
+  // Pinned to the top of the home control panel
+  is_favorite: boolean;
+}
+
+// A state as Home Assistant reports it, e.g. among the states a service call changed
+export interface HomeAssistantState {
+  entity_id: string;
+  state: string;
+  attributes: Record<string, unknown>;
+  last_updated: string;
+}
+
+// What a control is expected to do, shown before Home Assistant confirms it
+export interface ExpectedEntityState {
+  state?: string;
+  attributes?: Record<string, unknown>;
 }
 
 export interface HomeAssistantConfigInput {
@@ -30,19 +60,40 @@ export interface HomeAssistantConfigInput {
   is_active?: boolean;
 }
 
-export function useHomeAssistant() {
-  const [config, setConfig] = useState<HomeAssistantConfig | null>(null);
+// The subscriber writes a heartbeat every 30 seconds
+const SUBSCRIBER_STALE_MS = 2 * 60 * 1000;
+
+export function isSubscriberLive(config: Pick<HomeAssistantConfig, 'subscriber_seen_at'>): boolean {
+  return !!config.subscriber_seen_at
+    && Date.now() - new Date(config.subscriber_seen_at).getTime() < SUBSCRIBER_STALE_MS;
+}
+
+// live keeps entities current over realtime as the subscriber or a sync writes them
+export function useHomeAssistant({ live = false }: { live?: boolean } = {}) {
+  // One per Home Assistant instance, oldest first
+  const [configs, setConfigs] = useState<HomeAssistantConfig[]>([]);
   const [entities, setEntities] = useState<HomeAssistantEntity[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
 
-  // Store token in memory only (never in DB for security)
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  // Calls the home-assistant edge function, which uses the saved token unless one is passed
+  const invokeHomeAssistant = async (body: Record<string, unknown>) => {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/home-assistant`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${sessionData.session?.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    return { response, result: await response.json() };
+  };
 
-  const fetchConfig = useCallback(async () => {
+  const fetchConfigs = useCallback(async () => {
     if (!user) {
-      setConfig(null);
+      setConfigs([]);
       setIsLoading(false);
       return;
     }
@@ -53,10 +104,10 @@ export function useHomeAssistant() {
         .from('home_assistant_config')
         .select('*')
         .eq('user_id', user.id)
-        .maybeSingle();
+        .order('created_at', { ascending: true });
 
       if (fetchError) throw fetchError;
-      setConfig(data as HomeAssistantConfig | null);
+      setConfigs((data || []) as HomeAssistantConfig[]);
     } catch (err) {
       console.error('Error fetching HA config:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch config');
@@ -65,8 +116,8 @@ export function useHomeAssistant() {
     }
   }, [user]);
 
-  const fetchEntities = useCallback(async () => {
-    if (!user) return;
+  const fetchEntities = useCallback(async (): Promise<HomeAssistantEntity[]> => {
+    if (!user) return [];
 
     try {
       const { data, error: fetchError } = await supabase
@@ -76,22 +127,58 @@ export function useHomeAssistant() {
         .order('domain', { ascending: true });
 
       if (fetchError) throw fetchError;
-      setEntities((data || []) as HomeAssistantEntity[]);
+      const fetched = (data || []) as HomeAssistantEntity[];
+      setEntities(fetched);
+      return fetched;
     } catch (err) {
       console.error('Error fetching HA entities:', err);
+      return [];
     }
   }, [user]);
 
   useEffect(() => {
-    fetchConfig();
+    fetchConfigs();
     fetchEntities();
-  }, [fetchConfig, fetchEntities]);
+  }, [fetchConfigs, fetchEntities]);
+
+  useEffect(() => {
+    if (!user || !live) return;
 
-  const saveConfig = async (input: HomeAssistantConfigInput): Promise<HomeAssistantConfig | null> => {
+    const channel = supabase
+      .channel(`ha-entities-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'home_assistant_entities',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removed = payload.old as { id?: string };
+            setEntities(prev => prev.filter(e => e.id !== removed.id));
+            return;
+          }
+          const row = payload.new as HomeAssistantEntity;
+          setEntities(prev => prev.some(e => e.id === row.id)
+            ? prev.map(e => e.id === row.id ? row : e)
+            : [...prev, row]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, live]);
+
+  // Updates the given instance, or adds a new one
+  const saveConfig = async (input: HomeAssistantConfigInput, configId?: string): Promise<HomeAssistantConfig | null> => {
     if (!user) return null;
 
     try {
-      if (config) {
+      if (configId) {
         // Update existing
         const { data, error: updateError } = await supabase
           .from('home_assistant_config')
@@ -100,12 +187,12 @@ export function useHomeAssistant() {
             name: input.name || 'Home Assistant',
             is_active: input.is_active ?? true,
           })
-          .eq('id', config.id)
+          .eq('id', configId)
           .select()
           .single();
 
         if (updateError) throw updateError;
-        setConfig(data as HomeAssistantConfig);
+        setConfigs(prev => prev.map(c => c.id === configId ? data as HomeAssistantConfig : c));
         return data as HomeAssistantConfig;
       } else {
         // Create new
@@ -121,7 +208,7 @@ export function useHomeAssistant() {
           .single();
 
         if (insertError) throw insertError;
-        setConfig(data as HomeAssistantConfig);
+        setConfigs(prev => [...prev, data as HomeAssistantConfig]);
         return data as HomeAssistantConfig;
       }
     } catch (err) {
@@ -131,19 +218,19 @@ export function useHomeAssistant() {
     }
   };
 
-  const deleteConfig = async (): Promise<boolean> => {
-    if (!user || !config) return false;
+  // Its entities, history and saved token go with it
+  const deleteConfig = async (configId: string): Promise<boolean> => {
+    if (!user) return false;
 
     try {
       const { error: deleteError } = await supabase
         .from('home_assistant_config')
         .delete()
-        .eq('id', config.id);
+        .eq('id', configId);
 
       if (deleteError) throw deleteError;
-      setConfig(null);
-      setEntities([]);
-      setAccessToken(null);
+      setConfigs(prev => prev.filter(c => c.id !== configId));
+      setEntities(prev => prev.filter(e => e.config_id !== configId));
       return true;
     } catch (err) {
       console.error('Error deleting HA config:', err);
@@ -151,24 +238,20 @@ export function useHomeAssistant() {
     }
   };
 
-  const testConnection = async (instanceUrl: string, token: string): Promise<{ success: boolean; message: string }> => {
+  // Without a token, tests the one saved for configId
+  const testConnection = async (
+    instanceUrl: string,
+    token?: string,
+    configId?: string
+  ): Promise<{ success: boolean; message: string }> => {
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/home-assistant`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionData.session?.access_token}`,
-        },
-        body: JSON.stringify({
-          action: 'test',
-          instance_url: instanceUrl,
-          access_token: token,
-        }),
+      const { response, result } = await invokeHomeAssistant({
+        action: 'test',
+        config_id: configId,
+        instance_url: instanceUrl,
+        access_token: token || undefined,
       });
 
-      const result = await response.json();
-      
       if (!response.ok) {
         return { success: false, message: result.error || 'Connection failed' };
       }
@@ -179,90 +262,180 @@ export function useHomeAssistant() {
     }
   };
 
-  const syncEntities = async (token: string): Promise<{ success: boolean; count?: number }> => {
-    if (!config) return { success: false };
-
+  // Checked against Home Assistant, then stored encrypted; replaces any saved token
+  const saveToken = async (configId: string, token: string): Promise<{ success: boolean; message: string }> => {
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/home-assistant`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionData.session?.access_token}`,
-        },
-        body: JSON.stringify({
-          action: 'sync_entities',
-          instance_url: config.instance_url,
-          access_token: token,
-        }),
+      const { response, result } = await invokeHomeAssistant({
+        action: 'save_token',
+        config_id: configId,
+        access_token: token,
       });
+      if (!response.ok) {
+        return { success: false, message: result.error || 'Failed to save token' };
+      }
+
+      await fetchConfigs();
+      return { success: true, message: `Token ${result.token_hint} saved` };
+    } catch (err) {
+      console.error('Error saving HA token:', err);
+      return { success: false, message: err instanceof Error ? err.message : 'Failed to save token' };
+    }
+  };
+
+  const revokeToken = async (configId: string): Promise<boolean> => {
+    try {
+      const { response } = await invokeHomeAssistant({ action: 'revoke_token', config_id: configId });
+      if (!response.ok) return false;
+
+      await fetchConfigs();
+      return true;
+    } catch (err) {
+      console.error('Error revoking HA token:', err);
+      return false;
+    }
+  };
+
+  // areas is null when Home Assistant's registries couldn't be read; entities are synced regardless
+  const syncEntities = async (configId: string): Promise<{ success: boolean; count?: number; areas?: number | null }> => {
+    try {
+      const { response, result } = await invokeHomeAssistant({ action: 'sync_entities', config_id: configId });
 
-      const result = await response.json();
-      
       if (!response.ok) {
         throw new Error(result.error || 'Sync failed');
       }
 
-      await fetchEntities();
-      return { success: true, count: result.synced };
+      // Dispatch rule triggers for entities whose state or attributes changed since the last sync
+      const previous = new Map(entities.filter(e => e.config_id === configId).map(e => [e.entity_id, e]));
+      const synced = await fetchEntities();
+      for (const entity of synced) {
+        const before = entity.config_id === configId ? previous.get(entity.entity_id) : undefined;
+        if (!before) continue;
+        if (before.state !== entity.state
+          || JSON.stringify(before.attributes) !== JSON.stringify(entity.attributes)) {
+          emitEntityStateChange(
+            configId, entity.entity_id, before.state, entity.state, entity.attributes, before.attributes, entity.last_updated_at
+          );
+        }
+      }
+
+      await fetchConfigs();
+      return { success: true, count: result.synced, areas: result.areas };
     } catch (err) {
       console.error('Sync error:', err);
       return { success: false };
     }
   };
 
+  // changed is what Home Assistant reports the call changed; it may be empty for
+  // devices that report back later, in which case the subscriber or a sync catches up
   const callService = async (
-    token: string,
+    configId: string,
     domain: string,
     service: string,
     entityId?: string,
     data?: Record<string, unknown>
-  ): Promise<boolean> => {
-    if (!config) return false;
-
+  ): Promise<{ success: boolean; changed: HomeAssistantState[] }> => {
     try {
-      const { data: sessionData } = await supabase.auth.getSession();
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/home-assistant`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${sessionData.session?.access_token}`,
-        },
-        body: JSON.stringify({
-          action: 'call_service',
-          instance_url: config.instance_url,
-          access_token: token,
-          service_domain: domain,
-          service: service,
-          entity_id: entityId,
-          service_data: data,
-        }),
+      const { response, result } = await invokeHomeAssistant({
+        action: 'call_service',
+        config_id: configId,
+        service_domain: domain,
+        service: service,
+        entity_id: entityId,
+        service_data: data,
       });
 
-      return response.ok;
+      if (!response.ok) {
+        throw new Error(result.error || 'Service call failed');
+      }
+      return { success: true, changed: Array.isArray(result) ? result as HomeAssistantState[] : [] };
     } catch (err) {
       console.error('Service call error:', err);
+      return { success: false, changed: [] };
+    }
+  };
+
+  // Shows the expected state at once, then what Home Assistant reports; puts the entity back if the call fails
+  const controlEntity = async (
+    entity: HomeAssistantEntity,
+    service: string,
+    data?: Record<string, unknown>,
+    expected?: ExpectedEntityState
+  ): Promise<boolean> => {
+    if (expected) {
+      setEntities(prev => prev.map(e => e.id === entity.id
+        ? { ...e, state: expected.state ?? e.state, attributes: { ...e.attributes, ...expected.attributes } }
+        : e));
+    }
+
+    const domain = entity.domain || entity.entity_id.split('.')[0];
+    const { success, changed } = await callService(entity.config_id, domain, service, entity.entity_id, data);
+
+    if (!success) {
+      setEntities(prev => prev.map(e => e.id === entity.id
+        ? { ...e, state: entity.state, attributes: entity.attributes }
+        : e));
       return false;
     }
+
+    const reported = new Map(changed.map(s => [s.entity_id, s]));
+    if (reported.size) {
+      setEntities(prev => prev.map(e => {
+        const state = e.config_id === entity.config_id ? reported.get(e.entity_id) : undefined;
+        return state
+          ? { ...e, state: state.state, attributes: state.attributes, last_updated_at: state.last_updated }
+          : e;
+      }));
+    }
+    return true;
+  };
+
+  const setFavorite = async (entity: HomeAssistantEntity, isFavorite: boolean): Promise<boolean> => {
+    setEntities(prev => prev.map(e => e.id === entity.id ? { ...e, is_favorite: isFavorite } : e));
+
+    const { error: updateError } = await supabase
+      .from('home_assistant_entities')
+      .update({ is_favorite: isFavorite })
+      .eq('id', entity.id);
+
+    if (updateError) {
+      console.error('Error saving favorite:', updateError);
+      setEntities(prev => prev.map(e => e.id === entity.id ? { ...e, is_favorite: entity.is_favorite } : e));
+      return false;
+    }
+    return true;
   };
 
   const getEntitiesByDomain = (domain: string): HomeAssistantEntity[] => {
     return entities.filter(e => e.domain === domain);
   };
 
+  const getEntitiesByConfig = (configId: string): HomeAssistantEntity[] => {
+    return entities.filter(e => e.config_id === configId);
+  };
+
+  // Entities in a room, across instances
+  const getEntitiesByRoom = (roomId: string): HomeAssistantEntity[] => {
+    return entities.filter(e => e.room_id === roomId);
+  };
+
   return {
-    config,
+    configs,
     entities,
     isLoading,
     error,
-    accessToken,
-    setAccessToken,
     saveConfig,
     deleteConfig,
     testConnection,
+    saveToken,
+    revokeToken,
     syncEntities,
     callService,
+    controlEntity,
+    setFavorite,
     getEntitiesByDomain,
-    refetch: fetchConfig,
+    getEntitiesByConfig,
+    getEntitiesByRoom,
+    refetch: fetchConfigs,
   };
 }
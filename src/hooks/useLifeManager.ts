@@ -5,8 +5,12 @@ import { useGoals, Goal } from './useGoals';
 import { useTasks, Task } from './useTasks';
 import { useUserContext } from './useUserContext';
 import { useCameras } from './useCameras';
+import { useRooms } from './useRooms';
+import { useHomeAssistant } from './useHomeAssistant';
 import { useSettings } from './useSettings';
 import { useVoiceServices } from './useVoiceServices';
+import { getTimeOfDay, getLocalClock, formatLocalDateTime } from '@/lib/time';
+import { emitCameraObservation } from '@/lib/ruleEvents';
 import { toast } from 'sonner';
 
 interface Intervention {
@@ -47,21 +51,15 @@ interface LifeManagerConfig {
   onSpeaking?: (speaking: boolean) => void;
 }
 
-function getTimeOfDay(hour: number): string {
-  if (hour >= 5 && hour < 9) return 'early_morning';
-  if (hour >= 9 && hour < 12) return 'morning';
-  if (hour >= 12 && hour < 17) return 'afternoon';
-  if (hour >= 17 && hour < 21) return 'evening';
-  return 'night';
-}
-
 export function useLifeManager(config: LifeManagerConfig = {}) {
   const { user } = useAuth();
   const { goals } = useGoals();
   const { tasks, refetch: refetchTasks } = useTasks();
   const { context, updateContext } = useUserContext();
   const { cameras } = useCameras();
-  const { settings, getVoiceProviderConfig } = useSettings();
+  const { rooms } = useRooms();
+  const { entities } = useHomeAssistant();
+  const { settings, getVoiceProviderConfig, timeZone } = useSettings();
   
   // Get TTS webhook from voice provider config (handles both webhooks and conversational AIs)
   const providerConfig = getVoiceProviderConfig();
@@ -187,6 +185,21 @@ export function useLifeManager(config: LifeManagerConfig = {}) {
       const imageBase64 = await captureImage();
       
       const now = new Date();
+      const clock = getLocalClock(now, timeZone);
+
+      // Entities placed in a room, those in the user's room first
+      const roomNames = new Map(rooms.map(r => [r.id, r.name]));
+      const located = entities
+        .filter(e => e.room_id && roomNames.has(e.room_id))
+        .map(e => ({
+          entity_id: e.entity_id,
+          friendly_name: e.friendly_name,
+          state: e.state,
+          domain: e.domain,
+          room: roomNames.get(e.room_id!)!,
+        }))
+        .sort((a, b) => Number(b.room === context?.current_room) - Number(a.room === context?.current_room));
+
       const input = {
         imageBase64,
         transcript,
@@ -224,10 +237,12 @@ export function useLifeManager(config: LifeManagerConfig = {}) {
           due_date: g.due_date,
         })),
         recentObservations: recentObservationsRef.current.slice(0, 5),
+        rooms: rooms.map(r => ({ name: r.name, aliases: r.aliases })),
+        sensorData: located.length ? { entities: located.slice(0, 20) } : undefined,
         recentInterventions: recentInterventionsRef.current.slice(0, 5),
-        currentTime: now.toISOString(),
-        dayOfWeek: now.getDay(),
-        timeOfDay: getTimeOfDay(now.getHours()),
+        currentTime: formatLocalDateTime(now, timeZone),
+        dayOfWeek: clock.dayOfWeek,
+        timeOfDay: getTimeOfDay(clock.hour),
       };
 
       const { data, error: invokeError } = await supabase.functions.invoke('life-manager', {
@@ -256,6 +271,13 @@ export function useLifeManager(config: LifeManagerConfig = {}) {
           snapshot_description: intervention.observation,
         });
         recentObservationsRef.current = recentObservationsRef.current.slice(0, 20);
+
+        emitCameraObservation({
+          camera_id: cameras.find(c => c.is_active && c.http_url)?.id,
+          room: intervention.updatedRoom || context?.current_room || undefined,
+          activity_tag: intervention.updatedActivity || context?.current_activity || undefined,
+          observation: intervention.observation,
+        });
       }
 
       // Update context if AI detected room/activity
@@ -298,9 +320,9 @@ export function useLifeManager(config: LifeManagerConfig = {}) {
       setIsProcessing(false);
     }
   }, [
-    user, isProcessing, isSpeaking, context, tasks, goals, 
+    user, isProcessing, isSpeaking, context, tasks, goals, cameras, rooms, entities,
     captureImage, speak, logIntervention, updateContext, 
-    config, minInterventionGapMs
+    config, minInterventionGapMs, timeZone
   ]);
 
   // Start the life manager
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { findRoom, normalizeRoomName } from '@/lib/rooms';
+
+export interface Room {
+  id: string;
+  user_id: string;
+  name: string;
+  // Other names it answers to: its Home Assistant area's name, former names
+  aliases: string[];
+  // The Home Assistant instance and area it is, if any
+  config_id: string | null;
+  ha_area_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoomInput {
+  name: string;
+  aliases?: string[];
+}
+
+export const useRooms = () => {
+  const { user, isLoading: authLoading } = useAuth();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRooms = useCallback(async () => {
+    if (!user) {
+      setRooms([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('rooms')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setRooms(data || []);
+    } catch (err) {
+      console.error('Failed to fetch rooms:', err);
+      setError('Failed to load rooms');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) {
+      fetchRooms();
+    }
+  }, [authLoading, fetchRooms]);
+
+  const addRoom = useCallback(async (room: RoomInput): Promise<Room | null> => {
+    if (!user) {
+      setError('You must be logged in to add rooms');
+      return null;
+    }
+
+    try {
+      const { data, error: insertError } = await supabase
+        .from('rooms')
+        .insert({ ...room, name: room.name.trim(), user_id: user.id })
+        .select()
+        .single();
+
+      if (insertError) {
+        throw insertError;
+      }
+
+      setRooms(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      return data;
+    } catch (err) {
+      console.error('Failed to add room:', err);
+      setError(`Failed to add room ${room.name}`);
+      return null;
+    }
+  }, [user]);
+
+  // Renaming keeps the old name as an alias; linked tasks and cameras show the new name
+  const updateRoom = useCallback(async (id: string, updates: Partial<RoomInput>): Promise<Room | null> => {
+    if (!user) {
+      setError('You must be logged in to update rooms');
+      return null;
+    }
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('rooms')
+        .update(updates)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setRooms(prev => prev.map(r => r.id === id ? data : r).sort((a, b) => a.name.localeCompare(b.name)));
+      return data;
+    } catch (err) {
+      console.error('Failed to update room:', err);
+      setError('Failed to update room');
+      return null;
+    }
+  }, [user]);
+
+  // Tasks and cameras in the room keep its name as text, unlinked
+  const deleteRoom = useCallback(async (id: string): Promise<boolean> => {
+    if (!user) {
+      setError('You must be logged in to delete rooms');
+      return false;
+    }
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('rooms')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setRooms(prev => prev.filter(r => r.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Failed to delete room:', err);
+      setError('Failed to delete room');
+      return false;
+    }
+  }, [user]);
+
+  // The room with this name or alias
+  const getRoomByName = useCallback((name: string | null | undefined): Room | undefined => {
+    return findRoom(rooms, name);
+  }, [rooms]);
+
+  const isNameTaken = useCallback((name: string, exceptId?: string): boolean => {
+    return rooms.some(r => r.id !== exceptId && normalizeRoomName(r.name) === normalizeRoomName(name));
+  }, [rooms]);
+
+  return {
+    rooms,
+    isLoading: isLoading || authLoading,
+    error,
+    addRoom,
+    updateRoom,
+    deleteRoom,
+    getRoomByName,
+    isNameTaken,
+    refetch: fetchRooms
+  };
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { RuleExecution } from './useRules';
+import { normalizeConditionTrace } from '@/lib/ruleConditions';
+import type { RuleAnalyticsExecution } from '@/lib/ruleAnalytics';
+
+const PAGE_SIZE = 1000;
+// Stop paging after this many rows; a window this busy is summarized from its newest rows
+const MAX_EXECUTIONS = 20000;
+
+// Rule executions triggered in [from, to], for the analytics dashboard
+export function useRuleAnalytics(from: Date, to: Date) {
+  const { user } = useAuth();
+  const [executions, setExecutions] = useState<RuleAnalyticsExecution[]>([]);
+  const [isTruncated, setIsTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  const fetchExecutions = useCallback(async () => {
+    if (!user) {
+      setExecutions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const rows: RuleAnalyticsExecution[] = [];
+      for (let offset = 0; offset < MAX_EXECUTIONS; offset += PAGE_SIZE) {
+        const { data, error: fetchError } = await supabase
+          .from('rule_executions')
+          .select('rule_id, triggered_at, execution_status, conditions_evaluated, actions_executed, error_message')
+          .eq('user_id', user.id)
+          .gte('triggered_at', fromIso)
+          .lte('triggered_at', toIso)
+          .order('triggered_at', { ascending: false })
+          .range(offset, offset + PAGE_SIZE - 1);
+
+        if (fetchError) throw fetchError;
+
+        rows.push(...(data || []).map(e => ({
+          rule_id: e.rule_id,
+          triggered_at: e.triggered_at,
+          execution_status: e.execution_status as RuleExecution['execution_status'],
+          conditions_evaluated: e.conditions_evaluated ? normalizeConditionTrace(e.conditions_evaluated) : undefined,
+          actions_executed: (e.actions_executed || []) as unknown as RuleExecution['actions_executed'],
+          error_message: e.error_message ?? undefined,
+        })));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      setExecutions(rows);
+      setIsTruncated(rows.length >= MAX_EXECUTIONS);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch rule analytics:', err);
+      setError('Failed to load rule analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, fromIso, toIso]);
+
+  useEffect(() => {
+    fetchExecutions();
+  }, [fetchExecutions]);
+
+  return {
+    executions,
+    isTruncated,
+    isLoading,
+    error,
+    refetch: fetchExecutions,
+  };
+}
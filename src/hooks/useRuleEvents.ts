@@ -0,0 +1,242 @@
+import { useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { useVoiceServices } from './useVoiceServices';
+import type { Task } from './useTasks';
+import {
+  onRuleEvent,
+  emitTaskState,
+  buildEvaluationContext,
+  acknowledgeRuleExecutions,
+  RuleEvent,
+} from '@/lib/ruleEvents';
+
+export interface RuleDispatchResult {
+  ruleId: string;
+  ruleName: string;
+  executionId?: string;
+  // Set when the rule escalates unless this execution is acknowledged in time
+  escalationDueAt?: string;
+  status: string;
+  explanation?: string;
+  actions?: Array<{ type: string; success: boolean; result?: unknown; error?: string }>;
+  // Set on rules fired by another rule's signal; 1 is a direct child
+  chainDepth?: number;
+  // Set when the actions paused at a delay or wait_until step; the rest arrive via realtime
+  resumesAt?: string;
+}
+
+const OVERDUE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Listens for rule events emitted anywhere in the app, sends them to the
+ * rules-engine edge function and surfaces the notify/speak results.
+ * Mount once (see RuleEventDispatcher).
+ */
+export function useRuleEvents() {
+  const { user } = useAuth();
+  const { getVoiceProviderConfig } = useSettings();
+
+  const providerConfig = getVoiceProviderConfig();
+  const { speak } = useVoiceServices({
+    ttsWebhook: providerConfig.ttsWebhook || null,
+    sttWebhook: null,
+  });
+
+  // Events are dispatched one at a time so rule tracking updates don't interleave
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  // Every open tab gets the realtime results; only the one holding the lock surfaces them
+  const isSurfacingTabRef = useRef(false);
+
+  const acknowledge = useCallback(async (executionId: string) => {
+    if (!user) return;
+
+    try {
+      await acknowledgeRuleExecutions(user.id, executionId);
+    } catch (err) {
+      console.error('Failed to acknowledge rule execution:', err);
+      toast.error('Failed to acknowledge');
+    }
+  }, [user]);
+
+  const surfaceResults = useCallback(async (results: RuleDispatchResult[]) => {
+    for (const result of results) {
+      // Pending escalations stay on screen until acknowledged
+      const executionId = result.executionId;
+      const acknowledgeOptions = result.escalationDueAt && executionId
+        ? { action: { label: 'Acknowledge', onClick: () => acknowledge(executionId) }, duration: Infinity }
+        : {};
+      let notified = false;
+
+      for (const action of result.actions || []) {
+        if (!action.success || !action.result) continue;
+        const { message, severity } = action.result as { message?: string; severity?: string };
+        if (!message) continue;
+
+        if (action.type === 'notify') {
+          const options = { description: result.explanation || result.ruleName, ...acknowledgeOptions };
+          if (severity === 'urgent') toast.error(message, options);
+          else if (severity === 'warning') toast.warning(message, options);
+          else toast.info(message, options);
+          notified = true;
+        } else if (action.type === 'speak') {
+          await speak(message);
+        }
+      }
+
+      if (!notified && 'action' in acknowledgeOptions) {
+        toast.info(result.explanation || result.ruleName, {
+          description: 'Acknowledge to cancel the escalation',
+          ...acknowledgeOptions,
+        });
+      }
+    }
+  }, [speak, acknowledge]);
+
+  const dispatch = useCallback(async (event: RuleEvent) => {
+    if (!user) return;
+
+    try {
+      const context = await buildEvaluationContext(user.id, event.triggerData);
+      const { data, error: invokeError } = await supabase.functions.invoke('rules-engine', {
+        body: {
+          userId: user.id,
+          triggerType: event.triggerType,
+          triggerData: event.triggerData,
+          context,
+          ruleId: event.ruleId,
+          runNow: event.runNow,
+          idempotencyKey: event.idempotencyKey,
+        },
+      });
+
+      if (invokeError) throw invokeError;
+      await surfaceResults((data?.results || []) as RuleDispatchResult[]);
+    } catch (err) {
+      console.error(`Failed to dispatch ${event.triggerType} rule event:`, err);
+    }
+  }, [user, surfaceResults]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return onRuleEvent((event) => {
+      queueRef.current = queueRef.current.then(() => dispatch(event));
+    });
+  }, [user, dispatch]);
+
+  // One tab at a time holds the lock until it closes, then the next waiting tab takes over
+  useEffect(() => {
+    if (!user) return;
+    if (!navigator.locks) {
+      isSurfacingTabRef.current = true;
+      return;
+    }
+
+    const controller = new AbortController();
+    let release: (() => void) | undefined;
+    navigator.locks
+      .request(`rule-results-${user.id}`, { signal: controller.signal }, () => {
+        isSurfacingTabRef.current = true;
+        return new Promise<void>(resolve => {
+          release = resolve;
+        });
+      })
+      .catch(() => {
+        // Aborted while waiting for another tab
+      });
+
+    return () => {
+      isSurfacingTabRef.current = false;
+      controller.abort();
+      release?.();
+    };
+  }, [user]);
+
+  // Escalations are run server-side by rule-scheduler and arrive via realtime
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`rule-escalations-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'rule_executions', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const execution = payload.new as Tables<'rule_executions'>;
+          if (!execution.parent_execution_id || !isSurfacingTabRef.current) return;
+
+          queueRef.current = queueRef.current.then(() => surfaceResults([{
+            ruleId: execution.rule_id,
+            ruleName: 'Escalation',
+            executionId: execution.id,
+            status: execution.execution_status,
+            explanation: execution.explanation || undefined,
+            actions: (execution.actions_executed || []) as RuleDispatchResult['actions'],
+          }]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, surfaceResults]);
+
+  // Steps after a delay or wait_until are run by rule-scheduler; each resume ends with an update
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`rule-sequences-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'rule_sequence_runs', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const sequence = payload.new as Tables<'rule_sequence_runs'>;
+          // A claim by the scheduler, not a finished resume
+          if (sequence.status === 'running' || !sequence.last_results || !isSurfacingTabRef.current) return;
+
+          queueRef.current = queueRef.current.then(() => surfaceResults([{
+            ruleId: sequence.rule_id,
+            ruleName: 'Rule sequence',
+            executionId: sequence.execution_id,
+            status: sequence.status,
+            actions: sequence.last_results as RuleDispatchResult['actions'],
+          }]));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, surfaceResults]);
+
+  // Overdue is a function of time, not of an edit, so re-check open tasks periodically
+  useEffect(() => {
+    if (!user) return;
+
+    const checkOverdueTasks = async () => {
+      const { data, error: fetchError } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('user_id', user.id)
+        .in('status', ['pending', 'in_progress'])
+        .lt('due_at', new Date().toISOString());
+
+      if (fetchError) {
+        console.error('Failed to check overdue tasks:', fetchError);
+        return;
+      }
+      // Keyed by the due date, so every check and every open tab fires a rule for it only once
+      (data || []).forEach(task => emitTaskState(task as Task, { idempotencyKey: `overdue:${task.id}:${task.due_at}` }));
+    };
+
+    const interval = setInterval(checkOverdueTasks, OVERDUE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type RuleWebhook = Tables<'rule_webhooks'>;
+
+// Where callers POST to fire the rule (see supabase/functions/rule-webhook)
+export function getRuleWebhookUrl(webhook: Pick<RuleWebhook, 'id'>): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/rule-webhook/${webhook.id}`;
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The signed URL of a webhook-triggered rule. Created the first time the
+ * rule's webhook is looked at, so every saved webhook rule has one.
+ */
+export const useRuleWebhook = (ruleId: string | null) => {
+  const { user } = useAuth();
+  const [webhook, setWebhook] = useState<RuleWebhook | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWebhook = useCallback(async () => {
+    if (!user || !ruleId) {
+      setWebhook(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('rule_webhooks')
+        .select('*')
+        .eq('rule_id', ruleId)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+
+      if (data) {
+        setWebhook(data);
+        return;
+      }
+
+      const { data: created, error: insertError } = await supabase
+        .from('rule_webhooks')
+        .insert({ user_id: user.id, rule_id: ruleId })
+        .select()
+        .single();
+      if (insertError) throw insertError;
+      setWebhook(created);
+    } catch (err) {
+      console.error('Failed to load rule webhook:', err);
+      setError('Failed to load webhook');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, ruleId]);
+
+  useEffect(() => {
+    fetchWebhook();
+  }, [fetchWebhook]);
+
+  const updateWebhook = useCallback(async (updates: Partial<Pick<RuleWebhook, 'secret' | 'rate_limit_per_minute'>>) => {
+    if (!webhook) return false;
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('rule_webhooks')
+        .update(updates)
+        .eq('id', webhook.id)
+        .select()
+        .single();
+      if (updateError) throw updateError;
+      setWebhook(data);
+      return true;
+    } catch (err) {
+      console.error('Failed to update rule webhook:', err);
+      setError('Failed to update webhook');
+      return false;
+    }
+  }, [webhook]);
+
+  const rotateSecret = useCallback(() => updateWebhook({ secret: generateSecret() }), [updateWebhook]);
+
+  const setRateLimit = useCallback(
+    (rateLimitPerMinute: number) => updateWebhook({ rate_limit_per_minute: rateLimitPerMinute }),
+    [updateWebhook]
+  );
+
+  return {
+    webhook,
+    isLoading,
+    error,
+    rotateSecret,
+    setRateLimit,
+    refetch: fetchWebhook,
+  };
+};
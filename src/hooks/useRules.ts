@@ -1,134 +1,115 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
-import type { Json } from '@/integrations/supabase/types';
-
-export interface RuleTriggerConfig {
-  // Home Assistant
-  entity_id?: string;
-  from_state?: string;
-  to_state?: string;
-  attribute?: string;
-  attribute_value?: string;
-  // Camera
-  camera_id?: string;
-  activity_tag?: string;
-  object_detected?: string;
-  room?: string;
-  // Schedule
-  cron?: string;
-  timezone?: string;
-  // Task state
-  status?: string;
-  priority?: string;
-  overdue_minutes?: number;
-  // Goal state
-  goal_id?: string;
-  progress_below?: number;
-  days_until_due?: number;
-  // Manual
-  signal_name?: string;
-}
-
-export interface RuleCondition {
-  type: 'time_of_day' | 'day_of_week' | 'entity_state' | 'room' | 'idle_minutes' | 'task_in_progress' | 'quiet_hours';
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains' | 'in_range';
-  value: string | number | string[];
-  entity_id?: string;
-  time_window_minutes?: number;
-  negate?: boolean;
-}
+import { acknowledgeRuleExecutions, RuleEvaluationContext } from '@/lib/ruleEvents';
+import { normalizeConditionTrace } from '@/lib/ruleConditions';
+import { createRuleBundle, serializeRuleBundle, RuleBundleFormat } from '@/lib/ruleBundle';
+import { parseRuleRow, validateRuleInput } from '@/lib/ruleSchema';
+import type { Rule, RuleAction, RuleCondition, RuleConditionGroup, RuleEditor, RuleInput, BrokenRule } from '@/lib/ruleSchema';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+// Rule types come from the shared schema; re-exported here, where the app has always imported them
+export type {
+  Rule,
+  RuleInput,
+  RuleAction,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleTriggerConfig,
+  RuleEditor,
+  BrokenRule,
+} from '@/lib/ruleSchema';
+
+// Per-node evaluation trace stored in rule_executions.conditions_evaluated
+export type RuleConditionTrace =
+  | { condition: RuleCondition; result: boolean; actual_value: unknown }
+  | { group: RuleConditionGroup['group']; result: boolean; children: RuleConditionTrace[] };
 
-export interface RuleAction {
-  type: 'notify' | 'speak' | 'create_task' | 'update_task' | 'home_assistant' | 'n8n_webhook' | 'update_goal' | 'set_context';
-  config: {
-    // Notify/Speak
-    message?: string;
-    severity?: string;
-    // Create task
-    title?: string;
-    description?: string;
-    priority?: string;
-    room?: string;
-    due_in_minutes?: number;
-    // Update task
-    task_id?: string;
-    status?: string;
-    // Home Assistant
-    domain?: string;
-    service?: string;
-    entity_id?: string;
-    service_data?: Record<string, unknown>;
-    // n8n webhook
-    webhook_url?: string;
-    payload_template?: Record<string, unknown>;
-    // Update goal
-    goal_id?: string;
-    increment_value?: number;
-    // Set context
-    activity?: string;
-  };
+export interface RuleExecution {
+  id: string;
+  rule_id: string;
+  triggered_at: string;
+  trigger_data?: Record<string, unknown>;
+  conditions_evaluated?: RuleConditionTrace;
+  all_conditions_met: boolean;
+  actions_executed?: Array<{ type: RuleAction['type']; success: boolean; result?: unknown; error?: string; duration_ms?: number }>;
+  explanation?: string;
+  // running: paused at a delay or wait_until step
+  execution_status: 'success' | 'partial' | 'failed' | 'running' | 'skipped_cooldown' | 'skipped_daily_cap' | 'skipped_excluded_time' | 'skipped_excluded_room' | 'skipped_conditions' | 'skipped_loop';
+  error_message?: string;
+  // Escalation tracking
+  parent_execution_id?: string;
+  escalation_due_at?: string;
+  acknowledged_at?: string;
+  escalated_at?: string;
+  // Signal chaining: every execution one event set off shares chain_id
+  chain_id?: string;
+  caused_by_execution_id?: string;
+  chain_depth: number;
+  causal_chain?: Array<{ rule_id: string; rule_name: string; execution_id: string | null; signal_name: string }>;
+  // The rule version that produced it; missing on executions from before versioning
+  rule_version?: number;
+  created_at: string;
 }
 
-export interface Rule {
+// One stored version of a rule's definition (rule_versions)
+export interface RuleVersion {
   id: string;
-  user_id: string;
-  name: string;
-  description?: string;
-  category?: string;
-  is_enabled: boolean;
-  severity: 'info' | 'nudge' | 'warning' | 'urgent';
-  trigger_type: 'home_assistant' | 'camera' | 'schedule' | 'task_state' | 'goal_state' | 'manual';
-  trigger_config: RuleTriggerConfig;
-  conditions: RuleCondition[];
-  cooldown_minutes: number;
-  max_fires_per_day?: number;
-  actions: RuleAction[];
-  explanation_template?: string;
-  escalation_enabled: boolean;
-  escalation_after_minutes?: number;
-  escalation_action?: RuleAction;
-  excluded_rooms?: string[];
-  excluded_times?: Array<{ start: string; end: string }>;
-  last_fired_at?: string;
-  times_fired: number;
-  times_fired_today: number;
+  rule_id: string;
+  version: number;
+  edited_by: RuleEditor;
+  note?: string;
+  // Definition columns as stored on the rules row
+  snapshot: Record<string, unknown>;
+  // Changed columns against the previous version; null for the first version
+  changes: Record<string, { before: unknown; after: unknown }> | null;
   created_at: string;
-  updated_at: string;
 }
 
-export interface RuleInput {
-  name: string;
-  description?: string;
-  category?: string;
-  is_enabled?: boolean;
-  severity?: 'info' | 'nudge' | 'warning' | 'urgent';
-  trigger_type: 'home_assistant' | 'camera' | 'schedule' | 'task_state' | 'goal_state' | 'manual';
-  trigger_config: RuleTriggerConfig;
-  conditions?: RuleCondition[];
-  cooldown_minutes?: number;
-  max_fires_per_day?: number;
+// Result of a rules-engine dry run
+export interface RuleTestReport {
+  ruleId: string;
+  ruleName: string;
+  wouldFire: boolean;
+  checks: Array<{
+    check: 'enabled' | 'trigger' | 'cooldown' | 'daily_cap' | 'excluded_time' | 'excluded_room';
+    passed: boolean;
+    detail: string;
+  }>;
+  conditions: RuleConditionTrace;
+  explanation: string;
   actions: RuleAction[];
-  explanation_template?: string;
-  escalation_enabled?: boolean;
-  escalation_after_minutes?: number;
-  escalation_action?: RuleAction;
-  excluded_rooms?: string[];
-  excluded_times?: Array<{ start: string; end: string }>;
+  escalation: { after_minutes?: number; action: RuleAction } | null;
 }
 
-export interface RuleExecution {
-  id: string;
-  rule_id: string;
-  triggered_at: string;
-  trigger_data?: Record<string, unknown>;
-  conditions_evaluated?: Array<{ condition: RuleCondition; result: boolean; actual_value: unknown }>;
-  all_conditions_met: boolean;
-  actions_executed?: Array<{ action: RuleAction; success: boolean; result?: unknown; error?: string }>;
+export interface RuleBacktestEntry {
+  at: string;
+  status: 'fired' | 'skipped_cooldown' | 'skipped_daily_cap' | 'skipped_excluded_time' | 'skipped_excluded_room' | 'skipped_conditions';
+  triggerData: Record<string, unknown>;
   explanation?: string;
-  execution_status: 'success' | 'partial' | 'failed' | 'skipped_cooldown' | 'skipped_conditions';
-  error_message?: string;
-  created_at: string;
+  conditions?: RuleConditionTrace;
+}
+
+// Result of replaying a rule over recorded history (rules-engine backtest mode)
+export interface RuleBacktestReport {
+  ruleId: string;
+  ruleName: string;
+  from: string;
+  to: string;
+  timeZone: string;
+  // Recorded events replayed, and those matching the trigger_config
+  events: number;
+  matched: number;
+  fired: number;
+  skipped: Record<'cooldown' | 'daily_cap' | 'excluded_time' | 'excluded_room' | 'conditions', number>;
+  // Keyed by local date (YYYY-MM-DD)
+  firesPerDay: Record<string, number>;
+  averageFiresPerDay: number;
+  maxFiresPerDay: number;
+  timeline: RuleBacktestEntry[];
+  truncated: boolean;
+  notes: string[];
 }
 
 // Type helpers for JSON conversion
@@ -141,15 +122,59 @@ function fromJson<T>(json: Json | null, defaultValue: T): T {
   return json as unknown as T;
 }
 
+// A row just written passed validation, so failing it here is a bug rather than a broken rule
+function fromRuleRow(row: Tables<'rules'>): Rule {
+  const { rule, broken } = parseRuleRow(row);
+  if (broken) throw new Error(`Saved rule is invalid: ${broken.issues.join('; ')}`);
+  return rule;
+}
+
+function toRuleRow(rule: RuleInput, userId: string, editedBy: RuleEditor = 'user'): TablesInsert<'rules'> {
+  return {
+    user_id: userId,
+    last_edited_by: editedBy,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    is_enabled: rule.is_enabled ?? true,
+    severity: rule.severity ?? 'info',
+    trigger_type: rule.trigger_type,
+    trigger_config: toJson(rule.trigger_config),
+    conditions: toJson(rule.conditions ?? { group: 'all', conditions: [] }),
+    cooldown_minutes: rule.cooldown_minutes ?? 30,
+    max_fires_per_day: rule.max_fires_per_day,
+    actions: toJson(rule.actions),
+    explanation_template: rule.explanation_template,
+    escalation_enabled: rule.escalation_enabled ?? false,
+    escalation_after_minutes: rule.escalation_after_minutes,
+    escalation_action: rule.escalation_action ? toJson(rule.escalation_action) : null,
+    excluded_rooms: rule.excluded_rooms,
+    excluded_times: rule.excluded_times ? toJson(rule.excluded_times) : null,
+  };
+}
+
+// Rules are written through the rule-save function, which validates them again before storing
+async function saveRuleRows(
+  request: { action: 'insert'; rules: TablesInsert<'rules'>[] } | { action: 'update'; rule_id: string; changes: TablesUpdate<'rules'> }
+): Promise<Tables<'rules'>[]> {
+  const { data, error } = await supabase.functions.invoke('rule-save', { body: request });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.issues?.length ? `${data.error}: ${data.issues.join('; ')}` : data.error);
+  return data.rules ?? [data.rule];
+}
+
 export function useRules() {
   const { user, isLoading: authLoading } = useAuth();
   const [rules, setRules] = useState<Rule[]>([]);
+  // Stored rules that fail the schema; listed for the user instead of loaded
+  const [brokenRules, setBrokenRules] = useState<BrokenRule[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const fetchRules = useCallback(async () => {
     if (!user) {
       setRules([]);
+      setBrokenRules([]);
       setIsLoading(false);
       return;
     }
@@ -166,16 +191,9 @@ export function useRules() {
 
       if (fetchError) throw fetchError;
 
-      setRules((data || []).map(r => ({
-        ...r,
-        severity: r.severity as Rule['severity'],
-        trigger_type: r.trigger_type as Rule['trigger_type'],
-        trigger_config: fromJson<RuleTriggerConfig>(r.trigger_config, {}),
-        conditions: fromJson<RuleCondition[]>(r.conditions, []),
-        actions: fromJson<RuleAction[]>(r.actions, []),
-        escalation_action: r.escalation_action ? fromJson<RuleAction>(r.escalation_action, {} as RuleAction) : undefined,
-        excluded_times: r.excluded_times ? fromJson<Array<{ start: string; end: string }>>(r.excluded_times, []) : undefined,
-      })));
+      const parsed = (data || []).map(parseRuleRow);
+      setRules(parsed.flatMap(p => (p.rule ? [p.rule] : [])));
+      setBrokenRules(parsed.flatMap(p => (p.broken ? [p.broken] : [])));
     } catch (err) {
       console.error('Failed to fetch rules:', err);
       setError('Failed to load rules');
@@ -190,50 +208,23 @@ export function useRules() {
     }
   }, [authLoading, fetchRules]);
 
-  const addRule = useCallback(async (rule: RuleInput): Promise<Rule | null> => {
+  const addRule = useCallback(async (rule: RuleInput, editedBy: RuleEditor = 'user'): Promise<Rule | null> => {
     if (!user) {
       setError('You must be logged in to add rules');
       return null;
     }
 
+    const issues = validateRuleInput(rule);
+    if (issues.length) {
+      console.error('Rejected invalid rule:', issues);
+      setError(`Invalid rule: ${issues.join('; ')}`);
+      return null;
+    }
+
     try {
-      const { data, error: insertError } = await supabase
-        .from('rules')
-        .insert({
-          user_id: user.id,
-          name: rule.name,
-          description: rule.description,
-          category: rule.category,
-          is_enabled: rule.is_enabled ?? true,
-          severity: rule.severity ?? 'info',
-          trigger_type: rule.trigger_type,
-          trigger_config: toJson(rule.trigger_config),
-          conditions: toJson(rule.conditions ?? []),
-          cooldown_minutes: rule.cooldown_minutes ?? 30,
-          max_fires_per_day: rule.max_fires_per_day,
-          actions: toJson(rule.actions),
-          explanation_template: rule.explanation_template,
-          escalation_enabled: rule.escalation_enabled ?? false,
-          escalation_after_minutes: rule.escalation_after_minutes,
-          escalation_action: rule.escalation_action ? toJson(rule.escalation_action) : null,
-          excluded_rooms: rule.excluded_rooms,
-          excluded_times: rule.excluded_times ? toJson(rule.excluded_times) : null,
-        })
-        .select()
-        .single();
-
-      if (insertError) throw insertError;
-
-      const newRule: Rule = {
-        ...data,
-        severity: data.severity as Rule['severity'],
-        trigger_type: data.trigger_type as Rule['trigger_type'],
-        trigger_config: fromJson<RuleTriggerConfig>(data.trigger_config, {}),
-        conditions: fromJson<RuleCondition[]>(data.conditions, []),
-        actions: fromJson<RuleAction[]>(data.actions, []),
-        escalation_action: data.escalation_action ? fromJson<RuleAction>(data.escalation_action, {} as RuleAction) : undefined,
-        excluded_times: data.excluded_times ? fromJson<Array<{ start: string; end: string }>>(data.excluded_times, []) : undefined,
-      };
+      const [row] = await saveRuleRows({ action: 'insert', rules: [toRuleRow(rule, user.id, editedBy)] });
+
+      const newRule = fromRuleRow(row);
       setRules(prev => [newRule, ...prev]);
       return newRule;
     } catch (err) {
@@ -243,15 +234,31 @@ export function useRules() {
     }
   }, [user]);
 
-  const updateRule = useCallback(async (id: string, updates: Partial<RuleInput>): Promise<Rule | null> => {
+  // Definition changes are stored as a new version by a database trigger, credited to options.editedBy
+  const updateRule = useCallback(async (
+    id: string,
+    updates: Partial<RuleInput>,
+    options: { editedBy?: RuleEditor; note?: string } = {}
+  ): Promise<Rule | null> => {
     if (!user) {
       setError('You must be logged in to update rules');
       return null;
     }
 
+    // The stored rule already passed, so checking the changed fields is enough
+    const issues = validateRuleInput(updates, true);
+    if (issues.length) {
+      console.error('Rejected invalid rule update:', issues);
+      setError(`Invalid rule: ${issues.join('; ')}`);
+      return null;
+    }
+
     try {
-      const updateData: Record<string, unknown> = {};
-      
+      const updateData: TablesUpdate<'rules'> = {
+        last_edited_by: options.editedBy ?? 'user',
+        last_edit_note: options.note ?? null,
+      };
+
       if (updates.name !== undefined) updateData.name = updates.name;
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.category !== undefined) updateData.category = updates.category;
@@ -270,26 +277,9 @@ export function useRules() {
       if (updates.excluded_rooms !== undefined) updateData.excluded_rooms = updates.excluded_rooms;
       if (updates.excluded_times !== undefined) updateData.excluded_times = toJson(updates.excluded_times);
 
-      const { data, error: updateError } = await supabase
-        .from('rules')
-        .update(updateData)
-        .eq('id', id)
-        .eq('user_id', user.id)
-        .select()
-        .single();
-
-      if (updateError) throw updateError;
-
-      const updatedRule: Rule = {
-        ...data,
-        severity: data.severity as Rule['severity'],
-        trigger_type: data.trigger_type as Rule['trigger_type'],
-        trigger_config: fromJson<RuleTriggerConfig>(data.trigger_config, {}),
-        conditions: fromJson<RuleCondition[]>(data.conditions, []),
-        actions: fromJson<RuleAction[]>(data.actions, []),
-        escalation_action: data.escalation_action ? fromJson<RuleAction>(data.escalation_action, {} as RuleAction) : undefined,
-        excluded_times: data.excluded_times ? fromJson<Array<{ start: string; end: string }>>(data.excluded_times, []) : undefined,
-      };
+      const [row] = await saveRuleRows({ action: 'update', rule_id: id, changes: updateData });
+
+      const updatedRule = fromRuleRow(row);
       setRules(prev => prev.map(r => r.id === id ? updatedRule : r));
       return updatedRule;
     } catch (err) {
@@ -299,6 +289,48 @@ export function useRules() {
     }
   }, [user]);
 
+  // Insert rules from an import in one go; references must already be remapped
+  const importRules = useCallback(async (imported: RuleInput[]): Promise<Rule[] | null> => {
+    if (!user) {
+      setError('You must be logged in to import rules');
+      return null;
+    }
+
+    const issues = imported.flatMap(rule => validateRuleInput(rule).map(issue => `${rule.name}: ${issue}`));
+    if (issues.length) {
+      console.error('Rejected invalid rules:', issues);
+      setError(`Invalid rules: ${issues.join('; ')}`);
+      return null;
+    }
+
+    try {
+      const rows = await saveRuleRows({
+        action: 'insert',
+        rules: imported.map(rule => ({ ...toRuleRow(rule, user.id), last_edit_note: 'Imported' })),
+      });
+
+      const newRules = rows.map(fromRuleRow);
+      setRules(prev => [...newRules, ...prev]);
+      return newRules;
+    } catch (err) {
+      console.error('Failed to import rules:', err);
+      setError('Failed to import rules');
+      return null;
+    }
+  }, [user]);
+
+  // One rule, a category, or everything, as a versioned bundle
+  const exportRules = useCallback((
+    scope: { ruleId?: string; category?: string },
+    format: RuleBundleFormat
+  ): string => {
+    const selected = rules.filter(r =>
+      (!scope.ruleId || r.id === scope.ruleId)
+      && (!scope.category || (r.category || 'custom') === scope.category)
+    );
+    return serializeRuleBundle(createRuleBundle(selected), format);
+  }, [rules]);
+
   const deleteRule = useCallback(async (id: string): Promise<boolean> => {
     if (!user) {
       setError('You must be logged in to delete rules');
@@ -315,6 +347,7 @@ export function useRules() {
       if (deleteError) throw deleteError;
 
       setRules(prev => prev.filter(r => r.id !== id));
+      setBrokenRules(prev => prev.filter(r => r.id !== id));
       return true;
     } catch (err) {
       console.error('Failed to delete rule:', err);
@@ -347,8 +380,9 @@ export function useRules() {
         ...e,
         execution_status: e.execution_status as RuleExecution['execution_status'],
         trigger_data: fromJson<Record<string, unknown>>(e.trigger_data, {}),
-        conditions_evaluated: fromJson<RuleExecution['conditions_evaluated']>(e.conditions_evaluated, []),
+        conditions_evaluated: normalizeConditionTrace(e.conditions_evaluated),
         actions_executed: fromJson<RuleExecution['actions_executed']>(e.actions_executed, []),
+        causal_chain: fromJson<RuleExecution['causal_chain']>(e.causal_chain, undefined),
       }));
     } catch (err) {
       console.error('Failed to fetch rule executions:', err);
@@ -356,6 +390,141 @@ export function useRules() {
     }
   }, [user]);
 
+  // Newest first
+  const getRuleVersions = useCallback(async (ruleId: string): Promise<RuleVersion[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('rule_versions')
+        .select('*')
+        .eq('rule_id', ruleId)
+        .eq('user_id', user.id)
+        .order('version', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      return (data || []).map(v => ({
+        ...v,
+        edited_by: v.edited_by as RuleEditor,
+        note: v.note ?? undefined,
+        snapshot: fromJson<Record<string, unknown>>(v.snapshot, {}),
+        changes: fromJson<RuleVersion['changes']>(v.changes, null),
+      }));
+    } catch (err) {
+      console.error('Failed to fetch rule versions:', err);
+      return [];
+    }
+  }, [user]);
+
+  // Restore an earlier version's definition; the restore is itself stored as a new version
+  const rollbackRule = useCallback(async (ruleId: string, version: RuleVersion): Promise<Rule | null> => {
+    if (!user) {
+      setError('You must be logged in to roll back rules');
+      return null;
+    }
+
+    // Versions saved before a schema change may no longer pass it
+    const issues = validateRuleInput(version.snapshot);
+    if (issues.length) {
+      console.error('Rejected invalid rule version:', issues);
+      setError(`Version ${version.version} is not a valid rule: ${issues.join('; ')}`);
+      return null;
+    }
+
+    try {
+      const [row] = await saveRuleRows({
+        action: 'update',
+        rule_id: ruleId,
+        changes: {
+          ...(version.snapshot as TablesUpdate<'rules'>),
+          last_edited_by: 'user',
+          last_edit_note: `Rolled back to version ${version.version}`,
+        },
+      });
+
+      const restored = fromRuleRow(row);
+      setRules(prev => prev.map(r => r.id === ruleId ? restored : r));
+      return restored;
+    } catch (err) {
+      console.error('Failed to roll back rule:', err);
+      setError('Failed to roll back rule');
+      return null;
+    }
+  }, [user]);
+
+  // Acknowledge one execution (or all pending ones) so it won't escalate
+  const acknowledgeEscalations = useCallback(async (executionId?: string): Promise<number> => {
+    if (!user) return 0;
+
+    try {
+      return await acknowledgeRuleExecutions(user.id, executionId);
+    } catch (err) {
+      console.error('Failed to acknowledge rule executions:', err);
+      setError('Failed to acknowledge rule executions');
+      return 0;
+    }
+  }, [user]);
+
+  // Dry run a saved rule or unsaved edits against a (possibly hand-edited) context
+  const testRule = useCallback(async (
+    rule: RuleInput & Partial<Rule>,
+    triggerData: Record<string, unknown>,
+    context: RuleEvaluationContext
+  ): Promise<RuleTestReport | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('rules-engine', {
+        body: {
+          userId: user.id,
+          triggerType: rule.trigger_type,
+          triggerData,
+          context: { ...context, triggerData },
+          dryRun: true,
+          rule,
+        },
+      });
+
+      if (invokeError) throw invokeError;
+      return data as RuleTestReport;
+    } catch (err) {
+      console.error('Failed to test rule:', err);
+      setError('Failed to test rule');
+      return null;
+    }
+  }, [user]);
+
+  const backtestRule = useCallback(async (
+    rule: RuleInput & Partial<Rule>,
+    from: Date,
+    to: Date
+  ): Promise<RuleBacktestReport | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke('rules-engine', {
+        body: {
+          userId: user.id,
+          triggerType: rule.trigger_type,
+          rule,
+          backtest: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
+        },
+      });
+
+      if (invokeError) throw invokeError;
+      return data as RuleBacktestReport;
+    } catch (err) {
+      console.error('Failed to backtest rule:', err);
+      setError('Failed to backtest rule');
+      return null;
+    }
+  }, [user]);
+
   const getEnabledRules = useCallback((): Rule[] => {
     return rules.filter(r => r.is_enabled);
   }, [rules]);
@@ -370,6 +539,7 @@ export function useRules() {
 
   return {
     rules,
+    brokenRules,
     isLoading: isLoading || authLoading,
     error,
     addRule,
@@ -377,6 +547,13 @@ export function useRules() {
     deleteRule,
     toggleRule,
     getRecentExecutions,
+    getRuleVersions,
+    rollbackRule,
+    acknowledgeEscalations,
+    testRule,
+    backtestRule,
+    importRules,
+    exportRules,
     getEnabledRules,
     getRulesByTrigger,
     getRulesByCategory,
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import type { Json } from '@/integrations/supabase/types';
+import { getBrowserTimeZone, resolveTimeZone } from '@/lib/time';
 
 export type WebhookType = 'elevenlabs' | 'chatterbox' | 'chatterbox-local' | 'openai' | 'custom';
 export type ConversationalAIType = 'gemini' | 'chatgpt' | 'claude' | 'custom';
@@ -91,6 +92,8 @@ function migrateConversationalAIs(settings: any): ConversationalAISettings[] {
 export const useSettings = () => {
   const { user, isLoading: authLoading } = useAuth();
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // user_settings.timezone; daily counters, time conditions and due dates follow it
+  const [timeZone, setTimeZone] = useState<string>(getBrowserTimeZone);
   const [isLoading, setIsLoading] = useState(true);
 
   // Load settings from database or localStorage
@@ -103,7 +106,7 @@ export const useSettings = () => {
         try {
           const { data, error } = await supabase
             .from('user_settings')
-            .select('settings')
+            .select('settings, timezone')
             .eq('user_id', user.id)
             .maybeSingle();
           
@@ -122,6 +125,16 @@ export const useSettings = () => {
             };
             setSettings(mergedSettings);
             console.log('Settings loaded from database (merged):', mergedSettings);
+
+            if (data.timezone) {
+              setTimeZone(resolveTimeZone(data.timezone));
+            } else {
+              // Never set: adopt this browser's timezone so the server stops using UTC
+              await supabase
+                .from('user_settings')
+                .update({ timezone: getBrowserTimeZone() })
+                .eq('user_id', user.id);
+            }
           } else {
             // No settings in database, check localStorage for migration
             const localSettings = loadFromLocalStorage();
@@ -184,7 +197,11 @@ export const useSettings = () => {
       } else {
         const { error } = await supabase
           .from('user_settings')
-          .insert([{ user_id: user.id, settings: JSON.parse(JSON.stringify(newSettings)) as Json }]);
+          .insert([{
+            user_id: user.id,
+            settings: JSON.parse(JSON.stringify(newSettings)) as Json,
+            timezone: getBrowserTimeZone(),
+          }]);
         if (error) throw error;
       }
       return true;
@@ -319,6 +336,36 @@ export const useSettings = () => {
     });
   }, [user]);
 
+  // Set the timezone used for the user's days and times
+  const updateTimeZone = useCallback(async (newTimeZone: string): Promise<boolean> => {
+    setTimeZone(newTimeZone);
+    if (!user) return false;
+
+    try {
+      const { data: updated, error } = await supabase
+        .from('user_settings')
+        .update({ timezone: newTimeZone })
+        .eq('user_id', user.id)
+        .select('id');
+      if (error) throw error;
+
+      if (!updated?.length) {
+        const { error: insertError } = await supabase
+          .from('user_settings')
+          .insert([{
+            user_id: user.id,
+            settings: JSON.parse(JSON.stringify(settings)) as Json,
+            timezone: newTimeZone,
+          }]);
+        if (insertError) throw insertError;
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving timezone:', error);
+      return false;
+    }
+  }, [user, settings]);
+
   // Get conversational AI by ID
   const getConversationalAIById = useCallback((id: string): ConversationalAISettings | undefined => {
     return settings.conversationalAIs.find(ai => ai.id === id);
@@ -397,6 +444,9 @@ export const useSettings = () => {
     clearAllSettings,
     saveSettings,
     updateVoiceSettings,
+    // Timezone
+    timeZone,
+    updateTimeZone,
     // Conversational AI management
     getConversationalAIById,
     saveConversationalAI,
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { emitTaskState } from '@/lib/ruleEvents';
+import { normalizeRoomName } from '@/lib/rooms';
 
 export interface Task {
   id: string;
@@ -14,6 +16,8 @@ export interface Task {
   completed_at?: string;
   estimated_minutes?: number;
   room?: string;
+  // The rooms row this task is in; kept in sync with room by trigger
+  room_id?: string;
   requires_location: boolean;
   is_recurring: boolean;
   recurrence_rule?: string;
@@ -34,6 +38,7 @@ export interface TaskInput {
   completed_at?: string;
   estimated_minutes?: number;
   room?: string;
+  room_id?: string;
   requires_location?: boolean;
   is_recurring?: boolean;
   recurrence_rule?: string;
@@ -114,6 +119,7 @@ export function useTasks() {
         priority: data.priority as Task['priority'],
       };
       setTasks(prev => [newTask, ...prev]);
+      emitTaskState(newTask);
       return newTask;
     } catch (err) {
       console.error('Failed to add task:', err);
@@ -145,6 +151,7 @@ export function useTasks() {
         priority: data.priority as Task['priority'],
       };
       setTasks(prev => prev.map(t => t.id === id ? updatedTask : t));
+      emitTaskState(updatedTask);
       return updatedTask;
     } catch (err) {
       console.error('Failed to update task:', err);
@@ -208,8 +215,10 @@ export function useTasks() {
     );
   }, [tasks]);
 
-  const getTasksByRoom = useCallback((room: string): Task[] => {
-    return tasks.filter(t => t.room?.toLowerCase() === room.toLowerCase());
+  // Tasks linked to the room, or naming it however it's spelled
+  const getTasksByRoom = useCallback((room: string, roomId?: string): Task[] => {
+    return tasks.filter(t => (roomId && t.room_id === roomId)
+      || (!!t.room && normalizeRoomName(t.room) === normalizeRoomName(room)));
   }, [tasks]);
 
   return {
@@ -0,0 +1,57 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { RuleInput } from './useRules';
+import { buildEvaluationContext, sampleTriggerData } from '@/lib/ruleEvents';
+import { buildTemplateScope, TemplateScopeInput } from '@/lib/ruleTemplate';
+
+// Template variables for the rule editor's live preview: the live context plus a sample event
+// for the rule's trigger. Reloaded when the trigger changes.
+export function useTemplatePreviewScope(rule: RuleInput, enabled: boolean) {
+  const { user } = useAuth();
+  const [loaded, setLoaded] = useState<Omit<TemplateScopeInput, 'rule'> | null>(null);
+
+  // Only the trigger decides which sample event and task/goal rows are used
+  const triggerKey = JSON.stringify([rule.trigger_type, rule.trigger_config]);
+  const trigger = useMemo(() => {
+    const [trigger_type, trigger_config] = JSON.parse(triggerKey) as [RuleInput['trigger_type'], RuleInput['trigger_config']];
+    return { trigger_type, trigger_config };
+  }, [triggerKey]);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const triggerData = sampleTriggerData(trigger);
+        const context = await buildEvaluationContext(user.id, triggerData);
+        const goalId = trigger.trigger_config.goal_id;
+
+        const [{ data: task }, { data: goal }] = await Promise.all([
+          context.activeTaskId
+            ? supabase.from('tasks').select('*').eq('id', context.activeTaskId).maybeSingle()
+            : Promise.resolve({ data: null }),
+          goalId
+            ? supabase.from('goals').select('*').eq('id', goalId).maybeSingle()
+            : Promise.resolve({ data: null }),
+        ]);
+
+        if (!cancelled) setLoaded({ context, triggerData, task, goal });
+      } catch (err) {
+        console.error('Failed to load template preview context:', err);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, enabled, trigger]);
+
+  const { name, severity, category } = rule;
+  return useMemo(
+    () => (loaded ? buildTemplateScope({ ...loaded, rule: { name, severity, category } }) : null),
+    [loaded, name, severity, category]
+  );
+}
@@ -22,6 +22,9 @@ interface UnifiedVoiceConfig {
     getRules?: () => string;
     getCameras?: () => string;
     getUserStatus?: () => string;
+    acknowledgeAlerts?: () => Promise<string>;
+    emitSignal?: (signalName: string) => string;
+    runRule?: (ruleName: string) => string;
   };
 }
 
@@ -112,6 +115,21 @@ Use this context to provide relevant, personalized assistance. Reference specifi
         const result = config.clientTools?.getUserStatus?.() || 'Status unknown';
         return result;
       },
+      acknowledge_alerts: async () => {
+        console.log('[UnifiedVoice] ElevenLabs calling acknowledge_alerts');
+        const result = await config.clientTools?.acknowledgeAlerts?.() || 'Nothing to acknowledge';
+        return result;
+      },
+      emit_signal: async ({ signal_name }: { signal_name: string }) => {
+        console.log('[UnifiedVoice] ElevenLabs calling emit_signal:', signal_name);
+        const result = config.clientTools?.emitSignal?.(signal_name) || 'Signals are not available';
+        return result;
+      },
+      run_rule: async ({ rule_name }: { rule_name: string }) => {
+        console.log('[UnifiedVoice] ElevenLabs calling run_rule:', rule_name);
+        const result = config.clientTools?.runRule?.(rule_name) || 'Rules are not available';
+        return result;
+      },
       get_full_context: async () => {
         console.log('[UnifiedVoice] ElevenLabs calling get_full_context');
         const result = config.getAppContext?.() || 'No context available';
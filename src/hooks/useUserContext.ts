@@ -1,11 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { getLocalDate } from '@/lib/time';
+
+// How often to check whether the user's day has rolled over
+const ROLLOVER_CHECK_INTERVAL_MS = 60 * 1000;
 
 export interface UserContext {
   id: string;
   user_id: string;
   current_room?: string;
+  // The room current_room names, when it is a known room
+  current_room_id?: string;
   room_entered_at?: string;
   current_activity?: string;
   activity_started_at?: string;
@@ -19,11 +26,14 @@ export interface UserContext {
   productive_minutes_today: number;
   idle_minutes_today: number;
   tasks_completed_today: number;
+  // The user's local day (YYYY-MM-DD) the *_today counters belong to
+  stats_date?: string;
   updated_at: string;
 }
 
 export interface UserContextUpdate {
   current_room?: string;
+  current_room_id?: string;
   room_entered_at?: string;
   current_activity?: string;
   activity_started_at?: string;
@@ -37,10 +47,12 @@ export interface UserContextUpdate {
   productive_minutes_today?: number;
   idle_minutes_today?: number;
   tasks_completed_today?: number;
+  stats_date?: string;
 }
 
 export function useUserContext() {
   const { user, isLoading: authLoading } = useAuth();
+  const { timeZone, isLoading: settingsLoading } = useSettings();
   const [context, setContext] = useState<UserContext | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -78,6 +90,7 @@ export function useUserContext() {
             productive_minutes_today: 0,
             idle_minutes_today: 0,
             tasks_completed_today: 0,
+            stats_date: getLocalDate(new Date(), timeZone),
           })
           .select()
           .single();
@@ -91,7 +104,7 @@ export function useUserContext() {
     } finally {
       setIsLoading(false);
     }
-  }, [user]);
+  }, [user, timeZone]);
 
   useEffect(() => {
     if (!authLoading) {
@@ -162,8 +175,28 @@ export function useUserContext() {
       productive_minutes_today: 0,
       idle_minutes_today: 0,
       tasks_completed_today: 0,
+      stats_date: getLocalDate(new Date(), timeZone),
     });
-  }, [updateContext]);
+  }, [updateContext, timeZone]);
+
+  // The *_today counters start over at the user's midnight, not UTC's
+  useEffect(() => {
+    if (!context || settingsLoading) return;
+
+    const rollOver = () => {
+      const today = getLocalDate(new Date(), timeZone);
+      if (!context.stats_date) {
+        // Counters from before days were tracked are taken to be today's
+        updateContext({ stats_date: today });
+      } else if (context.stats_date < today) {
+        resetDailyStats();
+      }
+    };
+
+    rollOver();
+    const interval = setInterval(rollOver, ROLLOVER_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [context, timeZone, settingsLoading, updateContext, resetDailyStats]);
 
   return {
     context,
@@ -143,6 +143,7 @@ export type Database = {
           password: string | null
           port: number | null
           room: string | null
+          room_id: string | null
           rtsp_url: string | null
           updated_at: string | null
           user_id: string
@@ -160,6 +161,7 @@ export type Database = {
           password?: string | null
           port?: number | null
           room?: string | null
+          room_id?: string | null
           rtsp_url?: string | null
           updated_at?: string | null
           user_id: string
@@ -177,12 +179,21 @@ export type Database = {
           password?: string | null
           port?: number | null
           room?: string | null
+          room_id?: string | null
           rtsp_url?: string | null
           updated_at?: string | null
           user_id?: string
           username?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cameras_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       goal_logs: {
         Row: {
@@ -294,7 +305,12 @@ export type Database = {
           instance_url: string
           is_active: boolean | null
           last_connected_at: string | null
+          last_event_at: string | null
           name: string
+          subscriber_connected_at: string | null
+          subscriber_seen_at: string | null
+          token_hint: string | null
+          token_updated_at: string | null
           updated_at: string
           user_id: string
         }
@@ -304,7 +320,12 @@ export type Database = {
           instance_url: string
           is_active?: boolean | null
           last_connected_at?: string | null
+          last_event_at?: string | null
           name?: string
+          subscriber_connected_at?: string | null
+          subscriber_seen_at?: string | null
+          token_hint?: string | null
+          token_updated_at?: string | null
           updated_at?: string
           user_id: string
         }
@@ -314,50 +335,143 @@ export type Database = {
           instance_url?: string
           is_active?: boolean | null
           last_connected_at?: string | null
+          last_event_at?: string | null
           name?: string
+          subscriber_connected_at?: string | null
+          subscriber_seen_at?: string | null
+          token_hint?: string | null
+          token_updated_at?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      home_assistant_devices: {
+        Row: {
+          area_id: string | null
+          config_id: string
+          created_at: string
+          device_id: string
+          id: string
+          manufacturer: string | null
+          model: string | null
+          name: string | null
+          room_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          area_id?: string | null
+          config_id: string
+          created_at?: string
+          device_id: string
+          id?: string
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          room_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          area_id?: string | null
+          config_id?: string
+          created_at?: string
+          device_id?: string
+          id?: string
+          manufacturer?: string | null
+          model?: string | null
+          name?: string | null
+          room_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_assistant_devices_config_id_fkey"
+            columns: ["config_id"]
+            isOneToOne: false
+            referencedRelation: "home_assistant_config"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "home_assistant_devices_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       home_assistant_entities: {
         Row: {
+          area_id: string | null
           attributes: Json | null
+          config_id: string
           created_at: string
+          device_id: string | null
           domain: string | null
           entity_id: string
           friendly_name: string | null
           id: string
+          is_favorite: boolean
           last_updated_at: string | null
+          room_id: string | null
           state: string | null
           user_id: string
         }
         Insert: {
+          area_id?: string | null
           attributes?: Json | null
+          config_id: string
           created_at?: string
+          device_id?: string | null
           domain?: string | null
           entity_id: string
           friendly_name?: string | null
           id?: string
+          is_favorite?: boolean
           last_updated_at?: string | null
+          room_id?: string | null
           state?: string | null
           user_id: string
         }
         Update: {
+          area_id?: string | null
           attributes?: Json | null
+          config_id?: string
           created_at?: string
+          device_id?: string | null
           domain?: string | null
           entity_id?: string
           friendly_name?: string | null
           id?: string
+          is_favorite?: boolean
           last_updated_at?: string | null
+          room_id?: string | null
           state?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "home_assistant_entities_config_id_fkey"
+            columns: ["config_id"]
+            isOneToOne: false
+            referencedRelation: "home_assistant_config"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "home_assistant_entities_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       home_assistant_events: {
         Row: {
+          config_id: string
           entity_id: string
           event_type: string | null
           id: string
@@ -368,6 +482,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          config_id: string
           entity_id: string
           event_type?: string | null
           id?: string
@@ -378,6 +493,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          config_id?: string
           entity_id?: string
           event_type?: string | null
           id?: string
@@ -387,7 +503,53 @@ export type Database = {
           old_state?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "home_assistant_events_config_id_fkey"
+            columns: ["config_id"]
+            isOneToOne: false
+            referencedRelation: "home_assistant_config"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      home_assistant_tokens: {
+        Row: {
+          ciphertext: string
+          config_id: string
+          created_at: string
+          id: string
+          iv: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ciphertext: string
+          config_id: string
+          created_at?: string
+          id?: string
+          iv: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ciphertext?: string
+          config_id?: string
+          created_at?: string
+          id?: string
+          iv?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "home_assistant_tokens_config_id_fkey"
+            columns: ["config_id"]
+            isOneToOne: true
+            referencedRelation: "home_assistant_config"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       interventions: {
         Row: {
@@ -497,50 +659,135 @@ export type Database = {
         }
         Relationships: []
       }
+      rooms: {
+        Row: {
+          aliases: string[]
+          config_id: string | null
+          created_at: string
+          ha_area_id: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          config_id?: string | null
+          created_at?: string
+          ha_area_id?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          config_id?: string | null
+          created_at?: string
+          ha_area_id?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rooms_config_id_fkey"
+            columns: ["config_id"]
+            isOneToOne: false
+            referencedRelation: "home_assistant_config"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rule_executions: {
         Row: {
+          acknowledged_at: string | null
           actions_executed: Json | null
           all_conditions_met: boolean
+          caused_by_execution_id: string | null
+          causal_chain: Json | null
+          chain_depth: number
+          chain_id: string | null
           conditions_evaluated: Json | null
           created_at: string
           error_message: string | null
+          escalated_at: string | null
+          escalation_attempts: number
+          escalation_due_at: string | null
           execution_status: string
           explanation: string | null
           id: string
+          parent_execution_id: string | null
           rule_id: string
+          rule_version: number | null
           trigger_data: Json | null
           triggered_at: string
           user_id: string
         }
         Insert: {
+          acknowledged_at?: string | null
           actions_executed?: Json | null
           all_conditions_met: boolean
+          caused_by_execution_id?: string | null
+          causal_chain?: Json | null
+          chain_depth?: number
+          chain_id?: string | null
           conditions_evaluated?: Json | null
           created_at?: string
           error_message?: string | null
+          escalated_at?: string | null
+          escalation_attempts?: number
+          escalation_due_at?: string | null
           execution_status?: string
           explanation?: string | null
           id?: string
+          parent_execution_id?: string | null
           rule_id: string
+          rule_version?: number | null
           trigger_data?: Json | null
           triggered_at?: string
           user_id: string
         }
         Update: {
+          acknowledged_at?: string | null
           actions_executed?: Json | null
           all_conditions_met?: boolean
+          caused_by_execution_id?: string | null
+          causal_chain?: Json | null
+          chain_depth?: number
+          chain_id?: string | null
           conditions_evaluated?: Json | null
           created_at?: string
           error_message?: string | null
+          escalated_at?: string | null
+          escalation_attempts?: number
+          escalation_due_at?: string | null
           execution_status?: string
           explanation?: string | null
           id?: string
+          parent_execution_id?: string | null
           rule_id?: string
+          rule_version?: number | null
           trigger_data?: Json | null
           triggered_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "rule_executions_caused_by_execution_id_fkey"
+            columns: ["caused_by_execution_id"]
+            isOneToOne: false
+            referencedRelation: "rule_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_executions_parent_execution_id_fkey"
+            columns: ["parent_execution_id"]
+            isOneToOne: false
+            referencedRelation: "rule_executions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "rule_executions_rule_id_fkey"
             columns: ["rule_id"]
@@ -548,6 +795,265 @@ export type Database = {
             referencedRelation: "rules"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "rule_executions_rule_id_rule_version_fkey"
+            columns: ["rule_id", "rule_version"]
+            isOneToOne: false
+            referencedRelation: "rule_versions"
+            referencedColumns: ["rule_id", "version"]
+          },
+        ]
+      }
+      rule_fire_claims: {
+        Row: {
+          created_at: string
+          execution_id: string | null
+          id: string
+          idempotency_key: string
+          rule_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          execution_id?: string | null
+          id?: string
+          idempotency_key: string
+          rule_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          execution_id?: string | null
+          id?: string
+          idempotency_key?: string
+          rule_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_fire_claims_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "rule_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_fire_claims_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_schedule_runs: {
+        Row: {
+          attempts: number
+          created_at: string
+          engine_status: string | null
+          error_message: string | null
+          fired_at: string
+          id: string
+          is_catch_up: boolean
+          rule_id: string
+          scheduled_for: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          engine_status?: string | null
+          error_message?: string | null
+          fired_at?: string
+          id?: string
+          is_catch_up?: boolean
+          rule_id: string
+          scheduled_for: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          engine_status?: string | null
+          error_message?: string | null
+          fired_at?: string
+          id?: string
+          is_catch_up?: boolean
+          rule_id?: string
+          scheduled_for?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_schedule_runs_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_sequence_runs: {
+        Row: {
+          claimed_at: string | null
+          created_at: string
+          execution_id: string
+          id: string
+          last_results: Json | null
+          resume_at: string
+          resume_attempts: number
+          rule_id: string
+          status: string
+          step_index: number
+          steps: Json
+          trigger_data: Json | null
+          trigger_type: string
+          updated_at: string
+          user_id: string
+          wait_deadline: string | null
+        }
+        Insert: {
+          claimed_at?: string | null
+          created_at?: string
+          execution_id: string
+          id?: string
+          last_results?: Json | null
+          resume_at: string
+          resume_attempts?: number
+          rule_id: string
+          status?: string
+          step_index?: number
+          steps: Json
+          trigger_data?: Json | null
+          trigger_type: string
+          updated_at?: string
+          user_id: string
+          wait_deadline?: string | null
+        }
+        Update: {
+          claimed_at?: string | null
+          created_at?: string
+          execution_id?: string
+          id?: string
+          last_results?: Json | null
+          resume_at?: string
+          resume_attempts?: number
+          rule_id?: string
+          status?: string
+          step_index?: number
+          steps?: Json
+          trigger_data?: Json | null
+          trigger_type?: string
+          updated_at?: string
+          user_id?: string
+          wait_deadline?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_sequence_runs_execution_id_fkey"
+            columns: ["execution_id"]
+            isOneToOne: false
+            referencedRelation: "rule_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rule_sequence_runs_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_versions: {
+        Row: {
+          changes: Json | null
+          created_at: string
+          edited_by: string
+          id: string
+          note: string | null
+          rule_id: string
+          snapshot: Json
+          user_id: string
+          version: number
+        }
+        Insert: {
+          changes?: Json | null
+          created_at?: string
+          edited_by?: string
+          id?: string
+          note?: string | null
+          rule_id: string
+          snapshot: Json
+          user_id: string
+          version: number
+        }
+        Update: {
+          changes?: Json | null
+          created_at?: string
+          edited_by?: string
+          id?: string
+          note?: string | null
+          rule_id?: string
+          snapshot?: Json
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_versions_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rule_webhooks: {
+        Row: {
+          created_at: string
+          id: string
+          last_received_at: string | null
+          last_status: string | null
+          rate_limit_per_minute: number
+          rule_id: string
+          secret: string
+          user_id: string
+          window_count: number
+          window_started_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_received_at?: string | null
+          last_status?: string | null
+          rate_limit_per_minute?: number
+          rule_id: string
+          secret?: string
+          user_id: string
+          window_count?: number
+          window_started_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_received_at?: string | null
+          last_status?: string | null
+          rate_limit_per_minute?: number
+          rule_id?: string
+          secret?: string
+          user_id?: string
+          window_count?: number
+          window_started_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rule_webhooks_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: true
+            referencedRelation: "rules"
+            referencedColumns: ["id"]
+          },
         ]
       }
       rules: {
@@ -566,10 +1072,13 @@ export type Database = {
           explanation_template: string | null
           id: string
           is_enabled: boolean | null
+          last_edit_note: string | null
+          last_edited_by: string
           last_fired_at: string | null
           last_reset_date: string | null
           max_fires_per_day: number | null
           name: string
+          schedule_cursor: string | null
           severity: string | null
           times_fired: number | null
           times_fired_today: number | null
@@ -577,6 +1086,7 @@ export type Database = {
           trigger_type: string
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
           actions?: Json
@@ -593,10 +1103,13 @@ export type Database = {
           explanation_template?: string | null
           id?: string
           is_enabled?: boolean | null
+          last_edit_note?: string | null
+          last_edited_by?: string
           last_fired_at?: string | null
           last_reset_date?: string | null
           max_fires_per_day?: number | null
           name: string
+          schedule_cursor?: string | null
           severity?: string | null
           times_fired?: number | null
           times_fired_today?: number | null
@@ -604,6 +1117,7 @@ export type Database = {
           trigger_type: string
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
           actions?: Json
@@ -620,10 +1134,13 @@ export type Database = {
           explanation_template?: string | null
           id?: string
           is_enabled?: boolean | null
+          last_edit_note?: string | null
+          last_edited_by?: string
           last_fired_at?: string | null
           last_reset_date?: string | null
           max_fires_per_day?: number | null
           name?: string
+          schedule_cursor?: string | null
           severity?: string | null
           times_fired?: number | null
           times_fired_today?: number | null
@@ -631,6 +1148,7 @@ export type Database = {
           trigger_type?: string
           updated_at?: string
           user_id?: string
+          version?: number
         }
         Relationships: []
       }
@@ -649,6 +1167,7 @@ export type Database = {
           recurrence_rule: string | null
           requires_location: boolean | null
           room: string | null
+          room_id: string | null
           started_at: string | null
           status: string
           times_reminded: number | null
@@ -670,6 +1189,7 @@ export type Database = {
           recurrence_rule?: string | null
           requires_location?: boolean | null
           room?: string | null
+          room_id?: string | null
           started_at?: string | null
           status?: string
           times_reminded?: number | null
@@ -691,6 +1211,7 @@ export type Database = {
           recurrence_rule?: string | null
           requires_location?: boolean | null
           room?: string | null
+          room_id?: string | null
           started_at?: string | null
           status?: string
           times_reminded?: number | null
@@ -698,7 +1219,15 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tasks_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_context: {
         Row: {
@@ -706,6 +1235,7 @@ export type Database = {
           activity_started_at: string | null
           current_activity: string | null
           current_room: string | null
+          current_room_id: string | null
           id: string
           idle_minutes: number | null
           idle_minutes_today: number | null
@@ -715,6 +1245,7 @@ export type Database = {
           productive_minutes_today: number | null
           room_entered_at: string | null
           session_started_at: string | null
+          stats_date: string | null
           task_started_at: string | null
           tasks_completed_today: number | null
           updated_at: string
@@ -725,6 +1256,7 @@ export type Database = {
           activity_started_at?: string | null
           current_activity?: string | null
           current_room?: string | null
+          current_room_id?: string | null
           id?: string
           idle_minutes?: number | null
           idle_minutes_today?: number | null
@@ -734,6 +1266,7 @@ export type Database = {
           productive_minutes_today?: number | null
           room_entered_at?: string | null
           session_started_at?: string | null
+          stats_date?: string | null
           task_started_at?: string | null
           tasks_completed_today?: number | null
           updated_at?: string
@@ -744,6 +1277,7 @@ export type Database = {
           activity_started_at?: string | null
           current_activity?: string | null
           current_room?: string | null
+          current_room_id?: string | null
           id?: string
           idle_minutes?: number | null
           idle_minutes_today?: number | null
@@ -753,6 +1287,7 @@ export type Database = {
           productive_minutes_today?: number | null
           room_entered_at?: string | null
           session_started_at?: string | null
+          stats_date?: string | null
           task_started_at?: string | null
           tasks_completed_today?: number | null
           updated_at?: string
@@ -766,6 +1301,13 @@ export type Database = {
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_context_current_room_id_fkey"
+            columns: ["current_room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -791,6 +1333,7 @@ export type Database = {
           created_at: string | null
           id: string
           settings: Json
+          timezone: string | null
           updated_at: string | null
           user_id: string
         }
@@ -798,6 +1341,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           settings?: Json
+          timezone?: string | null
           updated_at?: string | null
           user_id: string
         }
@@ -805,6 +1349,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           settings?: Json
+          timezone?: string | null
           updated_at?: string | null
           user_id?: string
         }
@@ -815,6 +1360,21 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_rule_fire: {
+        Args: {
+          _idempotency_key?: string
+          _ignore_limits?: boolean
+          _rule_id: string
+          _today: string
+        }
+        Returns: Json
+      }
+      claim_rule_webhook_request: {
+        Args: {
+          _webhook_id: string
+        }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -822,6 +1382,31 @@ export type Database = {
         }
         Returns: boolean
       }
+      normalize_room_name: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      prune_rule_skips: {
+        Args: {
+          _keep_days?: number
+        }
+        Returns: number
+      }
+      resolve_room_id: {
+        Args: {
+          _name: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      rule_definition: {
+        Args: {
+          _rule: Database["public"]["Tables"]["rules"]["Row"]
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,27 @@
+// Which Home Assistant entities the home control panel offers, and how it names them
+import type { HomeAssistantEntity } from '@/hooks/useHomeAssistant';
+
+export const CONTROLLABLE_DOMAINS = ['light', 'switch', 'cover', 'climate', 'media_player', 'lock', 'scene'] as const;
+export type ControllableDomain = typeof CONTROLLABLE_DOMAINS[number];
+
+export const DOMAIN_LABELS: Record<ControllableDomain, string> = {
+  light: 'Lights',
+  switch: 'Switches',
+  cover: 'Covers',
+  climate: 'Climate',
+  media_player: 'Media',
+  lock: 'Locks',
+  scene: 'Scenes',
+};
+
+export function entityDomain(entity: HomeAssistantEntity): string {
+  return entity.domain || entity.entity_id.split('.')[0];
+}
+
+export function isControllable(entity: HomeAssistantEntity): boolean {
+  return (CONTROLLABLE_DOMAINS as readonly string[]).includes(entityDomain(entity));
+}
+
+export function entityLabel(entity: HomeAssistantEntity): string {
+  return entity.friendly_name || entity.entity_id;
+}
@@ -0,0 +1,8 @@
+// Room matching lives with the edge functions so the app and rules-engine resolve room names alike
+export {
+  normalizeRoomName,
+  findRoom,
+  canonicalRoomName,
+  isSameRoom,
+} from '../../supabase/functions/_shared/rooms.ts';
+export type { RoomRecord } from '../../supabase/functions/_shared/rooms.ts';
@@ -0,0 +1,440 @@
+import type { RuleAction, RuleCondition, RuleConditionNode, RuleInput } from '@/hooks/useRules';
+import { describeCondition, isConditionGroup, normalizeConditions } from '@/lib/ruleConditions';
+import { collectReferences, type RuleReferenceKind } from '@/lib/ruleBundle';
+import { normalizeRoomName } from '@/lib/rooms';
+
+// Static checks over a rule set, without running anything:
+// conflicting rules, rules that can never fire, and references to deleted goals/tasks/entities/cameras
+export type RuleIssueKind = 'conflict' | 'never_fires' | 'missing_reference';
+
+export interface RuleIssue {
+  kind: RuleIssueKind;
+  // Both rules of a conflict, otherwise the one rule
+  ruleIds: string[];
+  message: string;
+}
+
+export type AnalyzedRule = RuleInput & { id: string };
+
+export interface RuleAnalysisContext {
+  // Ids that exist, per kind. A kind left out isn't checked, e.g. entities before Home Assistant has synced.
+  existing: Partial<Record<RuleReferenceKind, string[]>>;
+  // task id -> title, to spot a rule completing a task another rule creates
+  taskTitles?: Record<string, string>;
+}
+
+// One leaf constraint on a value the engine reads, e.g. room in [office] or idle_minutes > 30.
+// Weak bounds come from negated comparisons, which also hold when the value isn't a number.
+interface Literal {
+  key: string;
+  op: 'in' | 'not_in' | 'gt' | 'ge' | 'lt' | 'le';
+  values?: string[];
+  bound?: number;
+  weak?: boolean;
+  label: string;
+}
+
+// A rule's conditions as OR-of-ANDs
+type Conjunction = Literal[];
+
+// Past this, a condition tree is treated as "could match anything"
+const MAX_CONJUNCTIONS = 64;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// Same equality as the engine: numbers by value, everything else as strings
+function valueKey(value: unknown): string {
+  const number = toNumber(value);
+  return number !== null ? `#${number}` : String(value);
+}
+
+function parseRange(value: unknown): [number | null, number | null] | null {
+  let bounds: [unknown, unknown] | null = null;
+  if (Array.isArray(value) && value.length === 2) bounds = [value[0], value[1]];
+  else if (value && typeof value === 'object') {
+    const { min, max } = value as { min?: unknown; max?: unknown };
+    bounds = [min, max];
+  } else if (typeof value === 'string') {
+    const match = value.match(/^\s*(-?[\d.]+)\s*(?:-|,|\.\.)\s*(-?[\d.]+)\s*$/);
+    if (match) bounds = [match[1], match[2]];
+  }
+  return bounds ? [toNumber(bounds[0]), toNumber(bounds[1])] : null;
+}
+
+function parseClockMinutes(value: string): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// The value a condition compares, or null when it can't be reasoned about (quiet hours, clock ranges, ...)
+function conditionKey(condition: RuleCondition): string | null {
+  switch (condition.type) {
+    case 'time_of_day':
+      return condition.operator === 'in_range' ? null : 'time_of_day';
+    case 'day_of_week':
+    case 'room':
+    case 'idle_minutes':
+      return condition.type;
+    case 'entity_state':
+      return condition.entity_id
+        ? `entity_state:${condition.instance_id || ''}:${condition.entity_id}:${condition.attribute || ''}`
+        : null;
+    case 'task_in_progress':
+      return condition.operator === 'contains' ? 'active_task' : 'task_in_progress';
+    default:
+      return null;
+  }
+}
+
+function leafToDnf(condition: RuleCondition, negated: boolean): Conjunction[] {
+  const positive = !!condition.negate === negated;
+  const key = conditionKey(condition);
+  // A negated duration ("not on for 10m") says nothing about the current value
+  if (!key || (!positive && condition.time_window_minutes)) return [[]];
+
+  const label = describeCondition({ ...condition, negate: !positive });
+  const list = Array.isArray(condition.value) ? condition.value : [condition.value];
+  const values = key === 'task_in_progress'
+    ? [String(String(condition.value) === 'true')]
+    : list.map(valueKey);
+
+  switch (condition.operator) {
+    case 'equals':
+    case 'not_equals': {
+      const isIn = (condition.operator === 'equals') === positive;
+      return [[{ key, op: isIn ? 'in' : 'not_in', values, label }]];
+    }
+    case 'contains':
+      // Only task_in_progress "contains" is an exact match on the active task id
+      return key === 'active_task' ? [[{ key, op: positive ? 'in' : 'not_in', values, label }]] : [[]];
+    case 'greater_than':
+    case 'less_than': {
+      const bound = toNumber(condition.value);
+      if (bound === null || key === 'task_in_progress') return [[]];
+      const op = condition.operator === 'greater_than'
+        ? (positive ? 'gt' : 'le')
+        : (positive ? 'lt' : 'ge');
+      return [[{ key, op, bound, weak: !positive, label }]];
+    }
+    case 'in_range': {
+      const range = parseRange(condition.value);
+      if (!range || (range[0] === null && range[1] === null)) return [[]];
+      const [min, max] = range;
+      if (positive) {
+        const conjunction: Conjunction = [];
+        if (min !== null) conjunction.push({ key, op: 'ge', bound: min, label });
+        if (max !== null) conjunction.push({ key, op: 'le', bound: max, label });
+        return [conjunction];
+      }
+      const outside: Conjunction[] = [];
+      if (min !== null) outside.push([{ key, op: 'lt', bound: min, weak: true, label }]);
+      if (max !== null) outside.push([{ key, op: 'gt', bound: max, weak: true, label }]);
+      return outside;
+    }
+    default:
+      return [[]];
+  }
+}
+
+interface Bounds {
+  lo: number;
+  loInclusive: boolean;
+  hi: number;
+  hiInclusive: boolean;
+}
+
+function tighten(bounds: Bounds, literal: Literal) {
+  const bound = literal.bound!;
+  if (literal.op === 'gt' || literal.op === 'ge') {
+    if (bound > bounds.lo || (bound === bounds.lo && literal.op === 'gt')) {
+      bounds.lo = bound;
+      bounds.loInclusive = literal.op === 'ge';
+    }
+  } else if (bound < bounds.hi || (bound === bounds.hi && literal.op === 'lt')) {
+    bounds.hi = bound;
+    bounds.hiInclusive = literal.op === 'le';
+  }
+}
+
+function withinBounds(value: number, bounds: Bounds): boolean {
+  return (value > bounds.lo || (value === bounds.lo && bounds.loInclusive))
+    && (value < bounds.hi || (value === bounds.hi && bounds.hiInclusive));
+}
+
+// Whether the literals on one value can all hold at once
+function isSatisfiable(literals: Literal[]): boolean {
+  let allowed: string[] | null = null;
+  const excluded = new Set<string>();
+  const bounds: Bounds = { lo: -Infinity, loInclusive: false, hi: Infinity, hiInclusive: false };
+  // A plain comparison only passes for numbers; then the weak bounds apply too
+  const needsNumber = literals.some(l => l.bound !== undefined && !l.weak);
+
+  for (const literal of literals) {
+    if (literal.op === 'in') {
+      allowed = allowed ? allowed.filter(v => literal.values!.includes(v)) : [...literal.values!];
+    } else if (literal.op === 'not_in') {
+      literal.values!.forEach(v => excluded.add(v));
+    } else {
+      tighten(bounds, literal);
+    }
+  }
+
+  if (allowed) {
+    return allowed.some(v => {
+      if (excluded.has(v)) return false;
+      return v.startsWith('#') ? withinBounds(Number(v.slice(1)), bounds) : !needsNumber;
+    });
+  }
+  if (!needsNumber) return true;
+  if (bounds.lo < bounds.hi) return true;
+  return bounds.lo === bounds.hi && bounds.loInclusive && bounds.hiInclusive && !excluded.has(`#${bounds.lo}`);
+}
+
+// The literals that contradict each other, if any
+function findClash(conjunction: Conjunction): Literal[] | null {
+  const byKey = new Map<string, Literal[]>();
+  conjunction.forEach(literal => byKey.set(literal.key, [...(byKey.get(literal.key) || []), literal]));
+  for (const literals of byKey.values()) {
+    if (!isSatisfiable(literals)) return literals;
+  }
+  return null;
+}
+
+// AND of two DNFs, dropping combinations that can't hold; null when it grows too large
+function combine(a: Conjunction[], b: Conjunction[], clashes: Literal[][]): Conjunction[] | null {
+  const result: Conjunction[] = [];
+  for (const left of a) {
+    for (const right of b) {
+      const conjunction = [...left, ...right];
+      const clash = findClash(conjunction);
+      if (clash) {
+        clashes.push(clash);
+        continue;
+      }
+      result.push(conjunction);
+      if (result.length > MAX_CONJUNCTIONS) return null;
+    }
+  }
+  return result;
+}
+
+// Contradicting combinations are collected in clashes, to explain a rule that never fires
+function toDnf(node: RuleConditionNode, negated: boolean, clashes: Literal[][]): Conjunction[] | null {
+  if (!isConditionGroup(node)) return leafToDnf(node, negated);
+
+  const children = node.conditions || [];
+  // Empty groups are always true
+  if (children.length === 0) return negated ? [] : [[]];
+
+  // "not" is NOT(AND), so negating it gives AND and leaving it gives an OR of negated children
+  const childNegated = negated !== (node.group === 'not');
+  const isAnd = node.group === 'all' ? !negated : negated;
+
+  let result: Conjunction[] | null = isAnd ? [[]] : [];
+  for (const child of children) {
+    const dnf = toDnf(child, childNegated, clashes);
+    if (!dnf) return null;
+    result = isAnd ? combine(result, dnf, clashes) : [...result, ...dnf];
+    if (!result || result.length > MAX_CONJUNCTIONS) return null;
+  }
+  return result;
+}
+
+function ruleToDnf(rule: AnalyzedRule, clashes: Literal[][]): Conjunction[] | null {
+  const dnf = toDnf(normalizeConditions(rule.conditions), false, clashes);
+  if (!dnf || !rule.excluded_rooms?.length) return dnf;
+
+  const excludedRooms: Literal = {
+    key: 'room',
+    op: 'not_in',
+    values: rule.excluded_rooms.map(valueKey),
+    label: `excluded rooms ${rule.excluded_rooms.join('|')}`,
+  };
+  return combine(dnf, [[excludedRooms]], clashes);
+}
+
+// Too complex to tell counts as overlapping
+function conditionsOverlap(a: Conjunction[] | null, b: Conjunction[] | null): boolean {
+  if (!a || !b) return true;
+  return a.some(left => b.some(right => !findClash([...left, ...right])));
+}
+
+// Same bounds as the engine's excluded time check: both ends included, wrapping past midnight
+function excludesWholeDay(periods: Array<{ start: string; end: string }> = []): boolean {
+  const covered = new Array<boolean>(1440).fill(false);
+  for (const period of periods) {
+    const start = parseClockMinutes(period.start);
+    const end = parseClockMinutes(period.end);
+    if (start === null || end === null) continue;
+    for (let minute = 0; minute < 1440; minute++) {
+      if (start <= end ? minute >= start && minute <= end : minute >= start || minute <= end) {
+        covered[minute] = true;
+      }
+    }
+  }
+  return covered.every(Boolean);
+}
+
+// trigger_config keys the engine matches exactly; unset matches every event
+const EXACT_TRIGGER_KEYS = [
+  'instance_id', 'entity_id', 'from_state', 'to_state', 'attribute', 'attribute_value',
+  'camera_id', 'activity_tag', 'room', 'object_detected',
+  'status', 'priority', 'goal_id', 'signal_name',
+] as const;
+
+function isUnset(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function triggersOverlap(a: AnalyzedRule, b: AnalyzedRule): boolean {
+  if (a.trigger_type !== b.trigger_type) return false;
+  // Every webhook rule has its own URL, so no request fires two of them
+  if (a.trigger_type === 'webhook') return false;
+
+  const configA = a.trigger_config || {};
+  const configB = b.trigger_config || {};
+  if (a.trigger_type === 'schedule') {
+    const cron = (value?: string) => (value || '').trim().replace(/\s+/g, ' ');
+    return cron(configA.cron) === cron(configB.cron) && (configA.timezone || '') === (configB.timezone || '');
+  }
+  return EXACT_TRIGGER_KEYS.every(key =>
+    isUnset(configA[key]) || isUnset(configB[key]) || String(configA[key]) === String(configB[key])
+  );
+}
+
+const OPPOSITE_SERVICES: Record<string, string> = {
+  turn_on: 'turn_off',
+  turn_off: 'turn_on',
+  open_cover: 'close_cover',
+  close_cover: 'open_cover',
+  lock: 'unlock',
+  unlock: 'lock',
+  media_play: 'media_pause',
+  media_pause: 'media_play',
+};
+
+// Top-level steps plus the ones wait_until runs on timeout
+function flattenSteps(steps: RuleAction[] = []): RuleAction[] {
+  return steps.flatMap(step => [step, ...flattenSteps(step.config?.on_timeout)]);
+}
+
+function sameTitle(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function describeStepConflict(
+  a: RuleAction,
+  b: RuleAction,
+  taskTitles: Record<string, string>
+): string | null {
+  const configA = a.config || {};
+  const configB = b.config || {};
+
+  if (a.type === 'home_assistant' && b.type === 'home_assistant'
+    && configA.entity_id && configA.entity_id === configB.entity_id && configA.service && configB.service
+    && (configA.instance_id || '') === (configB.instance_id || '')) {
+    const conflicts = OPPOSITE_SERVICES[configA.service] === configB.service
+      || configA.service === 'toggle' || configB.service === 'toggle';
+    return conflicts ? `${configA.entity_id}: ${configA.service} vs ${configB.service}` : null;
+  }
+
+  if (a.type === 'update_task' && b.type === 'update_task'
+    && configA.task_id && configA.task_id === configB.task_id && configA.status !== configB.status) {
+    const task = taskTitles[configA.task_id] ? `"${taskTitles[configA.task_id]}"` : configA.task_id;
+    return `task ${task}: ${configA.status} vs ${configB.status}`;
+  }
+
+  if (a.type === 'set_context' && b.type === 'set_context') {
+    if (configA.room && configB.room && normalizeRoomName(configA.room) !== normalizeRoomName(configB.room)) {
+      return `current room: ${configA.room} vs ${configB.room}`;
+    }
+    if (configA.activity && configB.activity && configA.activity !== configB.activity) {
+      return `current activity: ${configA.activity} vs ${configB.activity}`;
+    }
+    return null;
+  }
+
+  const [update, create] = a.type === 'update_task' ? [a, b] : [b, a];
+  if (update.type === 'update_task' && create.type === 'create_task' && update.config?.status === 'completed'
+    && sameTitle(taskTitles[update.config.task_id || ''], create.config?.title)) {
+    return `completes "${create.config.title}" while the other creates it`;
+  }
+
+  return null;
+}
+
+function describeConflicts(a: AnalyzedRule, b: AnalyzedRule, taskTitles: Record<string, string>): string[] {
+  const stepsB = flattenSteps(b.actions);
+  return flattenSteps(a.actions).flatMap(stepA =>
+    stepsB.map(stepB => describeStepConflict(stepA, stepB, taskTitles)).filter((d): d is string => d !== null)
+  );
+}
+
+const REFERENCE_LABELS: Record<RuleReferenceKind, string> = {
+  instance_id: 'Home Assistant instance',
+  entity_id: 'entity',
+  goal_id: 'goal',
+  task_id: 'task',
+  camera_id: 'camera',
+};
+
+export function analyzeRules(rules: AnalyzedRule[], context: RuleAnalysisContext): RuleIssue[] {
+  const issues: RuleIssue[] = [];
+  const existing = Object.fromEntries(
+    Object.entries(context.existing).map(([kind, ids]) => [kind, new Set(ids)])
+  ) as Partial<Record<RuleReferenceKind, Set<string>>>;
+  const dnfs = new Map<string, Conjunction[] | null>();
+
+  for (const rule of rules) {
+    const clashes: Literal[][] = [];
+    const dnf = ruleToDnf(rule, clashes);
+    dnfs.set(rule.id, dnf);
+
+    if (dnf && dnf.length === 0) {
+      const example = clashes[0] ? [...new Set(clashes[0].map(l => l.label))].join(' AND ') : null;
+      issues.push({
+        kind: 'never_fires',
+        ruleIds: [rule.id],
+        message: `Conditions can never all hold${example ? `: ${example}` : ''}`,
+      });
+    }
+    if (rule.excluded_times?.length && excludesWholeDay(rule.excluded_times)) {
+      issues.push({ kind: 'never_fires', ruleIds: [rule.id], message: 'Excluded times cover the whole day' });
+    }
+
+    for (const reference of collectReferences([rule])) {
+      // Templated ids are only known when the rule fires
+      if (reference.id.includes('{{') || !existing[reference.kind] || existing[reference.kind]!.has(reference.id)) continue;
+      issues.push({
+        kind: 'missing_reference',
+        ruleIds: [rule.id],
+        message: `Uses a ${REFERENCE_LABELS[reference.kind]} that no longer exists: ${reference.id}`,
+      });
+    }
+  }
+
+  const enabled = rules.filter(rule => rule.is_enabled !== false);
+  for (let i = 0; i < enabled.length; i++) {
+    for (let j = i + 1; j < enabled.length; j++) {
+      const [a, b] = [enabled[i], enabled[j]];
+      if (!triggersOverlap(a, b) || !conditionsOverlap(dnfs.get(a.id)!, dnfs.get(b.id)!)) continue;
+
+      const conflicts = describeConflicts(a, b, context.taskTitles || {});
+      if (conflicts.length === 0) continue;
+      issues.push({
+        kind: 'conflict',
+        ruleIds: [a.id, b.id],
+        message: `"${a.name}" and "${b.name}" can fire on the same event with conflicting actions: ${[...new Set(conflicts)].join('; ')}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,176 @@
+import type { Rule, RuleExecution, RuleConditionNode, RuleConditionTrace } from '@/hooks/useRules';
+import { describeConditions, normalizeConditionTrace } from '@/lib/ruleConditions';
+import { addDays, getLocalDate } from '@/lib/time';
+
+// The columns of rule_executions the analytics read
+export type RuleAnalyticsExecution = Pick<
+  RuleExecution,
+  'rule_id' | 'triggered_at' | 'execution_status' | 'conditions_evaluated' | 'actions_executed' | 'error_message'
+>;
+
+export const SKIP_REASONS = ['cooldown', 'daily_cap', 'conditions', 'excluded_time', 'excluded_room', 'loop'] as const;
+export type RuleSkipReason = typeof SKIP_REASONS[number];
+
+// noisy: fires a lot or is constantly held back; dead: triggered but never fires;
+// broken: its actions fail; quiet: nothing triggered it in the window
+export type RuleHealth = 'broken' | 'noisy' | 'dead' | 'quiet' | 'healthy';
+
+export interface RuleActionStats {
+  type: string;
+  runs: number;
+  failures: number;
+  failureRate: number;
+  lastError?: string;
+}
+
+export interface RuleAnalytics {
+  ruleId: string;
+  ruleName: string;
+  isEnabled: boolean;
+  // Times the rule's trigger matched an event
+  evaluations: number;
+  fired: number;
+  // Share of evaluations that fired
+  fireRate: number;
+  averageFiresPerDay: number;
+  // One entry per day of the window, in the user's timezone
+  daily: Array<{ date: string; fired: number; skipped: number }>;
+  skipped: Record<RuleSkipReason, number>;
+  actions: RuleActionStats[];
+  // Failed conditions of skipped_conditions executions, most frequent first
+  blockingConditions: Array<{ description: string; count: number }>;
+  lastFiredAt?: string;
+  health: RuleHealth;
+}
+
+export interface RuleAnalyticsWindow {
+  from: Date;
+  to: Date;
+  timeZone: string;
+}
+
+// More fires than this per day on average reads as noise
+const NOISY_FIRES_PER_DAY = 10;
+// Share of failed action runs that marks a rule broken
+const BROKEN_FAILURE_RATE = 0.25;
+
+const FIRED_STATUSES: RuleExecution['execution_status'][] = ['success', 'partial', 'failed', 'running'];
+
+function traceToNode(trace: RuleConditionTrace): RuleConditionNode {
+  return 'group' in trace
+    ? { group: trace.group, conditions: trace.children.map(traceToNode) }
+    : trace.condition;
+}
+
+// The parts of a failed trace that made it fail
+export function findBlockingConditions(trace: RuleConditionTrace): string[] {
+  if (trace.result) return [];
+  if (!('group' in trace)) return [describeConditions(trace.condition)];
+  // A failed "not" means its contents matched
+  if (trace.group === 'not') return [describeConditions(traceToNode(trace))];
+  // A failed "all" is blocked by its failed children; a failed "any" by all of them
+  return trace.children.flatMap(findBlockingConditions);
+}
+
+function windowDates(window: RuleAnalyticsWindow): string[] {
+  const dates: string[] = [];
+  const last = getLocalDate(window.to, window.timeZone);
+  for (let date = getLocalDate(window.from, window.timeZone); date <= last; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+function classify(stats: Omit<RuleAnalytics, 'health'>, days: number): RuleHealth {
+  const actionRuns = stats.actions.reduce((sum, a) => sum + a.runs, 0);
+  const actionFailures = stats.actions.reduce((sum, a) => sum + a.failures, 0);
+  if (actionRuns > 0 && actionFailures / actionRuns >= BROKEN_FAILURE_RATE) return 'broken';
+
+  const heldBack = stats.skipped.cooldown + stats.skipped.daily_cap;
+  if (stats.fired / days > NOISY_FIRES_PER_DAY || (stats.fired > 0 && heldBack > stats.fired)) return 'noisy';
+
+  if (stats.evaluations === 0) return 'quiet';
+  if (stats.fired === 0) return 'dead';
+  return 'healthy';
+}
+
+// Per-rule statistics over the window; rules without executions are included as quiet
+export function summarizeRuleExecutions(
+  rules: Rule[],
+  executions: RuleAnalyticsExecution[],
+  window: RuleAnalyticsWindow
+): RuleAnalytics[] {
+  const dates = windowDates(window);
+  const byRule = new Map<string, RuleAnalyticsExecution[]>();
+  for (const execution of executions) {
+    const list = byRule.get(execution.rule_id) || [];
+    list.push(execution);
+    byRule.set(execution.rule_id, list);
+  }
+
+  return rules.map(rule => {
+    const ruleExecutions = byRule.get(rule.id) || [];
+    const daily = new Map(dates.map(date => [date, { date, fired: 0, skipped: 0 }]));
+    const skipped = Object.fromEntries(SKIP_REASONS.map(reason => [reason, 0])) as Record<RuleSkipReason, number>;
+    const actions = new Map<string, RuleActionStats>();
+    const blockers = new Map<string, number>();
+    let fired = 0;
+    let lastFiredAt: string | undefined;
+
+    for (const execution of ruleExecutions) {
+      const day = daily.get(getLocalDate(new Date(execution.triggered_at), window.timeZone));
+      const status = execution.execution_status as string;
+
+      if (FIRED_STATUSES.includes(execution.execution_status)) {
+        fired++;
+        if (day) day.fired++;
+        if (!lastFiredAt || execution.triggered_at > lastFiredAt) lastFiredAt = execution.triggered_at;
+
+        for (const action of execution.actions_executed || []) {
+          const stats = actions.get(action.type) || { type: action.type, runs: 0, failures: 0, failureRate: 0 };
+          stats.runs++;
+          if (!action.success) {
+            stats.failures++;
+            stats.lastError = action.error || stats.lastError;
+          }
+          actions.set(action.type, stats);
+        }
+        continue;
+      }
+
+      const reason = status.replace(/^skipped_/, '') as RuleSkipReason;
+      if (!(reason in skipped)) continue;
+      skipped[reason]++;
+      if (day) day.skipped++;
+
+      if (reason === 'conditions' && execution.conditions_evaluated) {
+        // A condition blocking twice in one trace (e.g. in two branches) counts once
+        for (const description of new Set(findBlockingConditions(normalizeConditionTrace(execution.conditions_evaluated)))) {
+          blockers.set(description, (blockers.get(description) || 0) + 1);
+        }
+      }
+    }
+
+    const evaluations = fired + Object.values(skipped).reduce((sum, n) => sum + n, 0);
+    const stats = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      isEnabled: rule.is_enabled,
+      evaluations,
+      fired,
+      fireRate: evaluations ? fired / evaluations : 0,
+      averageFiresPerDay: Math.round((fired / dates.length) * 10) / 10,
+      daily: [...daily.values()],
+      skipped,
+      actions: [...actions.values()]
+        .map(a => ({ ...a, failureRate: a.runs ? a.failures / a.runs : 0 }))
+        .sort((a, b) => b.failureRate - a.failureRate),
+      blockingConditions: [...blockers.entries()]
+        .map(([description, count]) => ({ description, count }))
+        .sort((a, b) => b.count - a.count),
+      lastFiredAt,
+    };
+
+    return { ...stats, health: classify(stats, dates.length) };
+  });
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import YAML from 'yaml';
+import type { Rule, RuleAction, RuleConditionGroup, RuleConditionNode, RuleInput } from '@/hooks/useRules';
+import { isConditionGroup } from '@/lib/ruleConditions';
+import { ruleInputSchema } from '@/lib/ruleSchema';
+
+// Bumped when the bundle layout changes incompatibly; parseRuleBundle rejects newer bundles
+export const RULE_BUNDLE_VERSION = 1;
+const RULE_BUNDLE_FORMAT = 'cortana-rules';
+
+export type RuleBundleFormat = 'json' | 'yaml';
+
+const ruleBundleSchema = z.object({
+  format: z.literal(RULE_BUNDLE_FORMAT),
+  version: z.number().int().positive(),
+  exported_at: z.string().optional(),
+  rules: z.array(z.unknown()),
+});
+
+export interface RuleBundle {
+  format: typeof RULE_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  rules: RuleInput[];
+}
+
+// One problem in an imported bundle, located by rule index and field path
+export interface RuleBundleIssue {
+  ruleIndex?: number;
+  ruleName?: string;
+  path: string;
+  message: string;
+}
+
+export class RuleBundleError extends Error {
+  constructor(message: string, public issues: RuleBundleIssue[] = []) {
+    super(message);
+    this.name = 'RuleBundleError';
+  }
+}
+
+// Only the user-authored fields travel; ids, counters and timestamps are per account
+function toRuleInput(rule: Rule): RuleInput {
+  const input: RuleInput = {
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    is_enabled: rule.is_enabled,
+    severity: rule.severity,
+    trigger_type: rule.trigger_type,
+    trigger_config: rule.trigger_config,
+    conditions: rule.conditions,
+    cooldown_minutes: rule.cooldown_minutes,
+    max_fires_per_day: rule.max_fires_per_day,
+    actions: rule.actions,
+    explanation_template: rule.explanation_template,
+    escalation_enabled: rule.escalation_enabled,
+    escalation_after_minutes: rule.escalation_after_minutes,
+    escalation_action: rule.escalation_action,
+    excluded_rooms: rule.excluded_rooms,
+    excluded_times: rule.excluded_times,
+  };
+  // Drop nulls from the database so the bundle round-trips through the schema
+  return JSON.parse(JSON.stringify(input, (_key, value) => value ?? undefined)) as RuleInput;
+}
+
+export function createRuleBundle(rules: Rule[]): RuleBundle {
+  return {
+    format: RULE_BUNDLE_FORMAT,
+    version: RULE_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    rules: rules.map(toRuleInput),
+  };
+}
+
+export function serializeRuleBundle(bundle: RuleBundle, format: RuleBundleFormat): string {
+  return format === 'yaml' ? YAML.stringify(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+// Accepts JSON or YAML (JSON is valid YAML, but JSON.parse gives better errors for it)
+export function parseRuleBundle(text: string): RuleBundle {
+  let raw: unknown;
+  try {
+    raw = text.trim().startsWith('{') ? JSON.parse(text) : YAML.parse(text);
+  } catch (err) {
+    throw new RuleBundleError(`Could not read bundle: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const envelope = ruleBundleSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new RuleBundleError('Not a rule bundle', envelope.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })));
+  }
+  if (envelope.data.version > RULE_BUNDLE_VERSION) {
+    throw new RuleBundleError(
+      `Bundle version ${envelope.data.version} is newer than supported (${RULE_BUNDLE_VERSION})`
+    );
+  }
+
+  const rules: RuleInput[] = [];
+  const issues: RuleBundleIssue[] = [];
+  envelope.data.rules.forEach((rawRule, ruleIndex) => {
+    const parsed = ruleInputSchema.safeParse(rawRule);
+    if (parsed.success) {
+      // Legacy flat condition arrays come out of the schema as an "all" group
+      rules.push(parsed.data as RuleInput);
+      return;
+    }
+    const ruleName = (rawRule as { name?: unknown })?.name;
+    for (const issue of parsed.error.issues) {
+      issues.push({
+        ruleIndex,
+        ruleName: typeof ruleName === 'string' ? ruleName : undefined,
+        path: issue.path.join('.'),
+        message: issue.message,
+      });
+    }
+  });
+
+  if (issues.length) {
+    throw new RuleBundleError(`${issues.length} problem(s) in bundle`, issues);
+  }
+
+  return {
+    format: RULE_BUNDLE_FORMAT,
+    version: envelope.data.version,
+    exported_at: envelope.data.exported_at || '',
+    rules,
+  };
+}
+
+// Account-specific ids a rule can point at
+export type RuleReferenceKind = 'instance_id' | 'entity_id' | 'goal_id' | 'task_id' | 'camera_id';
+
+// kind -> original id -> replacement id
+export type RuleReferenceMapping = Partial<Record<RuleReferenceKind, Record<string, string>>>;
+
+type ReferenceVisitor = (kind: RuleReferenceKind, id: string) => string;
+
+function visitAction(action: RuleAction, visit: ReferenceVisitor): RuleAction {
+  const config = { ...action.config };
+  if (config.instance_id) config.instance_id = visit('instance_id', config.instance_id);
+  if (config.entity_id) config.entity_id = visit('entity_id', config.entity_id);
+  if (config.task_id) config.task_id = visit('task_id', config.task_id);
+  if (config.goal_id) config.goal_id = visit('goal_id', config.goal_id);
+  // wait_until steps hold a condition and their own timeout steps
+  if (config.condition) config.condition = visitCondition(config.condition, visit) as RuleConditionGroup;
+  if (config.on_timeout) config.on_timeout = config.on_timeout.map(step => visitAction(step, visit));
+  return { ...action, config };
+}
+
+function visitCondition(node: RuleConditionNode, visit: ReferenceVisitor): RuleConditionNode {
+  if (isConditionGroup(node)) {
+    return { ...node, conditions: node.conditions.map(child => visitCondition(child, visit)) };
+  }
+
+  const condition = { ...node };
+  if (condition.instance_id) condition.instance_id = visit('instance_id', condition.instance_id);
+  if (condition.entity_id) condition.entity_id = visit('entity_id', condition.entity_id);
+  // task_in_progress "contains" names a specific task
+  if (condition.type === 'task_in_progress' && condition.operator === 'contains' && typeof condition.value === 'string') {
+    condition.value = visit('task_id', condition.value);
+  }
+  return condition;
+}
+
+// Walk every reference in a rule, replacing each with what visit returns
+function visitReferences(rule: RuleInput, visit: ReferenceVisitor): RuleInput {
+  const trigger = { ...rule.trigger_config };
+  if (trigger.instance_id) trigger.instance_id = visit('instance_id', trigger.instance_id);
+  if (trigger.entity_id) trigger.entity_id = visit('entity_id', trigger.entity_id);
+  if (trigger.camera_id) trigger.camera_id = visit('camera_id', trigger.camera_id);
+  if (trigger.goal_id) trigger.goal_id = visit('goal_id', trigger.goal_id);
+
+  return {
+    ...rule,
+    trigger_config: trigger,
+    conditions: rule.conditions ? visitCondition(rule.conditions, visit) as RuleInput['conditions'] : rule.conditions,
+    actions: rule.actions.map(action => visitAction(action, visit)),
+    escalation_action: rule.escalation_action ? visitAction(rule.escalation_action, visit) : undefined,
+  };
+}
+
+export interface RuleReference {
+  kind: RuleReferenceKind;
+  id: string;
+  // Names of the rules using it
+  usedBy: string[];
+}
+
+export function collectReferences(rules: RuleInput[]): RuleReference[] {
+  const references = new Map<string, RuleReference>();
+  for (const rule of rules) {
+    visitReferences(rule, (kind, id) => {
+      const key = `${kind}:${id}`;
+      const reference = references.get(key) || { kind, id, usedBy: [] };
+      if (!reference.usedBy.includes(rule.name)) reference.usedBy.push(rule.name);
+      references.set(key, reference);
+      return id;
+    });
+  }
+  return [...references.values()];
+}
+
+export function remapReferences(rules: RuleInput[], mapping: RuleReferenceMapping): RuleInput[] {
+  return rules.map(rule => visitReferences(rule, (kind, id) => mapping[kind]?.[id] || id));
+}
@@ -0,0 +1,54 @@
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleConditionTrace,
+} from '@/hooks/useRules';
+
+export function isConditionGroup(node: RuleConditionNode): node is RuleConditionGroup {
+  return typeof node === 'object' && node !== null && 'group' in node;
+}
+
+// rules.conditions used to be a flat array that had to all match; read it as an "all" group
+export function normalizeConditions(raw: unknown): RuleConditionGroup {
+  if (Array.isArray(raw)) return { group: 'all', conditions: raw as RuleConditionNode[] };
+  if (raw && typeof raw === 'object' && 'group' in raw) return raw as RuleConditionGroup;
+  return { group: 'all', conditions: [] };
+}
+
+// Same for conditions_evaluated: older executions stored one entry per flat condition
+export function normalizeConditionTrace(raw: unknown): RuleConditionTrace {
+  if (Array.isArray(raw)) {
+    const children = raw as RuleConditionTrace[];
+    return { group: 'all', result: children.every(c => c.result), children };
+  }
+  if (raw && typeof raw === 'object' && 'result' in raw) return raw as RuleConditionTrace;
+  return { group: 'all', result: true, children: [] };
+}
+
+export function countConditions(group: RuleConditionGroup): number {
+  return group.conditions.reduce(
+    (count, node) => count + (isConditionGroup(node) ? countConditions(node) : 1),
+    0
+  );
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  const value = Array.isArray(condition.value) ? condition.value.join('|') : String(condition.value);
+  const entity = condition.attribute ? `${condition.entity_id}.${condition.attribute}` : condition.entity_id;
+  const subject = entity ? `${condition.type}(${entity})` : condition.type;
+  const duration = condition.time_window_minutes ? ` for ${condition.time_window_minutes}m` : '';
+  return `${condition.negate ? 'NOT ' : ''}${subject} ${condition.operator} ${value}${duration}`;
+}
+
+// One-line summary, e.g. "(time_of_day equals evening OR day_of_week equals 0) AND NOT (...)"
+export function describeConditions(node: RuleConditionNode, isRoot = true): string {
+  if (!isConditionGroup(node)) return describeCondition(node);
+
+  const parts = node.conditions.map(child => describeConditions(child, false));
+  if (parts.length === 0) return isRoot ? 'always' : '(empty)';
+
+  const joined = parts.join(node.group === 'any' ? ' OR ' : ' AND ');
+  if (node.group === 'not') return `NOT (${joined})`;
+  return isRoot || parts.length === 1 ? joined : `(${joined})`;
+}
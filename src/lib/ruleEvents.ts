@@ -0,0 +1,279 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTimeOfDay, getLocalClock, resolveTimeZone, getBrowserTimeZone } from '@/lib/time';
+import type { Rule } from '@/hooks/useRules';
+import type { Task } from '@/hooks/useTasks';
+import type { Goal } from '@/hooks/useGoals';
+
+export type RuleTriggerType = Rule['trigger_type'];
+
+export interface RuleEvent {
+  triggerType: RuleTriggerType;
+  triggerData: Record<string, unknown>;
+  // Limit evaluation to one rule
+  ruleId?: string;
+  // Fire ruleId's actions without checking its trigger, conditions, cooldown or caps
+  runNow?: boolean;
+  // Same for every copy of one real-world event (other tabs, retries); a rule fires once per key
+  idempotencyKey?: string;
+}
+
+// Mirrors EvaluationContext in supabase/functions/rules-engine
+export interface RuleEvaluationContext {
+  currentRoom?: string;
+  currentActivity?: string;
+  idleMinutes: number;
+  timeOfDay: string;
+  dayOfWeek: number;
+  currentHour: number;
+  currentMinute: number;
+  entityStates: Record<string, string>;
+  entityAttributes?: Record<string, Record<string, unknown>>;
+  // Per Home Assistant instance (config id)
+  instanceEntityStates?: Record<string, Record<string, string>>;
+  instanceEntityAttributes?: Record<string, Record<string, Record<string, unknown>>>;
+  activeTaskId?: string;
+  // IANA timezone the clock fields above are in; templates format dates with it
+  timeZone?: string;
+  triggerData: Record<string, unknown>;
+}
+
+type RuleEventListener = (event: RuleEvent) => void;
+
+const listeners = new Set<RuleEventListener>();
+
+export function onRuleEvent(listener: RuleEventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitRuleEvent(
+  triggerType: RuleTriggerType,
+  triggerData: Record<string, unknown>,
+  options: Pick<RuleEvent, 'ruleId' | 'runNow' | 'idempotencyKey'> = {}
+) {
+  const event: RuleEvent = { triggerType, triggerData, ...options };
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('Rule event listener error:', err);
+    }
+  });
+}
+
+export function emitTaskState(task: Task, options: Pick<RuleEvent, 'idempotencyKey'> = {}) {
+  const overdueMinutes = task.due_at
+    ? Math.floor((Date.now() - new Date(task.due_at).getTime()) / 60000)
+    : undefined;
+
+  emitRuleEvent('task_state', {
+    task_id: task.id,
+    task_title: task.title,
+    status: task.status,
+    priority: task.priority,
+    room: task.room,
+    due_at: task.due_at,
+    overdue_minutes: overdueMinutes !== undefined && overdueMinutes > 0 ? overdueMinutes : 0,
+  }, options);
+}
+
+export function emitGoalState(goal: Goal) {
+  const progressPercent = goal.target_value
+    ? Math.round(((goal.current_value || 0) / goal.target_value) * 100)
+    : undefined;
+  const daysUntilDue = goal.due_date
+    ? Math.ceil((new Date(goal.due_date).getTime() - Date.now()) / 86400000)
+    : undefined;
+
+  emitRuleEvent('goal_state', {
+    goal_id: goal.id,
+    goal_title: goal.title,
+    status: goal.status,
+    current_value: goal.current_value,
+    target_value: goal.target_value,
+    unit: goal.unit,
+    progress_percent: progressPercent,
+    days_until_due: daysUntilDue,
+  });
+}
+
+export function emitEntityStateChange(
+  // The home_assistant_config the entity belongs to
+  instanceId: string,
+  entityId: string,
+  fromState: string | null,
+  toState: string | null,
+  attributes: Record<string, unknown> = {},
+  fromAttributes: Record<string, unknown> = {},
+  // Home Assistant's last_updated for the new state; identifies the change across tabs
+  updatedAt?: string | null
+) {
+  emitRuleEvent('home_assistant', {
+    instance_id: instanceId,
+    entity_id: entityId,
+    from_state: fromState,
+    to_state: toState,
+    // Attribute-only changes (e.g. brightness) only fire rules with an attribute trigger
+    state_changed: fromState !== toState,
+    attributes,
+    from_attributes: fromAttributes,
+  }, { idempotencyKey: updatedAt ? `ha:${instanceId}:${entityId}:${updatedAt}` : undefined });
+}
+
+export function emitCameraObservation(observation: {
+  camera_id?: string;
+  room?: string;
+  activity_tag?: string;
+  objects_detected?: string[];
+  observation?: string;
+}) {
+  emitRuleEvent('camera', observation);
+}
+
+// source says who sent it ('ui', 'voice', 'webhook'), for the execution log
+export function emitSignal(signalName: string, source: string, data: Record<string, unknown> = {}) {
+  emitRuleEvent('manual', { ...data, signal_name: signalName, source });
+}
+
+export function emitRunNow(ruleId: string, source: string) {
+  emitRuleEvent('manual', { source }, { ruleId, runNow: true });
+}
+
+// An event that would satisfy the rule's trigger_config, as a starting point for editing
+export function sampleTriggerData(rule: Pick<Rule, 'trigger_type' | 'trigger_config'>): Record<string, unknown> {
+  const config = rule.trigger_config || {};
+
+  switch (rule.trigger_type) {
+    case 'home_assistant':
+      return {
+        ...(config.instance_id && { instance_id: config.instance_id }),
+        entity_id: config.entity_id || '',
+        from_state: config.from_state ?? null,
+        to_state: config.to_state ?? null,
+        state_changed: true,
+        attributes: config.attribute ? { [config.attribute]: config.attribute_value ?? null } : {},
+        from_attributes: {},
+      };
+    case 'task_state':
+      return {
+        task_id: 'test-task',
+        task_title: 'Test task',
+        status: config.status || 'pending',
+        priority: config.priority || 'medium',
+        overdue_minutes: config.overdue_minutes || 0,
+      };
+    case 'goal_state':
+      return {
+        goal_id: config.goal_id || 'test-goal',
+        goal_title: 'Test goal',
+        progress_percent: config.progress_below !== undefined ? config.progress_below - 1 : 50,
+        days_until_due: config.days_until_due ?? 7,
+      };
+    case 'camera':
+      return {
+        camera_id: config.camera_id,
+        room: config.room,
+        activity_tag: config.activity_tag,
+        objects_detected: config.object_detected ? [config.object_detected] : [],
+      };
+    case 'schedule':
+      return {
+        cron: config.cron,
+        timezone: config.timezone || 'UTC',
+        scheduled_for: new Date().toISOString(),
+        is_catch_up: false,
+      };
+    case 'manual':
+      return { signal_name: config.signal_name || '' };
+    default:
+      return {};
+  }
+}
+
+// Snapshot of the user's current state, read fresh at dispatch time
+export async function buildEvaluationContext(
+  userId: string,
+  triggerData: Record<string, unknown>
+): Promise<RuleEvaluationContext> {
+  const [{ data: userContext }, { data: entities }, { data: userSettings }] = await Promise.all([
+    supabase
+      .from('user_context')
+      .select('current_room, current_activity, idle_minutes, active_task_id')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('home_assistant_entities')
+      .select('config_id, entity_id, state, attributes')
+      .eq('user_id', userId),
+    supabase
+      .from('user_settings')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  const entityStates: Record<string, string> = {};
+  const entityAttributes: Record<string, Record<string, unknown>> = {};
+  const instanceEntityStates: Record<string, Record<string, string>> = {};
+  const instanceEntityAttributes: Record<string, Record<string, Record<string, unknown>>> = {};
+  for (const entity of entities || []) {
+    const attributes = (entity.attributes as Record<string, unknown>) || {};
+    if (!instanceEntityStates[entity.config_id]) {
+      instanceEntityStates[entity.config_id] = {};
+      instanceEntityAttributes[entity.config_id] = {};
+    }
+    if (entity.state !== null) {
+      entityStates[entity.entity_id] = entity.state;
+      instanceEntityStates[entity.config_id][entity.entity_id] = entity.state;
+    }
+    entityAttributes[entity.entity_id] = attributes;
+    instanceEntityAttributes[entity.config_id][entity.entity_id] = attributes;
+  }
+
+  const timeZone = resolveTimeZone(userSettings?.timezone, getBrowserTimeZone());
+  const clock = getLocalClock(new Date(), timeZone);
+  return {
+    currentRoom: userContext?.current_room || undefined,
+    currentActivity: userContext?.current_activity || undefined,
+    idleMinutes: userContext?.idle_minutes || 0,
+    timeOfDay: getTimeOfDay(clock.hour),
+    dayOfWeek: clock.dayOfWeek,
+    currentHour: clock.hour,
+    currentMinute: clock.minute,
+    entityStates,
+    entityAttributes,
+    instanceEntityStates,
+    instanceEntityAttributes,
+    activeTaskId: userContext?.active_task_id || undefined,
+    timeZone,
+    triggerData,
+  };
+}
+
+// Short spoken replies that count as acknowledging a rule notification. The whole utterance must be
+// one, so "yes, what's the weather?" is a new request rather than an acknowledgment.
+const ACKNOWLEDGEMENT_PATTERN =
+  /^(ok(ay)?|got it|i know|on it|acknowledged?|understood|will do|fine|yes|yeah|alright|stop)([\s,]+(thanks|thank you|cortana))?[\s.!]*$/i;
+
+export function isAcknowledgement(text: string): boolean {
+  return ACKNOWLEDGEMENT_PATTERN.test(text.trim());
+}
+
+// Acknowledge one rule execution, or every pending one, cancelling their escalations
+export async function acknowledgeRuleExecutions(userId: string, executionId?: string): Promise<number> {
+  let query = supabase
+    .from('rule_executions')
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('acknowledged_at', null);
+
+  query = executionId
+    ? query.eq('id', executionId)
+    : query.not('escalation_due_at', 'is', null).is('escalated_at', null);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return data?.length || 0;
+}
@@ -0,0 +1,14 @@
+// The rule schema lives with the edge functions so rules-engine and the app validate rules identically
+export { ruleInputSchema, validateRuleInput, parseRuleRow } from '../../supabase/functions/_shared/ruleSchema.ts';
+export type {
+  Rule,
+  RuleInput,
+  RuleAction,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionNode,
+  RuleTriggerConfig,
+  RuleEditor,
+  RulePeriod,
+  BrokenRule,
+} from '../../supabase/functions/_shared/ruleSchema.ts';
@@ -0,0 +1,9 @@
+// The template engine lives with the edge functions so rules-engine and the editor preview render identically
+export {
+  renderTemplate,
+  renderTemplateValue,
+  validateTemplate,
+  buildTemplateScope,
+  formatDate,
+} from '../../supabase/functions/_shared/ruleTemplate.ts';
+export type { TemplateScopeInput, TemplateOptions } from '../../supabase/functions/_shared/ruleTemplate.ts';
@@ -0,0 +1,107 @@
+import type { RuleAction, RuleVersion } from '@/hooks/useRules';
+import { describeConditions, normalizeConditions } from '@/lib/ruleConditions';
+
+// One line of a version's diff, e.g. { label: 'Cooldown', before: '30', after: '60' }
+export interface RuleChange {
+  field: string;
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  severity: 'Severity',
+  trigger_type: 'Trigger',
+  trigger_config: 'Trigger',
+  conditions: 'Conditions',
+  cooldown_minutes: 'Cooldown (min)',
+  max_fires_per_day: 'Max fires per day',
+  actions: 'Actions',
+  explanation_template: 'Explanation',
+  escalation_enabled: 'Escalation',
+  escalation_after_minutes: 'Escalate after (min)',
+  escalation_action: 'Escalation action',
+  excluded_rooms: 'Excluded rooms',
+  excluded_times: 'Excluded times',
+};
+
+// Order fields are listed in, roughly When / If / Then / Because
+const FIELD_ORDER = Object.keys(FIELD_LABELS);
+
+function formatValue(value: unknown): string | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object')) return value.join(', ');
+  return JSON.stringify(value);
+}
+
+function describeAction(action: RuleAction): string {
+  const detail = action.config?.message ?? action.config?.title ?? action.config?.signal_name ?? action.config?.service;
+  return detail ? `${action.type}: "${detail}"` : action.type;
+}
+
+// Per key, so a changed entity id doesn't show the whole trigger config
+function diffTriggerConfig(before: Record<string, unknown>, after: Record<string, unknown>): RuleChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({
+      field: 'trigger_config',
+      label: `Trigger ${key}`,
+      before: formatValue(before[key]),
+      after: formatValue(after[key]),
+    }));
+}
+
+// Position by position: changed, added at the end, or removed from the end
+function diffActions(before: RuleAction[], after: RuleAction[]): RuleChange[] {
+  const changes: RuleChange[] = [];
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    if (JSON.stringify(before[i]) === JSON.stringify(after[i])) continue;
+    changes.push({
+      field: 'actions',
+      label: `Action ${i + 1}`,
+      before: before[i] ? describeAction(before[i]) : undefined,
+      after: after[i] ? describeAction(after[i]) : undefined,
+    });
+  }
+  return changes;
+}
+
+// Readable lines for a version's stored changes
+export function describeRuleChanges(changes: RuleVersion['changes']): RuleChange[] {
+  if (!changes) return [];
+
+  return Object.entries(changes)
+    .sort(([a], [b]) => FIELD_ORDER.indexOf(a) - FIELD_ORDER.indexOf(b))
+    .flatMap(([field, { before, after }]): RuleChange[] => {
+      switch (field) {
+        case 'trigger_config':
+          return diffTriggerConfig(
+            (before || {}) as Record<string, unknown>,
+            (after || {}) as Record<string, unknown>
+          );
+        case 'conditions':
+          return [{
+            field,
+            label: FIELD_LABELS[field],
+            before: describeConditions(normalizeConditions(before)),
+            after: describeConditions(normalizeConditions(after)),
+          }];
+        case 'actions':
+          return diffActions((before || []) as RuleAction[], (after || []) as RuleAction[]);
+        case 'escalation_action':
+          return [{
+            field,
+            label: FIELD_LABELS[field],
+            before: before ? describeAction(before as RuleAction) : undefined,
+            after: after ? describeAction(after as RuleAction) : undefined,
+          }];
+        default:
+          return [{ field, label: FIELD_LABELS[field] ?? field, before: formatValue(before), after: formatValue(after) }];
+      }
+    });
+}
@@ -0,0 +1,19 @@
+// Timezone helpers live with the edge functions so the app and rules-engine agree on the user's day
+export {
+  DEFAULT_TIME_ZONE,
+  getTimeOfDay,
+  isValidTimeZone,
+  resolveTimeZone,
+  getLocalClock,
+  getLocalDate,
+  fromLocalTime,
+  addDays,
+  endOfLocalDay,
+  formatLocalDateTime,
+} from '../../supabase/functions/_shared/time.ts';
+export type { LocalClock } from '../../supabase/functions/_shared/time.ts';
+
+// The browser's timezone, used until the user picks one in Settings
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
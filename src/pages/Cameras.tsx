@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCameras, CameraInput } from '@/hooks/useCameras';
+import { useRooms } from '@/hooks/useRooms';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,6 +22,7 @@ import {
 export default function Cameras() {
   const navigate = useNavigate();
   const { cameras, isLoading, addCamera, updateCamera, deleteCamera } = useCameras();
+  const { rooms } = useRooms();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -173,10 +175,15 @@ export default function Cameras() {
                     <Label htmlFor="room">Room</Label>
                     <Input
                       id="room"
+                      list="camera-rooms"
                       value={formData.room}
                       onChange={(e) => setFormData({ ...formData, room: e.target.value })}
                       placeholder="Living Room"
                     />
+                    {/* A known room's name or alias links the camera to it */}
+                    <datalist id="camera-rooms">
+                      {rooms.map(r => <option key={r.id} value={r.name} />)}
+                    </datalist>
                   </div>
                   
                   <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useHomeAssistant, HomeAssistantEntity, ExpectedEntityState } from '@/hooks/useHomeAssistant';
+import { useRooms } from '@/hooks/useRooms';
+import { useUserContext } from '@/hooks/useUserContext';
+import { HomeEntityControl } from '@/components/HomeEntityControl';
+import {
+  CONTROLLABLE_DOMAINS,
+  DOMAIN_LABELS,
+  ControllableDomain,
+  entityDomain,
+  entityLabel,
+  isControllable,
+} from '@/lib/homeControls';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Lightbulb, Star, MapPin, Home } from 'lucide-react';
+
+interface Section {
+  key: string;
+  title: string;
+  isCurrent?: boolean;
+  entities: HomeAssistantEntity[];
+}
+
+const byDomainThenName = (a: HomeAssistantEntity, b: HomeAssistantEntity) =>
+  CONTROLLABLE_DOMAINS.indexOf(entityDomain(a) as ControllableDomain) - CONTROLLABLE_DOMAINS.indexOf(entityDomain(b) as ControllableDomain)
+  || entityLabel(a).localeCompare(entityLabel(b));
+
+export default function HomeControls() {
+  const navigate = useNavigate();
+  const { configs, entities, isLoading, controlEntity, setFavorite } = useHomeAssistant({ live: true });
+  const { rooms, getRoomByName } = useRooms();
+  const { context } = useUserContext();
+  const { toast } = useToast();
+  const [domainFilter, setDomainFilter] = useState<'all' | ControllableDomain>('all');
+  const [instanceFilter, setInstanceFilter] = useState('all');
+
+  // Entities of paused instances can't be controlled
+  const activeConfigs = configs.filter(c => c.is_active);
+  const activeIds = new Set(activeConfigs.map(c => c.id));
+  const instanceNames = activeConfigs.length > 1 ? new Map(activeConfigs.map(c => [c.id, c.name])) : null;
+
+  const shown = entities
+    .filter(e => activeIds.has(e.config_id) && isControllable(e))
+    .filter(e => domainFilter === 'all' || entityDomain(e) === domainFilter)
+    .filter(e => instanceFilter === 'all' || e.config_id === instanceFilter)
+    .sort(byDomainThenName);
+
+  // Favorites first, then the room the user is in, the other rooms and entities in no room
+  const currentRoom = getRoomByName(context?.current_room);
+  const roomIds = new Set(rooms.map(r => r.id));
+  const sections: Section[] = [];
+  const favorites = shown.filter(e => e.is_favorite);
+  if (favorites.length) {
+    sections.push({ key: 'favorites', title: 'Favorites', entities: favorites });
+  }
+  const orderedRooms = currentRoom ? [currentRoom, ...rooms.filter(r => r.id !== currentRoom.id)] : rooms;
+  for (const room of orderedRooms) {
+    const inRoom = shown.filter(e => e.room_id === room.id);
+    if (inRoom.length) {
+      sections.push({ key: room.id, title: room.name, isCurrent: room.id === currentRoom?.id, entities: inRoom });
+    }
+  }
+  const unassigned = shown.filter(e => !e.room_id || !roomIds.has(e.room_id));
+  if (unassigned.length) {
+    sections.push({ key: 'unassigned', title: 'No room', entities: unassigned });
+  }
+
+  const handleControl = async (
+    entity: HomeAssistantEntity,
+    service: string,
+    data?: Record<string, unknown>,
+    expected?: ExpectedEntityState
+  ) => {
+    const success = await controlEntity(entity, service, data, expected);
+    if (!success) {
+      toast({
+        title: 'Home Assistant call failed',
+        description: `Could not ${service.replace(/_/g, ' ')} ${entityLabel(entity)}.`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleFavorite = async (entity: HomeAssistantEntity) => {
+    const success = await setFavorite(entity, !entity.is_favorite);
+    if (!success) {
+      toast({ title: 'Error', description: 'Failed to update favorites', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8 gap-4 flex-wrap">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate('/dashboard')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Lightbulb className="h-6 w-6 text-ai-glow" />
+              <h1 className="text-3xl font-bold">Home Controls</h1>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            {instanceNames && (
+              <Select value={instanceFilter} onValueChange={setInstanceFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All instances</SelectItem>
+                  {activeConfigs.map(c => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={domainFilter} onValueChange={(v) => setDomainFilter(v as 'all' | ControllableDomain)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Everything</SelectItem>
+                {CONTROLLABLE_DOMAINS.map(domain => (
+                  <SelectItem key={domain} value={domain}>{DOMAIN_LABELS[domain]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Loading devices...</p>
+          </div>
+        ) : sections.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <Home className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">
+                {activeConfigs.length === 0 ? 'Home Assistant not connected' : 'Nothing to control'}
+              </h3>
+              <p className="text-muted-foreground mb-4">
+                {activeConfigs.length === 0
+                  ? 'Connect a Home Assistant instance to control your lights, climate and more from here'
+                  : domainFilter !== 'all' || instanceFilter !== 'all'
+                    ? 'Nothing matches these filters'
+                    : 'Sync entities to see your lights, switches, covers, climate, media players, locks and scenes'}
+              </p>
+              <Button onClick={() => navigate('/integrations')}>Go to Integrations</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            {sections.map(section => (
+              <section key={section.key} className="space-y-3">
+                <div className="flex items-center gap-2">
+                  {section.key === 'favorites'
+                    ? <Star className="h-4 w-4 fill-yellow-500 text-yellow-500" />
+                    : <MapPin className="h-4 w-4 text-cyan-500" />}
+                  <h2 className="text-lg font-semibold">{section.title}</h2>
+                  {section.isCurrent && <Badge variant="secondary">You're here</Badge>}
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {section.entities.map(entity => (
+                    <HomeEntityControl
+                      key={entity.id}
+                      entity={entity}
+                      instanceName={instanceNames?.get(entity.config_id)}
+                      control={(service, data, expected) => handleControl(entity, service, data, expected)}
+                      onToggleFavorite={() => handleToggleFavorite(entity)}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useN8n, N8nIntegrationInput } from '@/hooks/useN8n';
-import { useHomeAssistant, HomeAssistantConfigInput } from '@/hooks/useHomeAssistant';
+import { useHomeAssistant, HomeAssistantConfigInput, isSubscriberLive } from '@/hooks/useHomeAssistant';
+import { useRooms } from '@/hooks/useRooms';
+import { RoomsCard } from '@/components/RoomsCard';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -9,7 +11,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Plus, Trash2, Webhook, Edit2, Play, Mail, Calendar, Zap, Home, RefreshCw, CheckCircle2, XCircle, Eye, EyeOff } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Webhook, Edit2, Play, Mail, Calendar, Zap, Home, RefreshCw, CheckCircle2, XCircle, Eye, EyeOff, Lightbulb } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -37,14 +39,18 @@ export default function Integrations() {
   const navigate = useNavigate();
   const { integrations, isLoading, addIntegration, updateIntegration, deleteIntegration, triggerWebhook } = useN8n();
   const { 
-    config: haConfig, 
-    entities: haEntities, 
+    configs: haConfigs, 
     isLoading: haLoading, 
     saveConfig: saveHAConfig, 
     deleteConfig: deleteHAConfig,
     testConnection,
+    saveToken,
+    revokeToken,
     syncEntities,
+    getEntitiesByConfig,
+    getEntitiesByRoom,
   } = useHomeAssistant();
+  const { rooms, addRoom, updateRoom, deleteRoom, isNameTaken, refetch: refetchRooms } = useRooms();
   const { toast } = useToast();
   
   // n8n state
@@ -59,6 +65,8 @@ export default function Integrations() {
 
   // Home Assistant state
   const [isHADialogOpen, setIsHADialogOpen] = useState(false);
+  // Instance being edited in the dialog; null adds a new one
+  const [editingHAId, setEditingHAId] = useState<string | null>(null);
   const [haFormData, setHAFormData] = useState<HomeAssistantConfigInput>({
     instance_url: '',
     name: 'Home Assistant',
@@ -67,7 +75,13 @@ export default function Integrations() {
   const [showToken, setShowToken] = useState(false);
   const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncingHAId, setSyncingHAId] = useState<string | null>(null);
+
+  const editingHAConfig = haConfigs.find(c => c.id === editingHAId) || null;
+  // The saved token is only used with the saved URL; a changed URL needs its token entered again
+  const urlChanged = !!editingHAConfig
+    && haFormData.instance_url.trim().replace(/\/$/, '') !== editingHAConfig.instance_url.replace(/\/$/, '');
+  const hasToken = !!editingHAConfig?.token_hint && !urlChanged;
 
   const resetForm = () => {
     setFormData({
@@ -79,13 +93,17 @@ export default function Integrations() {
     setEditingId(null);
   };
 
-  const resetHAForm = () => {
+  const openHADialog = (configId: string | null) => {
+    const haConfig = haConfigs.find(c => c.id === configId);
+    setEditingHAId(configId);
     setHAFormData({
       instance_url: haConfig?.instance_url || '',
-      name: haConfig?.name || 'Home Assistant',
+      name: haConfig?.name || (haConfigs.length ? '' : 'Home Assistant'),
+      is_active: haConfig?.is_active ?? true,
     });
     setHAToken('');
     setConnectionStatus('idle');
+    setIsHADialogOpen(true);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -179,7 +197,7 @@ export default function Integrations() {
 
   // Home Assistant handlers
   const handleTestHAConnection = async () => {
-    if (!haFormData.instance_url || !haToken) {
+    if (!haFormData.instance_url || (!haToken && !hasToken)) {
       toast({
         title: 'Missing fields',
         description: 'Please enter both URL and access token',
@@ -191,7 +209,7 @@ export default function Integrations() {
     setIsTestingConnection(true);
     setConnectionStatus('idle');
 
-    const result = await testConnection(haFormData.instance_url, haToken);
+    const result = await testConnection(haFormData.instance_url, haToken, editingHAId || undefined);
     
     setConnectionStatus(result.success ? 'success' : 'error');
     setIsTestingConnection(false);
@@ -213,45 +231,93 @@ export default function Integrations() {
       return;
     }
 
-    const result = await saveHAConfig(haFormData);
-    if (result) {
+    if (!haFormData.name?.trim() && haConfigs.some(c => c.id !== editingHAId)) {
+      toast({
+        title: 'Missing name',
+        description: 'Name each Home Assistant instance, e.g. "House" or "Cabin"',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (urlChanged && editingHAConfig?.token_hint && !haToken) {
       toast({
-        title: 'Configuration saved',
-        description: 'Home Assistant connection saved.',
+        title: 'Access token required',
+        description: 'Enter the access token again for the new URL; the saved one is removed when the URL changes',
+        variant: 'destructive',
       });
-      setIsHADialogOpen(false);
+      return;
+    }
+
+    const result = await saveHAConfig(haFormData, editingHAId || undefined);
+    if (!result) return;
+    // A new instance keeps the dialog on it if the token is rejected
+    setEditingHAId(result.id);
+
+    if (haToken) {
+      const tokenResult = await saveToken(result.id, haToken);
+      if (!tokenResult.success) {
+        toast({
+          title: 'Token not saved',
+          description: tokenResult.message,
+          variant: 'destructive',
+        });
+        return;
+      }
     }
+
+    toast({
+      title: 'Configuration saved',
+      description: `${result.name} connection saved.`,
+    });
+    setIsHADialogOpen(false);
+  };
+
+  const handleRevokeHAToken = async () => {
+    if (!editingHAId) return;
+    const result = await revokeToken(editingHAId);
+    toast({
+      title: result ? 'Token revoked' : 'Revoke failed',
+      description: result
+        ? `Cortana can no longer reach ${editingHAConfig?.name || 'Home Assistant'} until a new token is saved.`
+        : 'Failed to remove the saved token.',
+      variant: result ? 'default' : 'destructive',
+    });
   };
 
-  const handleDeleteHAConfig = async () => {
-    const result = await deleteHAConfig();
+  const handleDeleteHAConfig = async (configId: string, name: string) => {
+    const result = await deleteHAConfig(configId);
     if (result) {
       toast({
         title: 'Configuration deleted',
-        description: 'Home Assistant connection removed.',
+        description: `${name} connection removed.`,
       });
     }
   };
 
-  const handleSyncEntities = async () => {
-    if (!haToken) {
+  const handleSyncEntities = async (configId: string, name: string, tokenSaved: boolean) => {
+    if (!tokenSaved) {
       toast({
         title: 'Token required',
-        description: 'Please enter your access token to sync',
+        description: 'Please save your access token to sync',
         variant: 'destructive',
       });
-      setIsHADialogOpen(true);
+      openHADialog(configId);
       return;
     }
 
-    setIsSyncing(true);
-    const result = await syncEntities(haToken);
-    setIsSyncing(false);
+    setSyncingHAId(configId);
+    const result = await syncEntities(configId);
+    setSyncingHAId(null);
 
     if (result.success) {
+      // Areas may have become rooms
+      await refetchRooms();
       toast({
         title: 'Sync complete',
-        description: `Synced ${result.count} entities from Home Assistant.`,
+        description: result.areas == null
+          ? `Synced ${result.count} entities from ${name}. Areas could not be read, so rooms were not updated.`
+          : `Synced ${result.count} entities and ${result.areas} areas from ${name}.`,
       });
     } else {
       toast({
@@ -278,7 +344,7 @@ export default function Integrations() {
     }
   };
 
-  const domainCounts = haEntities.reduce((acc, entity) => {
+  const getDomainCounts = (configId: string) => getEntitiesByConfig(configId).reduce((acc, entity) => {
     const domain = entity.domain || 'unknown';
     acc[domain] = (acc[domain] || 0) + 1;
     return acc;
@@ -331,147 +397,89 @@ export default function Integrations() {
               <CardContent className="space-y-4">
                 {haLoading ? (
                   <p className="text-muted-foreground">Loading...</p>
-                ) : haConfig ? (
+                ) : haConfigs.length > 0 ? (
                   <div className="space-y-4">
-                    <div className="flex items-center justify-between p-4 border rounded-lg">
-                      <div className="flex items-center gap-3">
-                        <div className="p-2 rounded-lg bg-cyan-500/20">
-                          <Home className="h-5 w-5 text-cyan-500" />
-                        </div>
-                        <div>
-                          <p className="font-medium">{haConfig.name}</p>
-                          <p className="text-sm text-muted-foreground">{haConfig.instance_url}</p>
-                          {haConfig.last_connected_at && (
-                            <p className="text-xs text-muted-foreground">
-                              Last connected: {new Date(haConfig.last_connected_at).toLocaleString()}
-                            </p>
-                          )}
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={handleSyncEntities}
-                          disabled={isSyncing}
-                        >
-                          <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
-                          Sync
-                        </Button>
-                        <Dialog open={isHADialogOpen} onOpenChange={(open) => {
-                          setIsHADialogOpen(open);
-                          if (open) resetHAForm();
-                        }}>
-                          <DialogTrigger asChild>
-                            <Button variant="outline" size="sm">
-                              <Edit2 className="h-4 w-4 mr-1" />
-                              Edit
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Edit Home Assistant</DialogTitle>
-                              <DialogDescription>
-                                Update your Home Assistant connection settings.
-                              </DialogDescription>
-                            </DialogHeader>
-                            <div className="grid gap-4 py-4">
-                              <div className="grid gap-2">
-                                <Label htmlFor="ha-name">Name</Label>
-                                <Input
-                                  id="ha-name"
-                                  value={haFormData.name}
-                                  onChange={(e) => setHAFormData({ ...haFormData, name: e.target.value })}
-                                  placeholder="Home Assistant"
-                                />
-                              </div>
-                              <div className="grid gap-2">
-                                <Label htmlFor="ha-url">Instance URL *</Label>
-                                <Input
-                                  id="ha-url"
-                                  value={haFormData.instance_url}
-                                  onChange={(e) => setHAFormData({ ...haFormData, instance_url: e.target.value })}
-                                  placeholder="http://homeassistant.local:8123"
-                                />
+                    {haConfigs.map((haConfig) => {
+                      const domainCounts = getDomainCounts(haConfig.id);
+                      const entityCount = getEntitiesByConfig(haConfig.id).length;
+                      return (
+                        <div key={haConfig.id} className="p-4 border rounded-lg space-y-4">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-3">
+                              <div className="p-2 rounded-lg bg-cyan-500/20">
+                                <Home className="h-5 w-5 text-cyan-500" />
                               </div>
-                              <div className="grid gap-2">
-                                <Label htmlFor="ha-token">
-                                  Long-Lived Access Token *
-                                  <span className="text-xs text-muted-foreground ml-2">(not stored)</span>
-                                </Label>
-                                <div className="relative">
-                                  <Input
-                                    id="ha-token"
-                                    type={showToken ? 'text' : 'password'}
-                                    value={haToken}
-                                    onChange={(e) => setHAToken(e.target.value)}
-                                    placeholder="eyJ0..."
-                                    className="pr-10"
-                                  />
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    className="absolute right-0 top-0 h-full px-3"
-                                    onClick={() => setShowToken(!showToken)}
-                                  >
-                                    {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                                  </Button>
+                              <div>
+                                <div className="flex items-center gap-2">
+                                  <p className="font-medium">{haConfig.name}</p>
+                                  {!haConfig.is_active && <Badge variant="outline">Inactive</Badge>}
                                 </div>
+                                <p className="text-sm text-muted-foreground">{haConfig.instance_url}</p>
+                                {haConfig.last_connected_at && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Last connected: {new Date(haConfig.last_connected_at).toLocaleString()}
+                                  </p>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                  {isSubscriberLive(haConfig)
+                                    ? 'Live updates on'
+                                    : 'Live updates off, entities change only on sync'}
+                                </p>
                                 <p className="text-xs text-muted-foreground">
-                                  Get this from Profile → Long-Lived Access Tokens in Home Assistant
+                                  {haConfig.token_hint ? `Token ${haConfig.token_hint} saved` : 'No access token saved'}
                                 </p>
                               </div>
+                            </div>
+                            <div className="flex gap-2">
                               <Button
-                                type="button"
                                 variant="outline"
-                                onClick={handleTestHAConnection}
-                                disabled={isTestingConnection}
-                                className="w-full"
+                                size="sm"
+                                onClick={() => handleSyncEntities(haConfig.id, haConfig.name, !!haConfig.token_hint)}
+                                disabled={syncingHAId === haConfig.id}
                               >
-                                {isTestingConnection ? (
-                                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                                ) : connectionStatus === 'success' ? (
-                                  <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
-                                ) : connectionStatus === 'error' ? (
-                                  <XCircle className="h-4 w-4 mr-2 text-red-500" />
-                                ) : null}
-                                Test Connection
+                                <RefreshCw className={`h-4 w-4 mr-1 ${syncingHAId === haConfig.id ? 'animate-spin' : ''}`} />
+                                Sync
                               </Button>
-                            </div>
-                            <DialogFooter>
-                              <Button variant="outline" onClick={() => setIsHADialogOpen(false)}>
-                                Cancel
+                              <Button variant="outline" size="sm" onClick={() => openHADialog(haConfig.id)}>
+                                <Edit2 className="h-4 w-4 mr-1" />
+                                Edit
                               </Button>
-                              <Button onClick={handleSaveHAConfig}>
-                                Save
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDeleteHAConfig(haConfig.id, haConfig.name)}
+                              >
+                                <Trash2 className="h-4 w-4" />
                               </Button>
-                            </DialogFooter>
-                          </DialogContent>
-                        </Dialog>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={handleDeleteHAConfig}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </div>
+                            </div>
+                          </div>
 
-                    {/* Entity Summary */}
-                    {haEntities.length > 0 && (
-                      <div className="space-y-2">
-                        <h4 className="font-medium text-sm">Synced Entities ({haEntities.length})</h4>
-                        <div className="flex flex-wrap gap-2">
-                          {Object.entries(domainCounts).map(([domain, count]) => (
-                            <Badge key={domain} variant="secondary">
-                              {domain}: {count}
-                            </Badge>
-                          ))}
+                          {/* Entity Summary */}
+                          {entityCount > 0 && (
+                            <div className="space-y-2">
+                              <div className="flex items-center justify-between">
+                                <h4 className="font-medium text-sm">Synced Entities ({entityCount})</h4>
+                                <Button variant="ghost" size="sm" onClick={() => navigate('/home-controls')}>
+                                  <Lightbulb className="h-4 w-4 mr-1" />
+                                  Controls
+                                </Button>
+                              </div>
+                              <div className="flex flex-wrap gap-2">
+                                {Object.entries(domainCounts).map(([domain, count]) => (
+                                  <Badge key={domain} variant="secondary">
+                                    {domain}: {count}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </div>
+                          )}
                         </div>
-                      </div>
-                    )}
+                      );
+                    })}
+                    <Button variant="outline" onClick={() => openHADialog(null)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Instance
+                    </Button>
                   </div>
                 ) : (
                   <div className="text-center py-8">
@@ -480,101 +488,132 @@ export default function Integrations() {
                     <p className="text-muted-foreground mb-4">
                       Connect your Home Assistant instance to enable home monitoring.
                     </p>
-                    <Dialog open={isHADialogOpen} onOpenChange={(open) => {
-                      setIsHADialogOpen(open);
-                      if (open) resetHAForm();
-                    }}>
-                      <DialogTrigger asChild>
-                        <Button>
-                          <Plus className="h-4 w-4 mr-2" />
-                          Connect Home Assistant
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Connect Home Assistant</DialogTitle>
-                          <DialogDescription>
-                            Enter your Home Assistant URL and a long-lived access token.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <div className="grid gap-4 py-4">
-                          <div className="grid gap-2">
-                            <Label htmlFor="ha-name">Name</Label>
-                            <Input
-                              id="ha-name"
-                              value={haFormData.name}
-                              onChange={(e) => setHAFormData({ ...haFormData, name: e.target.value })}
-                              placeholder="Home Assistant"
-                            />
-                          </div>
-                          <div className="grid gap-2">
-                            <Label htmlFor="ha-url">Instance URL *</Label>
-                            <Input
-                              id="ha-url"
-                              value={haFormData.instance_url}
-                              onChange={(e) => setHAFormData({ ...haFormData, instance_url: e.target.value })}
-                              placeholder="http://homeassistant.local:8123"
-                            />
-                          </div>
-                          <div className="grid gap-2">
-                            <Label htmlFor="ha-token">
-                              Long-Lived Access Token *
-                              <span className="text-xs text-muted-foreground ml-2">(not stored)</span>
-                            </Label>
-                            <div className="relative">
-                              <Input
-                                id="ha-token"
-                                type={showToken ? 'text' : 'password'}
-                                value={haToken}
-                                onChange={(e) => setHAToken(e.target.value)}
-                                placeholder="eyJ0..."
-                                className="pr-10"
-                              />
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                className="absolute right-0 top-0 h-full px-3"
-                                onClick={() => setShowToken(!showToken)}
-                              >
-                                {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                              </Button>
-                            </div>
-                            <p className="text-xs text-muted-foreground">
-                              Get this from Profile → Long-Lived Access Tokens in Home Assistant
-                            </p>
-                          </div>
+                    <Button onClick={() => openHADialog(null)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Connect Home Assistant
+                    </Button>
+                  </div>
+                )}
+
+                <Dialog open={isHADialogOpen} onOpenChange={setIsHADialogOpen}>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>
+                        {editingHAConfig ? `Edit ${editingHAConfig.name}` : 'Connect Home Assistant'}
+                      </DialogTitle>
+                      <DialogDescription>
+                        {editingHAConfig
+                          ? 'Update this Home Assistant connection.'
+                          : 'Enter your Home Assistant URL and a long-lived access token.'}
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-4">
+                      <div className="grid gap-2">
+                        <Label htmlFor="ha-name">Name</Label>
+                        <Input
+                          id="ha-name"
+                          value={haFormData.name}
+                          onChange={(e) => setHAFormData({ ...haFormData, name: e.target.value })}
+                          placeholder={haConfigs.length ? 'Cabin' : 'Home Assistant'}
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="ha-url">Instance URL *</Label>
+                        <Input
+                          id="ha-url"
+                          value={haFormData.instance_url}
+                          onChange={(e) => setHAFormData({ ...haFormData, instance_url: e.target.value })}
+                          placeholder="http://homeassistant.local:8123"
+                        />
+                      </div>
+                      <div className="grid gap-2">
+                        <Label htmlFor="ha-token">
+                          Long-Lived Access Token{hasToken ? '' : ' *'}
+                          <span className="text-xs text-muted-foreground ml-2">(stored encrypted)</span>
+                        </Label>
+                        <div className="relative">
+                          <Input
+                            id="ha-token"
+                            type={showToken ? 'text' : 'password'}
+                            value={haToken}
+                            onChange={(e) => setHAToken(e.target.value)}
+                            placeholder={hasToken ? `Saved (${editingHAConfig.token_hint}), enter a new one to rotate` : 'eyJ0...'}
+                            className="pr-10"
+                          />
                           <Button
                             type="button"
-                            variant="outline"
-                            onClick={handleTestHAConnection}
-                            disabled={isTestingConnection}
-                            className="w-full"
+                            variant="ghost"
+                            size="sm"
+                            className="absolute right-0 top-0 h-full px-3"
+                            onClick={() => setShowToken(!showToken)}
                           >
-                            {isTestingConnection ? (
-                              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                            ) : connectionStatus === 'success' ? (
-                              <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
-                            ) : connectionStatus === 'error' ? (
-                              <XCircle className="h-4 w-4 mr-2 text-red-500" />
-                            ) : null}
-                            Test Connection
+                            {showToken ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                           </Button>
                         </div>
-                        <DialogFooter>
-                          <Button variant="outline" onClick={() => setIsHADialogOpen(false)}>
-                            Cancel
-                          </Button>
-                          <Button onClick={handleSaveHAConfig}>
-                            Connect
+                        <p className="text-xs text-muted-foreground">
+                          Get this from Profile → Long-Lived Access Tokens in Home Assistant
+                        </p>
+                        {hasToken && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="justify-start px-0 text-destructive"
+                            onClick={handleRevokeHAToken}
+                          >
+                            Revoke saved token
                           </Button>
-                        </DialogFooter>
-                      </DialogContent>
-                    </Dialog>
-                  </div>
-                )}
+                        )}
+                      </div>
+                      {editingHAConfig && (
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="ha-active">Active</Label>
+                          <Switch
+                            id="ha-active"
+                            checked={haFormData.is_active}
+                            onCheckedChange={(checked) => setHAFormData({ ...haFormData, is_active: checked })}
+                          />
+                        </div>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleTestHAConnection}
+                        disabled={isTestingConnection}
+                        className="w-full"
+                      >
+                        {isTestingConnection ? (
+                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                        ) : connectionStatus === 'success' ? (
+                          <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
+                        ) : connectionStatus === 'error' ? (
+                          <XCircle className="h-4 w-4 mr-2 text-red-500" />
+                        ) : null}
+                        Test Connection
+                      </Button>
+                    </div>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsHADialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleSaveHAConfig}>
+                        {editingHAConfig ? 'Save' : 'Connect'}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
               </CardContent>
             </Card>
+
+            <RoomsCard
+              rooms={rooms}
+              instances={haConfigs}
+              countEntities={(roomId) => getEntitiesByRoom(roomId).length}
+              addRoom={addRoom}
+              updateRoom={updateRoom}
+              deleteRoom={deleteRoom}
+              isNameTaken={isNameTaken}
+            />
           </TabsContent>
 
           {/* n8n Tab */}
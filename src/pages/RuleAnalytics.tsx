@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, XAxis } from 'recharts';
+import { useRules } from '@/hooks/useRules';
+import { useRuleAnalytics } from '@/hooks/useRuleAnalytics';
+import { useSettings } from '@/hooks/useSettings';
+import { summarizeRuleExecutions, SKIP_REASONS, RuleAnalytics as RuleStats, RuleHealth, RuleSkipReason } from '@/lib/ruleAnalytics';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowLeft, BarChart3, RefreshCw } from 'lucide-react';
+
+const WINDOWS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '14', label: 'Last 14 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const HEALTH: Record<RuleHealth, { label: string; className: string; description: string }> = {
+  broken: { label: 'Broken', className: 'bg-red-500/20 text-red-400', description: 'Actions often fail' },
+  noisy: { label: 'Noisy', className: 'bg-yellow-500/20 text-yellow-400', description: 'Fires a lot or keeps hitting cooldown / daily cap' },
+  dead: { label: 'Dead', className: 'bg-orange-500/20 text-orange-400', description: 'Triggered but never fired' },
+  quiet: { label: 'Quiet', className: 'bg-muted text-muted-foreground', description: 'Not triggered in this window' },
+  healthy: { label: 'Healthy', className: 'bg-green-500/20 text-green-400', description: 'Firing and acting normally' },
+};
+
+const SKIP_LABELS: Record<RuleSkipReason, string> = {
+  cooldown: 'Cooldown',
+  daily_cap: 'Daily cap',
+  conditions: 'Conditions',
+  excluded_time: 'Excluded time',
+  excluded_room: 'Excluded room',
+  loop: 'Signal loop',
+};
+
+const chartConfig = {
+  fired: { label: 'Fired', color: 'hsl(var(--primary))' },
+  skipped: { label: 'Skipped', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function RuleAnalyticsCard({ stats }: { stats: RuleStats }) {
+  const health = HEALTH[stats.health];
+  const skipReasons = SKIP_REASONS.filter(reason => stats.skipped[reason] > 0);
+
+  return (
+    <Card className={!stats.isEnabled ? 'opacity-60' : ''}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2 flex-wrap">
+          <CardTitle className="text-base">{stats.ruleName}</CardTitle>
+          <Badge className={health.className} title={health.description}>{health.label}</Badge>
+          {!stats.isEnabled && <Badge variant="outline">disabled</Badge>}
+        </div>
+        <CardDescription>
+          {stats.evaluations} evaluations · {stats.fired} fired ({formatPercent(stats.fireRate)}) · {stats.averageFiresPerDay}/day
+          {stats.lastFiredAt && ` · last fired ${new Date(stats.lastFiredAt).toLocaleString()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {stats.evaluations > 0 && (
+          <ChartContainer config={chartConfig} className="h-32 w-full">
+            <BarChart data={stats.daily}>
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="fired" stackId="runs" fill="var(--color-fired)" />
+              <Bar dataKey="skipped" stackId="runs" fill="var(--color-skipped)" />
+            </BarChart>
+          </ChartContainer>
+        )}
+
+        {skipReasons.length > 0 && (
+          <div>
+            <p className="text-xs font-medium mb-1">Skip reasons</p>
+            <div className="flex gap-2 flex-wrap">
+              {skipReasons.map(reason => (
+                <Badge key={reason} variant="outline">
+                  {SKIP_LABELS[reason]}: {stats.skipped[reason]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {stats.actions.length > 0 && (
+          <div>
+            <p className="text-xs font-medium mb-1">Actions</p>
+            <div className="space-y-1 text-xs">
+              {stats.actions.map(action => (
+                <div key={action.type} className="flex items-center gap-2 p-2 bg-muted/50 rounded">
+                  <span className="font-medium">{action.type}</span>
+                  <span className="text-muted-foreground">
+                    {action.runs} runs · {action.failures} failed ({formatPercent(action.failureRate)})
+                  </span>
+                  {action.lastError && (
+                    <span className="text-red-400 truncate" title={action.lastError}>{action.lastError}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {stats.blockingConditions.length > 0 && (
+          <div>
+            <p className="text-xs font-medium mb-1">Conditions that blocked it most</p>
+            <div className="space-y-1 text-xs">
+              {stats.blockingConditions.slice(0, 5).map(blocker => (
+                <div key={blocker.description} className="flex justify-between gap-2 p-2 bg-muted/50 rounded">
+                  <span className="font-mono">{blocker.description}</span>
+                  <span className="text-muted-foreground shrink-0">{blocker.count}x</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const RuleAnalytics = () => {
+  const navigate = useNavigate();
+  const { rules, isLoading: rulesLoading } = useRules();
+  const { timeZone } = useSettings();
+  const [days, setDays] = useState('7');
+  const [healthFilter, setHealthFilter] = useState<RuleHealth | 'all'>('all');
+  const [refreshedAt, setRefreshedAt] = useState(() => Date.now());
+
+  // Recomputed only when the window changes or on refresh, so the fetch isn't re-run every render
+  const { from, to } = useMemo(() => {
+    const end = new Date(refreshedAt);
+    return { from: new Date(end.getTime() - Number(days) * 86400000), to: end };
+  }, [days, refreshedAt]);
+
+  const { executions, isTruncated, isLoading, error } = useRuleAnalytics(from, to);
+
+  const analytics = useMemo(
+    () => summarizeRuleExecutions(rules, executions, { from, to, timeZone }),
+    [rules, executions, from, to, timeZone]
+  );
+
+  const healthCounts = useMemo(() => {
+    const counts = Object.fromEntries(Object.keys(HEALTH).map(h => [h, 0])) as Record<RuleHealth, number>;
+    analytics.forEach(a => counts[a.health]++);
+    return counts;
+  }, [analytics]);
+
+  // Problems first, then the busiest rules
+  const order: RuleHealth[] = ['broken', 'noisy', 'dead', 'healthy', 'quiet'];
+  const visible = analytics
+    .filter(a => healthFilter === 'all' || a.health === healthFilter)
+    .sort((a, b) => order.indexOf(a.health) - order.indexOf(b.health) || b.evaluations - a.evaluations);
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/rules')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <BarChart3 className="h-6 w-6 text-ai-glow" />
+              <h1 className="text-3xl font-bold">Rule Analytics</h1>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WINDOWS.map(w => (
+                  <SelectItem key={w.value} value={w.value}>{w.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="icon" onClick={() => setRefreshedAt(Date.now())} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {/* Health summary, doubles as a filter */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-6">
+          {order.map(health => (
+            <Card
+              key={health}
+              className={`cursor-pointer ${healthFilter === health ? 'border-primary' : ''}`}
+              onClick={() => setHealthFilter(healthFilter === health ? 'all' : health)}
+            >
+              <CardContent className="p-4">
+                <p className="text-2xl font-bold">{healthCounts[health]}</p>
+                <p className="text-sm">{HEALTH[health].label}</p>
+                <p className="text-xs text-muted-foreground">{HEALTH[health].description}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {isTruncated && (
+          <p className="text-xs text-muted-foreground mb-4">
+            Too many executions to load them all; only the most recent ones are counted. Pick a shorter window for exact numbers.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        {rulesLoading || isLoading ? (
+          <p className="text-muted-foreground">Loading analytics...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-muted-foreground">
+            {rules.length === 0 ? 'No rules yet.' : 'No rules match this filter.'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visible.map(stats => (
+              <RuleAnalyticsCard key={stats.ruleId} stats={stats} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RuleAnalytics;
@@ -1,8 +1,20 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useRules, RuleInput, RuleAction, RuleCondition, Rule } from '@/hooks/useRules';
+import {
+  useRules, RuleInput, RuleAction, RuleCondition, RuleConditionGroup, RuleConditionNode, Rule,
+} from '@/hooks/useRules';
+import {
+  isConditionGroup, normalizeConditions, countConditions, describeConditions,
+} from '@/lib/ruleConditions';
+import { renderTemplateValue } from '@/lib/ruleTemplate';
+import { emitRunNow } from '@/lib/ruleEvents';
+import { analyzeRules, RuleAnalysisContext, RuleIssue } from '@/lib/ruleAnalysis';
+import { validateRuleInput } from '@/lib/ruleSchema';
 import { useGoals } from '@/hooks/useGoals';
 import { useCameras } from '@/hooks/useCameras';
+import { useTasks } from '@/hooks/useTasks';
+import { useHomeAssistant, HomeAssistantConfig } from '@/hooks/useHomeAssistant';
+import { useRooms } from '@/hooks/useRooms';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,7 +25,7 @@ import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { 
   ArrowLeft, Plus, Trash2, Zap, Play, Pause, Settings2, 
-  Clock, Eye, Home, Target, Bell, Volume2, ListTodo, ChevronDown, ChevronUp
+  Clock, Eye, Home, Target, Bell, Volume2, ListTodo, ChevronDown, ChevronUp, FlaskConical, ArrowUpDown, Radio, PlayCircle, BarChart3, History, Timer, Hourglass, AlertTriangle, Webhook
 } from 'lucide-react';
 import {
   Dialog,
@@ -37,6 +49,12 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from '@/components/ui/accordion';
+import { RuleTestDialog } from '@/components/RuleTestDialog';
+import { RuleBundleDialog } from '@/components/RuleBundleDialog';
+import { RuleVersionHistoryDialog } from '@/components/RuleVersionHistoryDialog';
+import { RuleWebhookPanel } from '@/components/RuleWebhookPanel';
+import { TemplatePreview } from '@/components/TemplatePreview';
+import { useTemplatePreviewScope } from '@/hooks/useTemplatePreviewScope';
 
 const TRIGGER_TYPES = [
   { value: 'schedule', label: 'Schedule', icon: Clock, description: 'Time-based trigger' },
@@ -45,6 +63,7 @@ const TRIGGER_TYPES = [
   { value: 'home_assistant', label: 'Home Assistant', icon: Home, description: 'Sensor/device events' },
   { value: 'camera', label: 'Camera', icon: Eye, description: 'Visual detection' },
   { value: 'manual', label: 'Manual', icon: Play, description: 'User-triggered signal' },
+  { value: 'webhook', label: 'Webhook', icon: Webhook, description: 'Signed POST from n8n or other tools' },
 ];
 
 const ACTION_TYPES = [
@@ -53,8 +72,19 @@ const ACTION_TYPES = [
   { value: 'create_task', label: 'Create Task', icon: ListTodo },
   { value: 'home_assistant', label: 'Home Assistant', icon: Home },
   { value: 'n8n_webhook', label: 'n8n Workflow', icon: Zap },
+  { value: 'emit_signal', label: 'Emit Signal', icon: Radio },
 ];
 
+// Steps that pause the action sequence; not offered for the single escalation action
+const SEQUENCE_STEP_TYPES = [
+  { value: 'delay', label: 'Delay', icon: Timer },
+  { value: 'wait_until', label: 'Wait Until', icon: Hourglass },
+];
+
+const STEP_TYPES = [...ACTION_TYPES, ...SEQUENCE_STEP_TYPES];
+
+const NEW_STEP: RuleAction = { type: 'speak', config: { message: '' } };
+
 const CATEGORIES = ['security', 'routine', 'chore', 'energy', 'health', 'custom'];
 const SEVERITIES = ['info', 'nudge', 'warning', 'urgent'];
 
@@ -89,18 +119,585 @@ const RULE_TEMPLATES = [
     ],
     explanation_template: "Because it's 9 PM - time for your evening routine.",
   },
+  {
+    name: 'Porch Light on Arrival',
+    category: 'energy',
+    trigger_type: 'home_assistant' as const,
+    trigger_config: { entity_id: 'binary_sensor.front_door', to_state: 'on' },
+    conditions: [{ type: 'time_of_day' as const, operator: 'equals' as const, value: 'night' }],
+    actions: [
+      { type: 'home_assistant' as const, config: { domain: 'light', service: 'turn_on', entity_id: 'light.porch' } },
+      { type: 'delay' as const, config: { minutes: 10 } },
+      {
+        type: 'wait_until' as const,
+        config: {
+          condition: {
+            group: 'all' as const,
+            conditions: [{ type: 'entity_state' as const, entity_id: 'binary_sensor.porch_motion', operator: 'equals' as const, value: 'off' }],
+          },
+          timeout_minutes: 30,
+        },
+      },
+      { type: 'home_assistant' as const, config: { domain: 'light', service: 'turn_off', entity_id: 'light.porch' } },
+    ],
+    explanation_template: 'Because the front door opened after dark. The light goes off once the porch is clear.',
+  },
+];
+
+const CONDITION_GROUPS: Array<{ value: RuleConditionGroup['group']; label: string }> = [
+  { value: 'all', label: 'All of (AND)' },
+  { value: 'any', label: 'Any of (OR)' },
+  { value: 'not', label: 'Not all of (NOT)' },
 ];
 
+const EMPTY_CONDITIONS: RuleConditionGroup = { group: 'all', conditions: [] };
+
+type HAInstance = Pick<HomeAssistantConfig, 'id' | 'name'>;
+
+// Datalists of the user's rooms, rendered once by the page: every room for room conditions,
+// and rooms that are Home Assistant areas for Home Assistant actions
+const ROOM_OPTIONS_ID = 'rule-room-options';
+const AREA_ROOM_OPTIONS_ID = 'rule-area-room-options';
+
+// Only shown once there is more than one instance to choose from
+function InstanceSelect({
+  instances,
+  value,
+  onChange,
+  anyLabel,
+  className,
+}: {
+  instances: HAInstance[];
+  value?: string;
+  onChange: (instanceId: string | undefined) => void;
+  anyLabel: string;
+  className?: string;
+}) {
+  if (instances.length < 2 && !value) return null;
+
+  return (
+    <Select value={value || 'any'} onValueChange={(v) => onChange(v === 'any' ? undefined : v)}>
+      <SelectTrigger className={className}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value="any">{anyLabel}</SelectItem>
+        {instances.map(instance => (
+          <SelectItem key={instance.id} value={instance.id}>{instance.name}</SelectItem>
+        ))}
+        {value && !instances.some(i => i.id === value) && (
+          <SelectItem value={value}>Removed instance</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  instances,
+}: {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+  instances: HAInstance[];
+}) {
+  return (
+    <div className="flex gap-2 items-center">
+      <Select
+        value={condition.type}
+        onValueChange={(v) => onChange({ ...condition, type: v as RuleCondition['type'] })}
+      >
+        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="idle_minutes">Idle Minutes</SelectItem>
+          <SelectItem value="time_of_day">Time of Day</SelectItem>
+          <SelectItem value="day_of_week">Day of Week</SelectItem>
+          <SelectItem value="room">Room</SelectItem>
+          <SelectItem value="entity_state">Entity State</SelectItem>
+          <SelectItem value="task_in_progress">Task Active</SelectItem>
+        </SelectContent>
+      </Select>
+      {condition.type === 'entity_state' && (
+        <>
+          <InstanceSelect
+            instances={instances}
+            value={condition.instance_id}
+            onChange={(instance_id) => onChange({ ...condition, instance_id })}
+            anyLabel="Any home"
+            className="w-32"
+          />
+          <Input
+            className="w-36"
+            placeholder="sensor.temperature"
+            value={condition.entity_id || ''}
+            onChange={(e) => onChange({ ...condition, entity_id: e.target.value })}
+          />
+          <Input
+            className="w-28"
+            placeholder="Attribute"
+            title="Compare this attribute instead of the state"
+            value={condition.attribute || ''}
+            onChange={(e) => onChange({ ...condition, attribute: e.target.value || undefined })}
+          />
+        </>
+      )}
+      <Select
+        value={condition.operator}
+        onValueChange={(v) => onChange({ ...condition, operator: v as RuleCondition['operator'] })}
+      >
+        <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="equals">=</SelectItem>
+          <SelectItem value="not_equals">≠</SelectItem>
+          <SelectItem value="greater_than">&gt;</SelectItem>
+          <SelectItem value="less_than">&lt;</SelectItem>
+          <SelectItem value="contains">contains</SelectItem>
+          <SelectItem value="in_range">between</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        className="flex-1"
+        list={condition.type === 'room' ? ROOM_OPTIONS_ID : undefined}
+        placeholder={condition.operator === 'in_range' ? 'min-max (e.g. 40-60)' : 'Value'}
+        value={String(condition.value || '')}
+        onChange={(e) => {
+          const val = isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value);
+          onChange({ ...condition, value: val });
+        }}
+      />
+      {(condition.type === 'entity_state' || condition.type === 'room') && (
+        <Input
+          type="number"
+          className="w-20"
+          placeholder="for min"
+          title="Held for at least this many minutes"
+          value={condition.time_window_minutes || ''}
+          onChange={(e) => onChange({ ...condition, time_window_minutes: parseInt(e.target.value) || undefined })}
+        />
+      )}
+      <Button variant="ghost" size="icon" onClick={onRemove}>
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
+
+// Recursive editor for AND/OR/NOT condition groups
+function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  instances,
+}: {
+  group: RuleConditionGroup;
+  onChange: (group: RuleConditionGroup) => void;
+  onRemove?: () => void;
+  instances: HAInstance[];
+}) {
+  const updateChild = (index: number, child: RuleConditionNode) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const addChild = (child: RuleConditionNode) => {
+    onChange({ ...group, conditions: [...group.conditions, child] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 items-center">
+        <Select
+          value={group.group}
+          onValueChange={(v) => onChange({ ...group, group: v as RuleConditionGroup['group'] })}
+        >
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {CONDITION_GROUPS.map(g => (
+              <SelectItem key={g.value} value={g.value}>{g.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => addChild({ type: 'idle_minutes', operator: 'greater_than', value: 10 })}
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Condition
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => addChild({ group: 'any', conditions: [] })}>
+          <Plus className="w-3 h-3 mr-1" />
+          Group
+        </Button>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto" onClick={onRemove}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        )}
+      </div>
+      {group.conditions.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          {onRemove ? 'Empty group (ignored)' : 'No conditions (always fire)'}
+        </p>
+      )}
+      {group.conditions.map((node, i) => (
+        isConditionGroup(node) ? (
+          <div key={i} className="border-l-2 border-border pl-3">
+            <ConditionGroupEditor
+              group={node}
+              onChange={(child) => updateChild(i, child)}
+              onRemove={() => removeChild(i)}
+              instances={instances}
+            />
+          </div>
+        ) : (
+          <ConditionRow
+            key={i}
+            condition={node}
+            onChange={(child) => updateChild(i, child)}
+            onRemove={() => removeChild(i)}
+            instances={instances}
+          />
+        )
+      ))}
+    </div>
+  );
+}
+
+// n8n payload_template as editable JSON; kept as text until it parses
+function PayloadTemplateField({
+  value,
+  onChange,
+}: {
+  value?: Record<string, unknown>;
+  onChange: (value: Record<string, unknown> | undefined) => void;
+}) {
+  const [text, setText] = useState(value ? JSON.stringify(value, null, 2) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(next);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Expected a JSON object');
+      setError(null);
+      onChange(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="grid gap-1">
+      <Textarea
+        className="font-mono text-xs"
+        placeholder={'Payload template (JSON), e.g. {"text": "{rule.name}: {task.title}"}'}
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Type-specific config inputs, shared by the action list and the escalation action
+function ActionConfigFields({
+  action,
+  onChange,
+  previewScope,
+  instances,
+}: {
+  action: RuleAction;
+  onChange: (config: RuleAction['config']) => void;
+  previewScope: Record<string, unknown> | null;
+  instances: HAInstance[];
+}) {
+  return (
+    <>
+      {(action.type === 'speak' || action.type === 'notify') && (
+        <div className="grid gap-1">
+          <Input
+            placeholder="Message to speak/notify"
+            value={action.config.message || ''}
+            onChange={(e) => onChange({ ...action.config, message: e.target.value })}
+          />
+          <TemplatePreview template={action.config.message} scope={previewScope} />
+        </div>
+      )}
+
+      {action.type === 'create_task' && (
+        <div className="grid gap-2">
+          <Input
+            placeholder="Task title"
+            value={action.config.title || ''}
+            onChange={(e) => onChange({ ...action.config, title: e.target.value })}
+          />
+          <TemplatePreview template={action.config.title} scope={previewScope} />
+          <Input
+            placeholder="Description (optional)"
+            value={action.config.description || ''}
+            onChange={(e) => onChange({ ...action.config, description: e.target.value || undefined })}
+          />
+          <TemplatePreview template={action.config.description} scope={previewScope} />
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={action.config.priority || 'medium'}
+              onValueChange={(v) => onChange({ ...action.config, priority: v })}
+            >
+              <SelectTrigger><SelectValue placeholder="Priority" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="urgent">Urgent</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              placeholder="Due in (min)"
+              value={action.config.due_in_minutes || ''}
+              onChange={(e) => onChange({ ...action.config, due_in_minutes: parseInt(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {action.type === 'home_assistant' && (
+        <div className="grid grid-cols-3 gap-2">
+          <InstanceSelect
+            instances={instances}
+            value={action.config.instance_id}
+            onChange={(instance_id) => onChange({ ...action.config, instance_id })}
+            anyLabel="First active home"
+            className="col-span-3"
+          />
+          <Input
+            placeholder="Domain (light)"
+            value={action.config.domain || ''}
+            onChange={(e) => onChange({ ...action.config, domain: e.target.value })}
+          />
+          <Input
+            placeholder="Service (turn_on)"
+            value={action.config.service || ''}
+            onChange={(e) => onChange({ ...action.config, service: e.target.value })}
+          />
+          <Input
+            placeholder="Entity ID"
+            value={action.config.entity_id || ''}
+            onChange={(e) => onChange({ ...action.config, entity_id: e.target.value })}
+          />
+          <Input
+            className="col-span-3"
+            list={AREA_ROOM_OPTIONS_ID}
+            placeholder="Room (its Home Assistant area), or current"
+            value={action.config.room || ''}
+            onChange={(e) => onChange({ ...action.config, room: e.target.value || undefined })}
+          />
+        </div>
+      )}
+
+      {action.type === 'n8n_webhook' && (
+        <div className="grid gap-2">
+          <Input
+            placeholder="Webhook URL"
+            value={action.config.webhook_url || ''}
+            onChange={(e) => onChange({ ...action.config, webhook_url: e.target.value })}
+          />
+          <PayloadTemplateField
+            value={action.config.payload_template}
+            onChange={(payload_template) => onChange({ ...action.config, payload_template })}
+          />
+          {action.config.payload_template && previewScope && (
+            <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
+              Preview: {JSON.stringify(renderTemplateValue(action.config.payload_template, previewScope), null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+
+      {action.type === 'emit_signal' && (
+        <div className="grid gap-1">
+          <Input
+            placeholder="Signal name (fires manual rules listening for it)"
+            value={action.config.signal_name || ''}
+            onChange={(e) => onChange({ ...action.config, signal_name: e.target.value })}
+          />
+        </div>
+      )}
+
+      {action.type === 'delay' && (
+        <div className="flex gap-2 items-center">
+          <span className="text-xs text-muted-foreground">Wait</span>
+          <Input
+            type="number"
+            className="w-24"
+            value={action.config.minutes || ''}
+            onChange={(e) => onChange({ ...action.config, minutes: parseInt(e.target.value) || undefined })}
+          />
+          <span className="text-xs text-muted-foreground">minutes before the next step</span>
+        </div>
+      )}
+
+      {action.type === 'wait_until' && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Continue once these conditions hold (checked every minute)</p>
+          <ConditionGroupEditor
+            group={action.config.condition || EMPTY_CONDITIONS}
+            onChange={(condition) => onChange({ ...action.config, condition })}
+            instances={instances}
+          />
+          <div className="flex gap-2 items-center">
+            <span className="text-xs text-muted-foreground">Give up after</span>
+            <Input
+              type="number"
+              className="w-24"
+              placeholder="60"
+              value={action.config.timeout_minutes || ''}
+              onChange={(e) => onChange({ ...action.config, timeout_minutes: parseInt(e.target.value) || undefined })}
+            />
+            <span className="text-xs text-muted-foreground">minutes and run these steps instead of the rest:</span>
+          </div>
+          <div className="border-l-2 border-border pl-3">
+            <ActionStepsEditor
+              steps={action.config.on_timeout || []}
+              onChange={(on_timeout) => onChange({ ...action.config, on_timeout: on_timeout.length ? on_timeout : undefined })}
+              previewScope={previewScope}
+              instances={instances}
+              nested
+            />
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Ordered action steps; also used for a wait_until's timeout steps
+function ActionStepsEditor({
+  steps,
+  onChange,
+  previewScope,
+  instances,
+  nested = false,
+}: {
+  steps: RuleAction[];
+  onChange: (steps: RuleAction[]) => void;
+  previewScope: Record<string, unknown> | null;
+  instances: HAInstance[];
+  nested?: boolean;
+}) {
+  const updateStep = (index: number, updates: Partial<RuleAction>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.map((action, i) => (
+        <div key={i} className="border rounded-lg p-3 space-y-2">
+          <div className="flex gap-2 items-center">
+            <Select
+              value={action.type}
+              onValueChange={(v) => updateStep(i, { type: v as RuleAction['type'], config: {} })}
+            >
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {STEP_TYPES.map(a => (
+                  <SelectItem key={a.value} value={a.value}>
+                    <div className="flex items-center gap-2">
+                      <a.icon className="w-3 h-3" />
+                      {a.label}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {action.type !== 'delay' && action.type !== 'wait_until' && (
+              <div className="flex items-center gap-2" title="Otherwise a failure stops the remaining steps">
+                <Switch
+                  checked={action.continue_on_error || false}
+                  onCheckedChange={(checked) => updateStep(i, { continue_on_error: checked || undefined })}
+                />
+                <span className="text-xs text-muted-foreground">Continue on error</span>
+              </div>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => removeStep(i)}>
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+
+          <ActionConfigFields
+            action={action}
+            onChange={(config) => updateStep(i, { config })}
+            previewScope={previewScope}
+            instances={instances}
+          />
+        </div>
+      ))}
+      {nested && (
+        <Button variant="ghost" size="sm" onClick={() => onChange([...steps, NEW_STEP])}>
+          <Plus className="w-3 h-3 mr-1" />
+          Step
+        </Button>
+      )}
+    </div>
+  );
+}
+
+const ISSUE_LABELS: Record<RuleIssue['kind'], string> = {
+  conflict: 'Conflict',
+  never_fires: 'Never fires',
+  missing_reference: 'Missing',
+};
+
+function RuleIssueList({ issues }: { issues: RuleIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="p-2 bg-yellow-500/10 rounded space-y-1 text-xs">
+      {issues.map((issue, i) => (
+        <div key={i} className="flex items-start gap-1">
+          <AlertTriangle className="w-3 h-3 text-yellow-500 shrink-0 mt-0.5" />
+          <span>
+            <span className="font-medium">{ISSUE_LABELS[issue.kind]}:</span> {issue.message}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function Rules() {
   const navigate = useNavigate();
-  const { rules, isLoading, addRule, updateRule, deleteRule, toggleRule } = useRules();
-  const { goals } = useGoals();
-  const { cameras } = useCameras();
+  const {
+    rules, brokenRules, isLoading, addRule, updateRule, deleteRule, toggleRule, testRule, backtestRule, importRules, exportRules,
+    getRuleVersions, rollbackRule,
+  } = useRules();
+  const { goals, isLoading: goalsLoading } = useGoals();
+  const { cameras, isLoading: camerasLoading } = useCameras();
+  const { tasks, isLoading: tasksLoading } = useTasks();
+  const { configs: haInstances, entities } = useHomeAssistant();
+  const { rooms } = useRooms();
   const { toast } = useToast();
   
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<Rule | null>(null);
   const [expandedRules, setExpandedRules] = useState<Set<string>>(new Set());
+  const [testingRule, setTestingRule] = useState<(RuleInput & Partial<Rule>) | null>(null);
+  const [isBundleDialogOpen, setIsBundleDialogOpen] = useState(false);
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null);
   
   // Form state
   const [formData, setFormData] = useState<RuleInput>({
@@ -110,11 +707,34 @@ export default function Rules() {
     severity: 'info',
     trigger_type: 'schedule',
     trigger_config: {},
-    conditions: [],
+    conditions: EMPTY_CONDITIONS,
     actions: [],
     cooldown_minutes: 30,
     explanation_template: '',
   });
+  const previewScope = useTemplatePreviewScope(formData, isDialogOpen);
+
+  // Lists still loading, and entities before Home Assistant has synced, aren't checked for deleted references
+  const analysisContext = useMemo<RuleAnalysisContext>(() => ({
+    existing: {
+      ...(!goalsLoading && { goal_id: goals.map(g => g.id) }),
+      ...(!camerasLoading && { camera_id: cameras.map(c => c.id) }),
+      ...(!tasksLoading && { task_id: tasks.map(t => t.id) }),
+      ...(entities.length > 0 && { entity_id: entities.map(e => e.entity_id) }),
+      ...(haInstances.length > 0 && { instance_id: haInstances.map(c => c.id) }),
+    },
+    taskTitles: Object.fromEntries(tasks.map(t => [t.id, t.title])),
+  }), [goals, goalsLoading, cameras, camerasLoading, tasks, tasksLoading, entities, haInstances]);
+
+  const ruleIssues = useMemo(() => analyzeRules(rules, analysisContext), [rules, analysisContext]);
+
+  // The rule being edited, checked against the other saved rules
+  const draftIssues = useMemo(() => {
+    if (!isDialogOpen) return [];
+    const draft = editingRule ? { ...editingRule, ...formData } : { ...formData, id: 'draft' };
+    return analyzeRules([...rules.filter(r => r.id !== draft.id), draft], analysisContext)
+      .filter(issue => issue.ruleIds.includes(draft.id));
+  }, [isDialogOpen, editingRule, formData, rules, analysisContext]);
 
   const resetForm = () => {
     setFormData({
@@ -124,7 +744,7 @@ export default function Rules() {
       severity: 'info',
       trigger_type: 'schedule',
       trigger_config: {},
-      conditions: [],
+      conditions: EMPTY_CONDITIONS,
       actions: [],
       cooldown_minutes: 30,
       explanation_template: '',
@@ -141,6 +761,11 @@ export default function Rules() {
       toast({ title: 'Error', description: 'At least one action is required', variant: 'destructive' });
       return;
     }
+    const issues = validateRuleInput(formData);
+    if (issues.length) {
+      toast({ title: 'Invalid rule', description: issues.join('\n'), variant: 'destructive' });
+      return;
+    }
 
     if (editingRule) {
       const result = await updateRule(editingRule.id, formData);
@@ -171,6 +796,9 @@ export default function Rules() {
       cooldown_minutes: rule.cooldown_minutes,
       max_fires_per_day: rule.max_fires_per_day,
       explanation_template: rule.explanation_template,
+      escalation_enabled: rule.escalation_enabled,
+      escalation_after_minutes: rule.escalation_after_minutes,
+      escalation_action: rule.escalation_action,
       excluded_rooms: rule.excluded_rooms,
     });
     setEditingRule(rule);
@@ -186,6 +814,11 @@ export default function Rules() {
     await toggleRule(id);
   };
 
+  const handleRunNow = (rule: Rule) => {
+    emitRunNow(rule.id, 'ui');
+    toast({ title: 'Rule triggered', description: rule.name });
+  };
+
   const applyTemplate = (template: typeof RULE_TEMPLATES[0]) => {
     setFormData({
       ...formData,
@@ -193,7 +826,7 @@ export default function Rules() {
       category: template.category,
       trigger_type: template.trigger_type,
       trigger_config: template.trigger_config,
-      conditions: template.conditions,
+      conditions: normalizeConditions(template.conditions),
       actions: template.actions,
       explanation_template: template.explanation_template,
     });
@@ -202,34 +835,7 @@ export default function Rules() {
   const addAction = () => {
     setFormData({
       ...formData,
-      actions: [...formData.actions, { type: 'speak', config: { message: '' } }],
-    });
-  };
-
-  const removeAction = (index: number) => {
-    setFormData({
-      ...formData,
-      actions: formData.actions.filter((_, i) => i !== index),
-    });
-  };
-
-  const updateAction = (index: number, updates: Partial<RuleAction>) => {
-    const newActions = [...formData.actions];
-    newActions[index] = { ...newActions[index], ...updates };
-    setFormData({ ...formData, actions: newActions });
-  };
-
-  const addCondition = () => {
-    setFormData({
-      ...formData,
-      conditions: [...(formData.conditions || []), { type: 'idle_minutes', operator: 'greater_than', value: 10 }],
-    });
-  };
-
-  const removeCondition = (index: number) => {
-    setFormData({
-      ...formData,
-      conditions: (formData.conditions || []).filter((_, i) => i !== index),
+      actions: [...formData.actions, NEW_STEP],
     });
   };
 
@@ -259,6 +865,13 @@ export default function Rules() {
 
   return (
     <div className="min-h-screen bg-background p-6">
+      <datalist id={ROOM_OPTIONS_ID}>
+        {rooms.map(r => <option key={r.id} value={r.name} />)}
+      </datalist>
+      <datalist id={AREA_ROOM_OPTIONS_ID}>
+        <option value="current">The room the user is in</option>
+        {rooms.filter(r => r.ha_area_id).map(r => <option key={r.id} value={r.name} />)}
+      </datalist>
       <div className="max-w-6xl mx-auto">
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
@@ -272,6 +885,16 @@ export default function Rules() {
             </div>
           </div>
           
+          <Button variant="outline" className="ml-auto mr-2" onClick={() => navigate('/rules/analytics')}>
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Analytics
+          </Button>
+
+          <Button variant="outline" className="mr-2" onClick={() => setIsBundleDialogOpen(true)}>
+            <ArrowUpDown className="h-4 w-4 mr-2" />
+            Import / Export
+          </Button>
+
           <Dialog open={isDialogOpen} onOpenChange={(open) => {
             setIsDialogOpen(open);
             if (!open) resetForm();
@@ -381,14 +1004,113 @@ export default function Rules() {
                     </Select>
 
                     {formData.trigger_type === 'schedule' && (
-                      <Input
-                        placeholder="Cron expression (e.g., */5 * * * *)"
-                        value={(formData.trigger_config as Record<string, string>).cron || ''}
-                        onChange={(e) => setFormData({
-                          ...formData,
-                          trigger_config: { ...formData.trigger_config, cron: e.target.value }
-                        })}
-                      />
+                      <div className="space-y-2">
+                        <Input
+                          placeholder="Cron expression (e.g., */5 * * * *)"
+                          value={formData.trigger_config.cron || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, cron: e.target.value }
+                          })}
+                        />
+                        <div className="grid grid-cols-3 gap-2">
+                          <Input
+                            placeholder={`Timezone (e.g., ${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+                            value={formData.trigger_config.timezone || ''}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              trigger_config: { ...formData.trigger_config, timezone: e.target.value || undefined }
+                            })}
+                          />
+                          <Select
+                            value={formData.trigger_config.catch_up || 'latest'}
+                            onValueChange={(v) => setFormData({
+                              ...formData,
+                              trigger_config: { ...formData.trigger_config, catch_up: v as 'skip' | 'latest' | 'all' }
+                            })}
+                          >
+                            <SelectTrigger><SelectValue placeholder="Missed runs" /></SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="latest">Missed: fire latest</SelectItem>
+                              <SelectItem value="all">Missed: fire all</SelectItem>
+                              <SelectItem value="skip">Missed: skip</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            placeholder="Catch-up window (min)"
+                            value={formData.trigger_config.catch_up_window_minutes ?? ''}
+                            onChange={(e) => setFormData({
+                              ...formData,
+                              trigger_config: {
+                                ...formData.trigger_config,
+                                catch_up_window_minutes: e.target.value ? parseInt(e.target.value) : undefined
+                              }
+                            })}
+                          />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Evaluated every minute in the given timezone (your timezone from Settings if empty). Runs missed while the scheduler was down are caught up within the window (default 60 min).
+                        </p>
+                      </div>
+                    )}
+
+                    {formData.trigger_type === 'home_assistant' && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <InstanceSelect
+                          instances={haInstances}
+                          value={formData.trigger_config.instance_id}
+                          onChange={(instance_id) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, instance_id }
+                          })}
+                          anyLabel="Any home"
+                          className="col-span-3"
+                        />
+                        <Input
+                          className="col-span-3"
+                          placeholder="Entity ID (e.g., binary_sensor.front_door)"
+                          value={formData.trigger_config.entity_id || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, entity_id: e.target.value }
+                          })}
+                        />
+                        <Input
+                          placeholder="From state"
+                          value={formData.trigger_config.from_state || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, from_state: e.target.value }
+                          })}
+                        />
+                        <Input
+                          placeholder="To state"
+                          value={formData.trigger_config.to_state || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, to_state: e.target.value }
+                          })}
+                        />
+                        <div />
+                        <Input
+                          placeholder="Attribute (optional)"
+                          value={formData.trigger_config.attribute || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, attribute: e.target.value }
+                          })}
+                        />
+                        <Input
+                          placeholder="Attribute value"
+                          disabled={!formData.trigger_config.attribute}
+                          value={formData.trigger_config.attribute_value || ''}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            trigger_config: { ...formData.trigger_config, attribute_value: e.target.value }
+                          })}
+                        />
+                      </div>
                     )}
 
                     {formData.trigger_type === 'task_state' && (
@@ -429,78 +1151,27 @@ export default function Rules() {
                         })}
                       />
                     )}
+
+                    {formData.trigger_type === 'webhook' && (
+                      <RuleWebhookPanel ruleId={editingRule?.trigger_type === 'webhook' ? editingRule.id : null} />
+                    )}
                   </CardContent>
                 </Card>
 
                 {/* IF: Conditions */}
                 <Card>
                   <CardHeader className="pb-3">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-sm flex items-center gap-2">
-                        <Settings2 className="w-4 h-4" />
-                        IF (Conditions)
-                      </CardTitle>
-                      <Button variant="ghost" size="sm" onClick={addCondition}>
-                        <Plus className="w-3 h-3 mr-1" />
-                        Add
-                      </Button>
-                    </div>
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Settings2 className="w-4 h-4" />
+                      IF (Conditions)
+                    </CardTitle>
                   </CardHeader>
-                  <CardContent className="space-y-2">
-                    {(formData.conditions || []).length === 0 && (
-                      <p className="text-xs text-muted-foreground">No conditions (always fire)</p>
-                    )}
-                    {(formData.conditions || []).map((condition, i) => (
-                      <div key={i} className="flex gap-2 items-center">
-                        <Select
-                          value={condition.type}
-                          onValueChange={(v) => {
-                            const newConditions = [...(formData.conditions || [])];
-                            newConditions[i] = { ...condition, type: v as RuleCondition['type'] };
-                            setFormData({ ...formData, conditions: newConditions });
-                          }}
-                        >
-                          <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="idle_minutes">Idle Minutes</SelectItem>
-                            <SelectItem value="time_of_day">Time of Day</SelectItem>
-                            <SelectItem value="day_of_week">Day of Week</SelectItem>
-                            <SelectItem value="room">Room</SelectItem>
-                            <SelectItem value="task_in_progress">Task Active</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <Select
-                          value={condition.operator}
-                          onValueChange={(v) => {
-                            const newConditions = [...(formData.conditions || [])];
-                            newConditions[i] = { ...condition, operator: v as RuleCondition['operator'] };
-                            setFormData({ ...formData, conditions: newConditions });
-                          }}
-                        >
-                          <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="equals">=</SelectItem>
-                            <SelectItem value="not_equals">≠</SelectItem>
-                            <SelectItem value="greater_than">&gt;</SelectItem>
-                            <SelectItem value="less_than">&lt;</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <Input
-                          className="flex-1"
-                          placeholder="Value"
-                          value={String(condition.value || '')}
-                          onChange={(e) => {
-                            const newConditions = [...(formData.conditions || [])];
-                            const val = isNaN(Number(e.target.value)) ? e.target.value : Number(e.target.value);
-                            newConditions[i] = { ...condition, value: val };
-                            setFormData({ ...formData, conditions: newConditions });
-                          }}
-                        />
-                        <Button variant="ghost" size="icon" onClick={() => removeCondition(i)}>
-                          <Trash2 className="w-3 h-3" />
-                        </Button>
-                      </div>
-                    ))}
+                  <CardContent>
+                    <ConditionGroupEditor
+                      group={formData.conditions || EMPTY_CONDITIONS}
+                      onChange={(conditions) => setFormData({ ...formData, conditions })}
+                      instances={haInstances}
+                    />
                   </CardContent>
                 </Card>
 
@@ -522,97 +1193,17 @@ export default function Rules() {
                     {formData.actions.length === 0 && (
                       <p className="text-xs text-muted-foreground">Add at least one action</p>
                     )}
-                    {formData.actions.map((action, i) => (
-                      <div key={i} className="border rounded-lg p-3 space-y-2">
-                        <div className="flex gap-2 items-center">
-                          <Select
-                            value={action.type}
-                            onValueChange={(v) => updateAction(i, { type: v as RuleAction['type'], config: {} })}
-                          >
-                            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
-                            <SelectContent>
-                              {ACTION_TYPES.map(a => (
-                                <SelectItem key={a.value} value={a.value}>
-                                  <div className="flex items-center gap-2">
-                                    <a.icon className="w-3 h-3" />
-                                    {a.label}
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <Button variant="ghost" size="icon" onClick={() => removeAction(i)}>
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
-                        </div>
-
-                        {(action.type === 'speak' || action.type === 'notify') && (
-                          <Input
-                            placeholder="Message to speak/notify"
-                            value={action.config.message || ''}
-                            onChange={(e) => updateAction(i, { config: { ...action.config, message: e.target.value } })}
-                          />
-                        )}
-
-                        {action.type === 'create_task' && (
-                          <div className="grid gap-2">
-                            <Input
-                              placeholder="Task title"
-                              value={action.config.title || ''}
-                              onChange={(e) => updateAction(i, { config: { ...action.config, title: e.target.value } })}
-                            />
-                            <div className="grid grid-cols-2 gap-2">
-                              <Select
-                                value={action.config.priority || 'medium'}
-                                onValueChange={(v) => updateAction(i, { config: { ...action.config, priority: v } })}
-                              >
-                                <SelectTrigger><SelectValue placeholder="Priority" /></SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="low">Low</SelectItem>
-                                  <SelectItem value="medium">Medium</SelectItem>
-                                  <SelectItem value="high">High</SelectItem>
-                                  <SelectItem value="urgent">Urgent</SelectItem>
-                                </SelectContent>
-                              </Select>
-                              <Input
-                                type="number"
-                                placeholder="Due in (min)"
-                                value={action.config.due_in_minutes || ''}
-                                onChange={(e) => updateAction(i, { config: { ...action.config, due_in_minutes: parseInt(e.target.value) } })}
-                              />
-                            </div>
-                          </div>
-                        )}
-
-                        {action.type === 'home_assistant' && (
-                          <div className="grid grid-cols-3 gap-2">
-                            <Input
-                              placeholder="Domain (light)"
-                              value={action.config.domain || ''}
-                              onChange={(e) => updateAction(i, { config: { ...action.config, domain: e.target.value } })}
-                            />
-                            <Input
-                              placeholder="Service (turn_on)"
-                              value={action.config.service || ''}
-                              onChange={(e) => updateAction(i, { config: { ...action.config, service: e.target.value } })}
-                            />
-                            <Input
-                              placeholder="Entity ID"
-                              value={action.config.entity_id || ''}
-                              onChange={(e) => updateAction(i, { config: { ...action.config, entity_id: e.target.value } })}
-                            />
-                          </div>
-                        )}
-
-                        {action.type === 'n8n_webhook' && (
-                          <Input
-                            placeholder="Webhook URL"
-                            value={action.config.webhook_url || ''}
-                            onChange={(e) => updateAction(i, { config: { ...action.config, webhook_url: e.target.value } })}
-                          />
-                        )}
-                      </div>
-                    ))}
+                    {formData.actions.length > 1 && (
+                      <p className="text-xs text-muted-foreground">
+                        Steps run in order. Delay and Wait Until pause the steps after them; a failed step stops the rest unless it continues on error.
+                      </p>
+                    )}
+                    <ActionStepsEditor
+                      steps={formData.actions}
+                      onChange={(actions) => setFormData({ ...formData, actions })}
+                      previewScope={previewScope}
+                      instances={haInstances}
+                    />
                   </CardContent>
                 </Card>
 
@@ -621,15 +1212,18 @@ export default function Rules() {
                   <CardHeader className="pb-3">
                     <CardTitle className="text-sm">BECAUSE (Explanation)</CardTitle>
                     <CardDescription className="text-xs">
-                      Template shown to user. Use {'{idle_minutes}'}, {'{room}'}, etc.
+                      Template shown to user. Use {'{idle_minutes}'}, {'{room}'}, {'{task.title}'},
+                      {' '}{'{states.sensor.x}'}, {"{now | date:'HH:mm'}"}, {"{activity | default:'...'}"},
+                      {' '}{'{#if idle_minutes > 30}...{#else}...{/if}'}. Messages and task titles take the same syntax.
                     </CardDescription>
                   </CardHeader>
-                  <CardContent>
+                  <CardContent className="space-y-1">
                     <Textarea
                       placeholder="Because you've been idle for {idle_minutes} minutes..."
                       value={formData.explanation_template || ''}
                       onChange={(e) => setFormData({ ...formData, explanation_template: e.target.value })}
                     />
+                    <TemplatePreview template={formData.explanation_template} scope={previewScope} />
                   </CardContent>
                 </Card>
 
@@ -640,8 +1234,12 @@ export default function Rules() {
                     <Input
                       type="number"
                       value={formData.cooldown_minutes || 30}
+                      disabled={formData.trigger_type === 'schedule'}
                       onChange={(e) => setFormData({ ...formData, cooldown_minutes: parseInt(e.target.value) || 30 })}
                     />
+                    {formData.trigger_type === 'schedule' && (
+                      <p className="text-xs text-muted-foreground">Schedule rules fire on every cron occurrence</p>
+                    )}
                   </div>
                   <div className="grid gap-2">
                     <Label>Max fires per day</Label>
@@ -653,16 +1251,121 @@ export default function Rules() {
                     />
                   </div>
                 </div>
+
+                {/* Escalation */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-sm flex items-center gap-2">
+                        <Bell className="w-4 h-4" />
+                        Escalation
+                      </CardTitle>
+                      <Switch
+                        checked={formData.escalation_enabled || false}
+                        onCheckedChange={(checked) => setFormData({
+                          ...formData,
+                          escalation_enabled: checked,
+                          escalation_after_minutes: formData.escalation_after_minutes || 10,
+                          escalation_action: formData.escalation_action || { type: 'notify', config: { message: '', severity: 'urgent' } },
+                        })}
+                      />
+                    </div>
+                    <CardDescription className="text-xs">
+                      If a notification from this rule isn't acknowledged in time, run a follow-up action
+                    </CardDescription>
+                  </CardHeader>
+                  {formData.escalation_enabled && formData.escalation_action && (
+                    <CardContent className="space-y-2">
+                      <div className="flex gap-2 items-center">
+                        <span className="text-xs text-muted-foreground">After</span>
+                        <Input
+                          type="number"
+                          className="w-20"
+                          value={formData.escalation_after_minutes || ''}
+                          onChange={(e) => setFormData({ ...formData, escalation_after_minutes: parseInt(e.target.value) || undefined })}
+                        />
+                        <span className="text-xs text-muted-foreground">min unacknowledged</span>
+                        <Select
+                          value={formData.escalation_action.type}
+                          onValueChange={(v) => setFormData({
+                            ...formData,
+                            escalation_action: { type: v as RuleAction['type'], config: {} },
+                          })}
+                        >
+                          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {ACTION_TYPES.map(a => (
+                              <SelectItem key={a.value} value={a.value}>
+                                <div className="flex items-center gap-2">
+                                  <a.icon className="w-3 h-3" />
+                                  {a.label}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <ActionConfigFields
+                        action={formData.escalation_action}
+                        onChange={(config) => setFormData({
+                          ...formData,
+                          escalation_action: { ...formData.escalation_action!, config },
+                        })}
+                        previewScope={previewScope}
+                        instances={haInstances}
+                      />
+                    </CardContent>
+                  )}
+                </Card>
               </div>
 
+              <RuleIssueList issues={draftIssues} />
+
               <DialogFooter>
                 <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setTestingRule(editingRule ? { ...editingRule, ...formData } : formData)}
+                >
+                  <FlaskConical className="w-4 h-4 mr-2" />
+                  Test
+                </Button>
                 <Button onClick={handleSubmit}>{editingRule ? 'Update' : 'Create'} Rule</Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
         </div>
 
+        {/* Stored rules the schema rejects; the engine skips them */}
+        {brokenRules.length > 0 && (
+          <Card className="mb-4 border-destructive/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                Broken rules
+              </CardTitle>
+              <CardDescription>
+                These rules are not valid, so they never run. Delete them, or fix them in a bundle and import it again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {brokenRules.map(rule => (
+                <div key={rule.id} className="flex items-start justify-between gap-2 p-2 bg-destructive/10 rounded">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{rule.name}</p>
+                    {rule.issues.map((issue, i) => (
+                      <p key={i} className="text-xs font-mono">{issue}</p>
+                    ))}
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id, rule.name)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Rules List */}
         {isLoading ? (
           <p className="text-muted-foreground">Loading rules...</p>
@@ -683,6 +1386,7 @@ export default function Rules() {
             {rules.map(rule => {
               const TriggerIcon = getTriggerIcon(rule.trigger_type);
               const isExpanded = expandedRules.has(rule.id);
+              const issues = ruleIssues.filter(issue => issue.ruleIds.includes(rule.id));
               
               return (
                 <Card key={rule.id} className={!rule.is_enabled ? 'opacity-50' : ''}>
@@ -703,12 +1407,17 @@ export default function Rules() {
                         {rule.description && (
                           <p className="text-sm text-muted-foreground mb-2">{rule.description}</p>
                         )}
+                        {issues.length > 0 && (
+                          <div className="mb-2">
+                            <RuleIssueList issues={issues} />
+                          </div>
+                        )}
                         
                         {/* Collapsed summary */}
                         {!isExpanded && (
                           <div className="text-xs text-muted-foreground">
                             <span className="font-medium">WHEN:</span> {rule.trigger_type} | 
-                            <span className="font-medium ml-1">IF:</span> {rule.conditions.length} conditions | 
+                            <span className="font-medium ml-1">IF:</span> {countConditions(rule.conditions)} conditions | 
                             <span className="font-medium ml-1">THEN:</span> {rule.actions.length} actions
                           </div>
                         )}
@@ -724,12 +1433,10 @@ export default function Rules() {
                                 </span>
                               )}
                             </div>
-                            {rule.conditions.length > 0 && (
+                            {countConditions(rule.conditions) > 0 && (
                               <div className="p-2 bg-muted/50 rounded">
                                 <span className="font-medium">IF:</span>
-                                {rule.conditions.map((c, i) => (
-                                  <span key={i} className="ml-1">{c.type} {c.operator} {String(c.value)}{i < rule.conditions.length - 1 ? ' AND' : ''}</span>
-                                ))}
+                                <span className="ml-1">{describeConditions(rule.conditions)}</span>
                               </div>
                             )}
                             <div className="p-2 bg-muted/50 rounded">
@@ -755,6 +1462,15 @@ export default function Rules() {
                           checked={rule.is_enabled}
                           onCheckedChange={() => handleToggle(rule.id)}
                         />
+                        <Button variant="ghost" size="icon" title="Run now" onClick={() => handleRunNow(rule)}>
+                          <PlayCircle className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setTestingRule(rule)}>
+                          <FlaskConical className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setHistoryRuleId(rule.id)}>
+                          <History className="h-4 w-4" />
+                        </Button>
                         <Button variant="ghost" size="icon" onClick={() => handleEdit(rule)}>
                           <Settings2 className="h-4 w-4" />
                         </Button>
@@ -770,6 +1486,30 @@ export default function Rules() {
           </div>
         )}
       </div>
+
+      <RuleTestDialog
+        rule={testingRule}
+        open={testingRule !== null}
+        onOpenChange={(open) => !open && setTestingRule(null)}
+        testRule={testRule}
+        backtestRule={backtestRule}
+      />
+
+      <RuleVersionHistoryDialog
+        rule={rules.find(r => r.id === historyRuleId) ?? null}
+        open={historyRuleId !== null}
+        onOpenChange={(open) => !open && setHistoryRuleId(null)}
+        getRuleVersions={getRuleVersions}
+        rollbackRule={rollbackRule}
+      />
+
+      <RuleBundleDialog
+        open={isBundleDialogOpen}
+        onOpenChange={setIsBundleDialogOpen}
+        rules={rules}
+        exportRules={exportRules}
+        importRules={importRules}
+      />
     </div>
   );
 }
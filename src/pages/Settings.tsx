@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSettings, WebhookSettings, ConversationalAISettings, ConversationalAIType } from '@/hooks/useSettings';
+import { getBrowserTimeZone, isValidTimeZone, formatLocalDateTime } from '@/lib/time';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,7 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Plus, Trash2, Settings as SettingsIcon, Volume2, Mic, ChevronDown, Bot, Sparkles, Brain } from 'lucide-react';
+import { ArrowLeft, Plus, Trash2, Settings as SettingsIcon, Volume2, Mic, ChevronDown, Bot, Sparkles, Brain, Globe } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -38,6 +39,10 @@ const conversationalAISchema = z.object({
 type WebhookFormData = z.infer<typeof webhookSchema>;
 type ConversationalAIFormData = z.infer<typeof conversationalAISchema>;
 
+// Intl.supportedValuesOf is newer than our TS lib target
+const supportedTimeZones: string[] =
+  (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+
 export default function Settings() {
   const navigate = useNavigate();
   const { 
@@ -47,7 +52,9 @@ export default function Settings() {
     saveConversationalAI, 
     deleteConversationalAI,
     clearAllSettings, 
-    updateVoiceSettings 
+    updateVoiceSettings,
+    timeZone,
+    updateTimeZone,
   } = useSettings();
   const { toast } = useToast();
   
@@ -55,6 +62,7 @@ export default function Settings() {
   const [isEditingAI, setIsEditingAI] = useState<string | null>(null);
   const [isWebhookFormOpen, setIsWebhookFormOpen] = useState(false);
   const [isAIFormOpen, setIsAIFormOpen] = useState(false);
+  const [timeZoneInput, setTimeZoneInput] = useState<string | null>(null);
 
   const webhookForm = useForm<WebhookFormData>({
     resolver: zodResolver(webhookSchema),
@@ -352,6 +360,59 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Timezone */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Timezone
+            </CardTitle>
+            <CardDescription>
+              Daily counters reset, and rule times and due dates are read, in this timezone
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  list="timezone-options"
+                  placeholder="e.g. Europe/Berlin"
+                  value={timeZoneInput ?? timeZone}
+                  onChange={(e) => setTimeZoneInput(e.target.value)}
+                />
+                <datalist id="timezone-options">
+                  {supportedTimeZones.map(tz => <option key={tz} value={tz} />)}
+                </datalist>
+                <Button
+                  variant="outline"
+                  onClick={() => setTimeZoneInput(getBrowserTimeZone())}
+                >
+                  This device
+                </Button>
+                <Button
+                  disabled={timeZoneInput === null || timeZoneInput === timeZone}
+                  onClick={async () => {
+                    if (!isValidTimeZone(timeZoneInput)) {
+                      toast({ title: 'Unknown timezone', description: timeZoneInput || '', variant: 'destructive' });
+                      return;
+                    }
+                    const saved = await updateTimeZone(timeZoneInput);
+                    setTimeZoneInput(null);
+                    toast(saved
+                      ? { title: 'Timezone Updated', description: timeZoneInput }
+                      : { title: 'Failed to save timezone', variant: 'destructive' });
+                  }}
+                >
+                  Save
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Now: {formatLocalDateTime(new Date(), timeZone)}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Conversational AI Setup */}
         <Collapsible open={isAIFormOpen || !!isEditingAI} onOpenChange={setIsAIFormOpen}>
           <Card className="mb-8">
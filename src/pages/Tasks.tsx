@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTasks, TaskInput } from '@/hooks/useTasks';
+import { useRooms } from '@/hooks/useRooms';
+import { useUserContext } from '@/hooks/useUserContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -28,13 +30,18 @@ import {
 
 const CATEGORIES = ['chore', 'work', 'health', 'errand', 'other'];
 const PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+// Offered until the user has rooms of their own (from Home Assistant areas or the Integrations page)
 const ROOMS = ['Kitchen', 'Living Room', 'Bedroom', 'Bathroom', 'Office', 'Garage', 'Yard', 'Other'];
 
 export default function Tasks() {
   const navigate = useNavigate();
-  const { tasks, isLoading, addTask, updateTask, deleteTask, startTask, completeTask, skipTask } = useTasks();
+  const { tasks, isLoading, addTask, updateTask, deleteTask, startTask, completeTask, skipTask, getTasksByRoom } = useTasks();
+  const { rooms, getRoomByName } = useRooms();
+  const { context: userContext } = useUserContext();
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  // 'all', 'current' (the room the user is in) or a room id
+  const [roomFilter, setRoomFilter] = useState('all');
   const [formData, setFormData] = useState<TaskInput>({
     title: '',
     description: '',
@@ -107,9 +114,17 @@ export default function Tasks() {
     }
   };
 
-  const pendingTasks = tasks.filter(t => t.status === 'pending');
-  const inProgressTasks = tasks.filter(t => t.status === 'in_progress');
-  const completedTasks = tasks.filter(t => t.status === 'completed');
+  const currentRoom = userContext?.current_room;
+  const filterRoom = roomFilter === 'current'
+    ? getRoomByName(currentRoom) ?? (currentRoom ? { id: undefined, name: currentRoom } : undefined)
+    : rooms.find(r => r.id === roomFilter);
+  const visibleTasks = roomFilter === 'all'
+    ? tasks
+    : filterRoom ? getTasksByRoom(filterRoom.name, filterRoom.id) : [];
+
+  const pendingTasks = visibleTasks.filter(t => t.status === 'pending');
+  const inProgressTasks = visibleTasks.filter(t => t.status === 'in_progress');
+  const completedTasks = visibleTasks.filter(t => t.status === 'completed');
 
   const isOverdue = (task: typeof tasks[0]) => {
     return task.due_at && new Date(task.due_at) < new Date() && task.status !== 'completed';
@@ -212,8 +227,8 @@ export default function Tasks() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="">None</SelectItem>
-                          {ROOMS.map(r => (
-                            <SelectItem key={r} value={r.toLowerCase()}>{r}</SelectItem>
+                          {(rooms.length ? rooms.map(r => r.name) : ROOMS).map(r => (
+                            <SelectItem key={r} value={r}>{r}</SelectItem>
                           ))}
                         </SelectContent>
                       </Select>
@@ -248,6 +263,24 @@ export default function Tasks() {
           </Dialog>
         </div>
 
+        {(rooms.length > 0 || currentRoom) && (
+          <div className="flex items-center gap-2 mb-4">
+            <MapPin className="w-4 h-4 text-muted-foreground" />
+            <Select value={roomFilter} onValueChange={setRoomFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All rooms</SelectItem>
+                {currentRoom && <SelectItem value="current">Current room ({currentRoom})</SelectItem>}
+                {rooms.map(r => (
+                  <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-3 gap-4 mb-8">
           <Card>
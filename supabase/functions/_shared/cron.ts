@@ -0,0 +1,152 @@
+// Five-field cron expressions evaluated in an IANA timezone.
+// Shared by rule-scheduler, which fires schedule rules, and rules-engine, which replays them in backtests.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Classic cron: when both day fields are restricted, either one may match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Parse one cron field ("*/15", "1-5", "MON,WED,FRI", ...) into its allowed values
+function parseCronField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (raw: string): number => {
+    const nameIndex = names ? names.indexOf(raw.toUpperCase()) : -1;
+    if (nameIndex >= 0) return nameIndex + nameOffset;
+    const value = Number(raw);
+    if (!Number.isInteger(value)) throw new Error(`Invalid cron value "${raw}"`);
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from);
+      // "5/10" means every 10 starting at 5
+      end = to !== undefined ? parseValue(to) : stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, DAY_NAMES);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31),
+    months: parseCronField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock parts of an instant in the given IANA timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+export function cronMatches(schedule: CronSchedule, parts: ZonedParts): boolean {
+  if (!schedule.minutes.has(parts.minute) || !schedule.hours.has(parts.hour) || !schedule.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeekMatches = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Occurrences between from and to (inclusive, whole UTC minutes), at most limit of them.
+// Walking UTC minutes keeps DST transitions correct: skipped local times never match, repeated ones match twice.
+export function listCronOccurrences(schedule: CronSchedule, timeZone: string, from: Date, to: Date, limit: number): Date[] {
+  const occurrences: Date[] = [];
+  const start = Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS;
+  for (let t = start; t <= to.getTime() && occurrences.length < limit; t += MINUTE_MS) {
+    const instant = new Date(t);
+    if (cronMatches(schedule, getZonedParts(instant, timeZone))) occurrences.push(instant);
+  }
+  return occurrences;
+}
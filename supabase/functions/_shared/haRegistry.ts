@@ -0,0 +1,233 @@
+// Home Assistant's area, device and entity registries, saved as rooms, home_assistant_devices
+// and the area/device links on home_assistant_entities. The registries are only on HA's
+// WebSocket API; home-assistant reads them with withHAWebSocket, ha-subscriber over its own connection.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findRoom, normalizeRoomName } from "./rooms.ts";
+
+export interface HAArea {
+  area_id: string;
+  name: string;
+  aliases?: string[];
+}
+
+export interface HADevice {
+  id: string;
+  name: string | null;
+  name_by_user: string | null;
+  manufacturer: string | null;
+  model: string | null;
+  area_id: string | null;
+}
+
+export interface HAEntityRegistryEntry {
+  entity_id: string;
+  device_id: string | null;
+  area_id: string | null;
+}
+
+export interface HARegistries {
+  areas: HAArea[];
+  devices: HADevice[];
+  entities: HAEntityRegistryEntry[];
+}
+
+export type HACommand = <T>(message: Record<string, unknown>) => Promise<T>;
+
+// Events Home Assistant sends when a registry changes
+export const REGISTRY_EVENTS = ["area_registry_updated", "device_registry_updated", "entity_registry_updated"];
+
+const SESSION_TIMEOUT_MS = 15 * 1000;
+
+export async function listRegistries(command: HACommand): Promise<HARegistries> {
+  const [areas, devices, entities] = await Promise.all([
+    command<HAArea[]>({ type: "config/area_registry/list" }),
+    command<HADevice[]>({ type: "config/device_registry/list" }),
+    command<HAEntityRegistryEntry[]>({ type: "config/entity_registry/list" }),
+  ]);
+  return { areas: areas || [], devices: devices || [], entities: entities || [] };
+}
+
+// A short WebSocket session for running a few commands, closed when run settles
+export function withHAWebSocket<T>(haUrl: string, accessToken: string, run: (command: HACommand) => Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(`${haUrl.replace(/^http/, "ws")}/api/websocket`);
+    const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+    let nextId = 1;
+
+    const finish = (error: Error | null, result?: T) => {
+      clearTimeout(timer);
+      socket.close();
+      if (error) reject(error);
+      else resolve(result as T);
+    };
+    const timer = setTimeout(() => finish(new Error("Home Assistant did not answer in time")), SESSION_TIMEOUT_MS);
+
+    const command: HACommand = <R>(message: Record<string, unknown>) => new Promise<R>((resolveCommand, rejectCommand) => {
+      const id = nextId++;
+      pending.set(id, { resolve: resolveCommand as (result: unknown) => void, reject: rejectCommand });
+      socket.send(JSON.stringify({ ...message, id }));
+    });
+
+    socket.onmessage = (raw) => {
+      const message = JSON.parse(raw.data);
+      switch (message.type) {
+        case "auth_required":
+          socket.send(JSON.stringify({ type: "auth", access_token: accessToken }));
+          break;
+        case "auth_ok":
+          run(command).then(result => finish(null, result), error => finish(error));
+          break;
+        case "auth_invalid":
+          finish(new Error(`Home Assistant rejected the token: ${message.message}`));
+          break;
+        case "result": {
+          const request = pending.get(message.id);
+          if (!request) break;
+          pending.delete(message.id);
+          if (message.success) request.resolve(message.result);
+          else request.reject(new Error(message.error?.message || "Home Assistant command failed"));
+          break;
+        }
+      }
+    };
+
+    socket.onclose = () => {
+      for (const request of pending.values()) request.reject(new Error("Connection closed"));
+      pending.clear();
+      finish(new Error("Connection to Home Assistant closed"));
+    };
+  });
+}
+
+interface StoredRoom {
+  id: string;
+  name: string;
+  aliases: string[] | null;
+  config_id: string | null;
+  ha_area_id: string | null;
+}
+
+// Areas become rooms: an area already linked keeps its room (the user may have renamed it) and
+// adds the area's name as an alias; a new area links the unlinked room of the same name, or a new room.
+// Returns the number of areas, devices and entities saved.
+export async function saveRegistries(
+  supabase: SupabaseClient,
+  userId: string,
+  config: { id: string; name: string },
+  registries: HARegistries
+): Promise<{ areas: number; devices: number; entities: number }> {
+  const { data: stored, error: roomsError } = await supabase
+    .from("rooms")
+    .select("id, name, aliases, config_id, ha_area_id")
+    .eq("user_id", userId);
+  if (roomsError) throw new Error(`Failed to load rooms: ${roomsError.message}`);
+  const rooms = (stored || []) as StoredRoom[];
+
+  const roomByArea = new Map<string, string>();
+  for (const area of registries.areas) {
+    const names = [area.name, ...(area.aliases || [])];
+    const linked = rooms.find(r => r.config_id === config.id && r.ha_area_id === area.area_id);
+
+    if (linked) {
+      const known = new Set([linked.name, ...(linked.aliases || [])].map(normalizeRoomName));
+      const added = names.filter(name => !known.has(normalizeRoomName(name)));
+      if (added.length) {
+        linked.aliases = [...(linked.aliases || []), ...added];
+        const { error } = await supabase.from("rooms").update({ aliases: linked.aliases }).eq("id", linked.id);
+        if (error) throw new Error(`Failed to update room ${linked.name}: ${error.message}`);
+      }
+      roomByArea.set(area.area_id, linked.id);
+      continue;
+    }
+
+    const match = findRoom(rooms, area.name);
+    if (match && !match.ha_area_id) {
+      const { error } = await supabase
+        .from("rooms")
+        .update({ config_id: config.id, ha_area_id: area.area_id })
+        .eq("id", match.id);
+      if (error) throw new Error(`Failed to link room ${match.name}: ${error.message}`);
+      Object.assign(match, { config_id: config.id, ha_area_id: area.area_id });
+      roomByArea.set(area.area_id, match.id);
+      continue;
+    }
+
+    // A room of that name is another instance's area (say both the house and the cabin have a kitchen)
+    const name = match ? `${area.name} (${config.name})` : area.name;
+    const { data: created, error } = await supabase
+      .from("rooms")
+      .insert({
+        user_id: userId,
+        name,
+        aliases: area.aliases || [],
+        config_id: config.id,
+        ha_area_id: area.area_id,
+      })
+      .select("id, name, aliases, config_id, ha_area_id")
+      .single();
+    if (error) throw new Error(`Failed to create room ${name}: ${error.message}`);
+    rooms.push(created as StoredRoom);
+    roomByArea.set(area.area_id, created.id);
+  }
+
+  // Rooms of areas deleted in Home Assistant stay, unlinked, since tasks and cameras may still be in them
+  const gone = rooms.filter(r => r.config_id === config.id && r.ha_area_id && !roomByArea.has(r.ha_area_id));
+  if (gone.length) {
+    await supabase.from("rooms").update({ config_id: null, ha_area_id: null }).in("id", gone.map(r => r.id));
+  }
+
+  const devices = registries.devices.map(d => ({
+    user_id: userId,
+    config_id: config.id,
+    device_id: d.id,
+    name: d.name_by_user || d.name,
+    manufacturer: d.manufacturer,
+    model: d.model,
+    area_id: d.area_id,
+    room_id: (d.area_id && roomByArea.get(d.area_id)) || null,
+  }));
+  if (devices.length) {
+    const { error } = await supabase.from("home_assistant_devices").upsert(devices, { onConflict: "config_id,device_id" });
+    if (error) throw new Error(`Failed to save devices: ${error.message}`);
+  }
+
+  const { data: storedDevices } = await supabase
+    .from("home_assistant_devices")
+    .select("device_id")
+    .eq("config_id", config.id);
+  const deviceIds = new Set(devices.map(d => d.device_id));
+  const removedDevices = (storedDevices || []).map(d => d.device_id).filter(id => !deviceIds.has(id));
+  if (removedDevices.length) {
+    await supabase.from("home_assistant_devices").delete().eq("config_id", config.id).in("device_id", removedDevices);
+  }
+
+  // Only entities Cortana already has; the registry also lists disabled ones without a state
+  const { data: storedEntities, error: entitiesError } = await supabase
+    .from("home_assistant_entities")
+    .select("entity_id")
+    .eq("config_id", config.id);
+  if (entitiesError) throw new Error(`Failed to load entities: ${entitiesError.message}`);
+  const known = new Set((storedEntities || []).map(e => e.entity_id));
+
+  const deviceAreas = new Map(registries.devices.map(d => [d.id, d.area_id]));
+  const links = registries.entities
+    .filter(e => known.has(e.entity_id))
+    .map(e => {
+      const areaId = e.area_id || (e.device_id && deviceAreas.get(e.device_id)) || null;
+      return {
+        user_id: userId,
+        config_id: config.id,
+        entity_id: e.entity_id,
+        device_id: e.device_id,
+        area_id: areaId,
+        room_id: (areaId && roomByArea.get(areaId)) || null,
+      };
+    });
+  if (links.length) {
+    const { error } = await supabase.from("home_assistant_entities").upsert(links, { onConflict: "config_id,entity_id" });
+    if (error) throw new Error(`Failed to link entities to rooms: ${error.message}`);
+  }
+
+  return { areas: registries.areas.length, devices: devices.length, entities: links.length };
+}
@@ -0,0 +1,61 @@
+// Home Assistant access tokens, encrypted at rest in home_assistant_tokens.
+// AES-256-GCM under HA_TOKEN_ENCRYPTION_KEY (32 random bytes, base64), a function secret,
+// so only edge functions can read a token back. Each ciphertext is bound to its config row.
+// Generate the key with `openssl rand -base64 32`.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let cachedKey: Promise<CryptoKey> | null = null;
+
+function getKey(): Promise<CryptoKey> {
+  if (!cachedKey) {
+    const secret = Deno.env.get("HA_TOKEN_ENCRYPTION_KEY");
+    if (!secret) throw new Error("HA_TOKEN_ENCRYPTION_KEY is not set");
+
+    const raw = Uint8Array.from(atob(secret), c => c.charCodeAt(0));
+    if (raw.length !== 32) throw new Error("HA_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64-encoded");
+    cachedKey = crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+  return cachedKey;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export async function encryptToken(token: string, configId: string): Promise<{ ciphertext: string; iv: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(configId) },
+    await getKey(),
+    encoder.encode(token)
+  );
+  return { ciphertext: toBase64(new Uint8Array(ciphertext)), iv: toBase64(iv) };
+}
+
+export async function decryptToken(ciphertext: string, iv: string, configId: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv), additionalData: encoder.encode(configId) },
+    await getKey(),
+    fromBase64(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
+
+// Shown in the app in place of the token
+export function tokenHint(token: string): string {
+  return `…${token.slice(-4)}`;
+}
+
+// The saved token of a Home Assistant config, or null if none is saved
+export async function loadAccessToken(supabase: SupabaseClient, configId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("home_assistant_tokens")
+    .select("ciphertext, iv")
+    .eq("config_id", configId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? decryptToken(data.ciphertext, data.iv, configId) : null;
+}
@@ -0,0 +1,37 @@
+// Room names, matched the way the database matches them (normalize_room_name, resolve_room_id).
+// Shared by the edge functions and the app (src/lib/rooms.ts re-exports this file),
+// so keep it free of Deno- and browser-only APIs.
+
+export interface RoomRecord {
+  id: string;
+  name: string;
+  aliases: string[] | null;
+  // The Home Assistant area this room is, if any
+  config_id?: string | null;
+  ha_area_id?: string | null;
+}
+
+// "Living Room", "living_room" and " living-room" are the same room
+export function normalizeRoomName(name: string): string {
+  return name.trim().replace(/[\s_-]+/g, ' ').toLowerCase();
+}
+
+// The room with this name or alias; a name match wins over an alias
+export function findRoom<T extends RoomRecord>(rooms: T[], name: string | null | undefined): T | undefined {
+  if (!name) return undefined;
+  const wanted = normalizeRoomName(name);
+  return rooms.find(room => normalizeRoomName(room.name) === wanted)
+    ?? rooms.find(room => (room.aliases || []).some(alias => normalizeRoomName(alias) === wanted));
+}
+
+// The room's own name for a name or alias, or the name as given for a room Cortana doesn't know
+export function canonicalRoomName(rooms: RoomRecord[], name: string): string;
+export function canonicalRoomName(rooms: RoomRecord[], name: string | null | undefined): string | null | undefined;
+export function canonicalRoomName(rooms: RoomRecord[], name: string | null | undefined) {
+  return findRoom(rooms, name)?.name ?? name;
+}
+
+export function isSameRoom(rooms: RoomRecord[], a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false;
+  return normalizeRoomName(canonicalRoomName(rooms, a)) === normalizeRoomName(canonicalRoomName(rooms, b));
+}
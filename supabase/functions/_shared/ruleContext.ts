@@ -0,0 +1,77 @@
+// Server-side rule events: the evaluation context rules-engine expects, and the call to it.
+// Shared by the functions that fire rules without a browser (rule-scheduler, rule-webhook).
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLocalClock, getTimeOfDay } from "./time.ts";
+
+// Evaluation context for rules-engine, built server-side in the given timezone
+export async function buildContext(
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string,
+  now: Date,
+  triggerData: Record<string, unknown>
+) {
+  const [{ data: userContext }, { data: entities }] = await Promise.all([
+    supabase
+      .from('user_context')
+      .select('current_room, current_activity, idle_minutes, active_task_id')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('home_assistant_entities')
+      .select('config_id, entity_id, state, attributes')
+      .eq('user_id', userId),
+  ]);
+
+  // All instances together, and per instance for rules that name one
+  const entityStates: Record<string, string> = {};
+  const entityAttributes: Record<string, Record<string, unknown>> = {};
+  const instanceEntityStates: Record<string, Record<string, string>> = {};
+  const instanceEntityAttributes: Record<string, Record<string, Record<string, unknown>>> = {};
+  for (const entity of entities || []) {
+    const attributes = (entity.attributes as Record<string, unknown>) || {};
+    if (!instanceEntityStates[entity.config_id]) {
+      instanceEntityStates[entity.config_id] = {};
+      instanceEntityAttributes[entity.config_id] = {};
+    }
+    if (entity.state !== null) {
+      entityStates[entity.entity_id] = entity.state;
+      instanceEntityStates[entity.config_id][entity.entity_id] = entity.state;
+    }
+    entityAttributes[entity.entity_id] = attributes;
+    instanceEntityAttributes[entity.config_id][entity.entity_id] = attributes;
+  }
+
+  const clock = getLocalClock(now, timeZone);
+  return {
+    currentRoom: userContext?.current_room || undefined,
+    currentActivity: userContext?.current_activity || undefined,
+    idleMinutes: userContext?.idle_minutes || 0,
+    timeOfDay: getTimeOfDay(clock.hour),
+    dayOfWeek: clock.dayOfWeek,
+    currentHour: clock.hour,
+    currentMinute: clock.minute,
+    entityStates,
+    entityAttributes,
+    instanceEntityStates,
+    instanceEntityAttributes,
+    activeTaskId: userContext?.active_task_id || undefined,
+    timeZone,
+    triggerData,
+  };
+}
+
+export async function invokeRulesEngine(supabaseUrl: string, supabaseKey: string, body: Record<string, unknown>) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/rules-engine`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${supabaseKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+  if (!response.ok) throw new Error(result.error || `rules-engine returned ${response.status}`);
+  return result as { results?: Array<{ status: string; executionId?: string; error?: string }> };
+}
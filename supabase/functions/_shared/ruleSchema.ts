@@ -0,0 +1,373 @@
+// Rule definitions: their types and the schema that checks them at runtime.
+// Shared by the rules-engine function and the app (src/lib/ruleSchema.ts re-exports this file),
+// so it must stay free of Deno and browser APIs. Writes are checked against ruleInputSchema;
+// stored rows go through parseRuleRow, which reports a malformed rule as broken instead of
+// letting it fail halfway through an evaluation.
+import { z } from 'zod';
+
+const SEVERITIES = ['info', 'nudge', 'warning', 'urgent'] as const;
+const TRIGGER_TYPES = ['home_assistant', 'camera', 'schedule', 'task_state', 'goal_state', 'manual', 'webhook'] as const;
+const CONDITION_TYPES = [
+  'time_of_day', 'day_of_week', 'entity_state', 'room', 'idle_minutes', 'task_in_progress', 'quiet_hours',
+] as const;
+const CONDITION_OPERATORS = ['equals', 'not_equals', 'greater_than', 'less_than', 'contains', 'in_range'] as const;
+const ACTION_TYPES = [
+  'notify', 'speak', 'create_task', 'update_task', 'home_assistant', 'n8n_webhook', 'update_goal', 'set_context', 'emit_signal',
+  'delay', 'wait_until',
+] as const;
+
+// The types are written out rather than inferred from the schemas below: z.infer needs
+// strictNullChecks, which the app's tsconfig leaves off.
+
+export type RuleEditor = 'user' | 'ai';
+
+// A clock period, e.g. { start: '22:00', end: '07:00' }; may wrap past midnight
+export interface RulePeriod {
+  start: string;
+  end: string;
+}
+
+export interface RuleTriggerConfig {
+  // Home Assistant; instance_id (a home_assistant_config id) limits it to one instance
+  instance_id?: string;
+  entity_id?: string;
+  from_state?: string;
+  to_state?: string;
+  attribute?: string;
+  attribute_value?: string;
+  // Camera
+  camera_id?: string;
+  activity_tag?: string;
+  object_detected?: string;
+  room?: string;
+  // Schedule
+  cron?: string;
+  timezone?: string;
+  catch_up?: 'skip' | 'latest' | 'all';
+  catch_up_window_minutes?: number;
+  // Task state
+  status?: string;
+  priority?: string;
+  overdue_minutes?: number;
+  // Goal state
+  goal_id?: string;
+  progress_below?: number;
+  days_until_due?: number;
+  // Manual
+  signal_name?: string;
+  // Unknown keys are kept, so older and newer clients don't drop each other's settings
+  [key: string]: unknown;
+}
+
+export interface RuleCondition {
+  type: typeof CONDITION_TYPES[number];
+  operator: typeof CONDITION_OPERATORS[number];
+  // in_range takes [min, max] (clock times for time_of_day); equals/contains accept a list;
+  // quiet_hours takes clock periods
+  value: string | number | boolean | Array<string | number> | RulePeriod[];
+  entity_id?: string;
+  // entity_state: read the entity from this Home Assistant instance; unset reads it from any
+  instance_id?: string;
+  // entity_state: compare this attribute (e.g. current_temperature) instead of the state
+  attribute?: string;
+  // Duration: entity_state held for at least N minutes, or room occupied/unoccupied for the last N minutes
+  time_window_minutes?: number;
+  negate?: boolean;
+}
+
+// AND/OR/NOT group. "not" negates the AND of its children; empty groups impose no constraint.
+export interface RuleConditionGroup {
+  group: 'all' | 'any' | 'not';
+  conditions: RuleConditionNode[];
+}
+
+export type RuleConditionNode = RuleCondition | RuleConditionGroup;
+
+// An action is one step of the rule's sequence; delay and wait_until pause the steps after them
+export interface RuleAction {
+  type: typeof ACTION_TYPES[number];
+  // Run the next steps even if this one fails; otherwise a failure stops the sequence
+  continue_on_error?: boolean;
+  config: {
+    // Notify/Speak
+    message?: string;
+    severity?: string;
+    // Create task
+    title?: string;
+    description?: string;
+    priority?: string;
+    room?: string;
+    due_in_minutes?: number;
+    // Update task
+    task_id?: string;
+    status?: string;
+    // Home Assistant; without instance_id the first active instance is used.
+    // room (as above) targets that room's area instead of or besides entity_id; 'current' is the user's room
+    instance_id?: string;
+    domain?: string;
+    service?: string;
+    entity_id?: string;
+    service_data?: Record<string, unknown>;
+    // n8n webhook
+    webhook_url?: string;
+    payload_template?: Record<string, unknown>;
+    // Update goal
+    goal_id?: string;
+    increment_value?: number;
+    // Set context
+    activity?: string;
+    // Emit signal: fires the manual rules listening for signal_name
+    signal_name?: string;
+    signal_data?: Record<string, unknown>;
+    // Delay
+    minutes?: number;
+    // Wait until: checked every minute until it holds or timeout_minutes pass,
+    // then on_timeout runs instead of the remaining steps
+    condition?: RuleConditionGroup;
+    timeout_minutes?: number;
+    on_timeout?: RuleAction[];
+    [key: string]: unknown;
+  };
+}
+
+// The user-authored definition: what the editor saves, bundles carry and versions snapshot
+export interface RuleInput {
+  name: string;
+  description?: string;
+  category?: string;
+  is_enabled?: boolean;
+  severity?: typeof SEVERITIES[number];
+  trigger_type: typeof TRIGGER_TYPES[number];
+  trigger_config: RuleTriggerConfig;
+  conditions?: RuleConditionGroup;
+  cooldown_minutes?: number;
+  max_fires_per_day?: number;
+  actions: RuleAction[];
+  explanation_template?: string;
+  escalation_enabled?: boolean;
+  escalation_after_minutes?: number;
+  escalation_action?: RuleAction;
+  excluded_rooms?: string[];
+  excluded_times?: RulePeriod[];
+}
+
+export interface Rule extends RuleInput {
+  id: string;
+  user_id: string;
+  is_enabled: boolean;
+  severity: typeof SEVERITIES[number];
+  conditions: RuleConditionGroup;
+  cooldown_minutes: number;
+  escalation_enabled: boolean;
+  last_fired_at?: string;
+  times_fired: number;
+  times_fired_today: number;
+  last_reset_date?: string;
+  // Bumped on every change to the definition; see rule_versions
+  version: number;
+  last_edited_by: RuleEditor;
+  created_at: string;
+  updated_at: string;
+}
+
+// A stored rule that fails the schema, with what is wrong with it
+export interface BrokenRule {
+  id: string;
+  name: string;
+  issues: string[];
+}
+
+const periodSchema = z.object({
+  start: z.string().regex(/^\d{1,2}:\d{2}$/, 'Expected HH:MM'),
+  end: z.string().regex(/^\d{1,2}:\d{2}$/, 'Expected HH:MM'),
+});
+
+const triggerConfigSchema = z.object({
+  instance_id: z.string().optional(),
+  entity_id: z.string().optional(),
+  from_state: z.string().optional(),
+  to_state: z.string().optional(),
+  attribute: z.string().optional(),
+  attribute_value: z.string().optional(),
+  camera_id: z.string().optional(),
+  activity_tag: z.string().optional(),
+  object_detected: z.string().optional(),
+  room: z.string().optional(),
+  cron: z.string().optional(),
+  timezone: z.string().optional(),
+  catch_up: z.enum(['skip', 'latest', 'all']).optional(),
+  catch_up_window_minutes: z.number().int().positive().optional(),
+  status: z.string().optional(),
+  priority: z.string().optional(),
+  overdue_minutes: z.number().nonnegative().optional(),
+  goal_id: z.string().optional(),
+  progress_below: z.number().optional(),
+  days_until_due: z.number().optional(),
+  signal_name: z.string().optional(),
+}).passthrough();
+
+const conditionSchema = z.object({
+  type: z.enum(CONDITION_TYPES),
+  operator: z.enum(CONDITION_OPERATORS),
+  value: z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.array(z.union([z.string(), z.number()])),
+    z.array(periodSchema),
+  ]),
+  entity_id: z.string().optional(),
+  instance_id: z.string().optional(),
+  attribute: z.string().optional(),
+  time_window_minutes: z.number().int().positive().optional(),
+  negate: z.boolean().optional(),
+}).superRefine((condition, ctx) => {
+  if (condition.type === 'entity_state' && !condition.entity_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['entity_id'], message: 'Required for entity_state' });
+  }
+});
+
+// Recursive, so these can't be inferred
+const conditionNodeSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  conditionGroupSchema,
+  conditionSchema,
+]));
+
+const conditionGroupSchema: z.ZodTypeAny = z.lazy(() => z.object({
+  group: z.enum(['all', 'any', 'not']),
+  conditions: z.array(conditionNodeSchema),
+}));
+
+// Legacy flat arrays are accepted and read as an "all" group
+const conditionsSchema = z.union([
+  conditionGroupSchema,
+  z.array(conditionNodeSchema).transform((conditions): RuleConditionGroup => ({ group: 'all', conditions })),
+]);
+
+// Config an action type can't run without
+const REQUIRED_CONFIG: Partial<Record<RuleAction['type'], string[]>> = {
+  notify: ['message'],
+  speak: ['message'],
+  create_task: ['title'],
+  update_task: ['task_id', 'status'],
+  home_assistant: ['domain', 'service'],
+  n8n_webhook: ['webhook_url'],
+  update_goal: ['goal_id'],
+  emit_signal: ['signal_name'],
+  delay: ['minutes'],
+  wait_until: ['condition'],
+};
+
+const actionSchema: z.ZodTypeAny = z.lazy(() => z.object({
+  type: z.enum(ACTION_TYPES),
+  continue_on_error: z.boolean().optional(),
+  config: z.object({
+    message: z.string().optional(),
+    severity: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    priority: z.string().optional(),
+    room: z.string().optional(),
+    due_in_minutes: z.number().nonnegative().optional(),
+    task_id: z.string().optional(),
+    status: z.string().optional(),
+    instance_id: z.string().optional(),
+    domain: z.string().optional(),
+    service: z.string().optional(),
+    entity_id: z.string().optional(),
+    service_data: z.record(z.unknown()).optional(),
+    webhook_url: z.string().optional(),
+    payload_template: z.record(z.unknown()).optional(),
+    goal_id: z.string().optional(),
+    increment_value: z.number().optional(),
+    activity: z.string().optional(),
+    signal_name: z.string().optional(),
+    signal_data: z.record(z.unknown()).optional(),
+    minutes: z.number().positive().optional(),
+    condition: conditionGroupSchema.optional(),
+    timeout_minutes: z.number().positive().optional(),
+    on_timeout: z.array(actionSchema).optional(),
+  }).passthrough(),
+}).superRefine((action, ctx) => {
+  for (const key of REQUIRED_CONFIG[action.type] || []) {
+    const value = action.config[key];
+    if (value === undefined || (typeof value === 'string' && value.trim() === '')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['config', key], message: `Required for ${action.type}` });
+    }
+  }
+}));
+
+export const ruleInputSchema = z.object({
+  name: z.string().refine(name => name.trim() !== '', 'Required'),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  is_enabled: z.boolean().optional(),
+  severity: z.enum(SEVERITIES).optional(),
+  trigger_type: z.enum(TRIGGER_TYPES),
+  trigger_config: triggerConfigSchema,
+  conditions: conditionsSchema.optional(),
+  cooldown_minutes: z.number().int().nonnegative().optional(),
+  max_fires_per_day: z.number().int().positive().optional(),
+  actions: z.array(actionSchema).min(1, 'At least one action is required'),
+  explanation_template: z.string().optional(),
+  escalation_enabled: z.boolean().optional(),
+  escalation_after_minutes: z.number().int().positive().optional(),
+  escalation_action: actionSchema.optional(),
+  excluded_rooms: z.array(z.string()).optional(),
+  excluded_times: z.array(periodSchema).optional(),
+});
+
+// A rules row; nullable columns get the defaults the database would have filled in
+const ruleRowSchema = ruleInputSchema.extend({
+  id: z.string(),
+  user_id: z.string(),
+  is_enabled: z.boolean().default(true),
+  severity: z.enum(SEVERITIES).default('info'),
+  conditions: conditionsSchema.default({ group: 'all', conditions: [] }),
+  cooldown_minutes: z.number().int().nonnegative().default(30),
+  // 0 has always meant no cap, and older rows (including AI-created ones) store it
+  max_fires_per_day: z.preprocess(v => (v === 0 ? undefined : v), z.number().int().positive().optional()),
+  // An empty list is a rule that does nothing yet, not a broken one
+  actions: z.array(actionSchema),
+  escalation_enabled: z.boolean().default(false),
+  last_fired_at: z.string().optional(),
+  times_fired: z.number().int().nonnegative().default(0),
+  times_fired_today: z.number().int().nonnegative().default(0),
+  last_reset_date: z.string().optional(),
+  // Bumped on every change to the definition; see rule_versions
+  version: z.number().int().positive(),
+  last_edited_by: z.enum(['user', 'ai']),
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+// Nullable columns, and NaN from a cleared number input, read as unset
+function dropNulls(value: unknown): unknown {
+  if (value === null || value === undefined) return value;
+  return JSON.parse(JSON.stringify(value, (_key, v) => v ?? undefined));
+}
+
+// e.g. "actions.0.config.message: Required for speak"
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+// Problems that keep a rule (or, with partial, an update to some of its fields) from being saved
+export function validateRuleInput(rule: unknown, partial = false): string[] {
+  const parsed = (partial ? ruleInputSchema.partial() : ruleInputSchema).safeParse(dropNulls(rule));
+  return parsed.success ? [] : formatIssues(parsed.error);
+}
+
+export function parseRuleRow(row: unknown): { rule: Rule; broken?: undefined } | { rule?: undefined; broken: BrokenRule } {
+  const parsed = ruleRowSchema.safeParse(dropNulls(row));
+  if (parsed.success) return { rule: parsed.data as Rule };
+
+  const { id, name } = (row || {}) as { id?: unknown; name?: unknown };
+  return {
+    broken: {
+      id: String(id ?? ''),
+      name: typeof name === 'string' && name.trim() ? name : 'Unnamed rule',
+      issues: formatIssues(parsed.error),
+    },
+  };
+}
@@ -0,0 +1,411 @@
+// Template language for rule explanations and action messages.
+// Shared by the rules-engine function and the rule editor's live preview (via src/lib/ruleTemplate.ts),
+// so it must stay free of Deno and browser APIs.
+//
+//   {room}  {task_title}                 legacy names and flat trigger keys
+//   {trigger.status}  {task.title}  {goal.progress_percent}  {rule.name}
+//   {states.sensor.kitchen_temperature}  {attributes.climate.living_room.current_temperature}
+//   {now | date:'ddd HH:mm'}  {task.due_at | date:'MMM D'}
+//   {activity | default:'something'}  {room | upper}  {states.sensor.power | round:1}
+//   {#if idle_minutes > 30}Long break{#else}Short break{/if}
+//
+// Tags that don't parse as an expression (e.g. JSON braces) are left as written, as are
+// unknown top-level names, so older templates render exactly as before.
+
+export interface TemplateScopeInput {
+  context: {
+    currentRoom?: string;
+    currentActivity?: string;
+    idleMinutes: number;
+    timeOfDay: string;
+    dayOfWeek: number;
+    entityStates: Record<string, string>;
+    entityAttributes?: Record<string, Record<string, unknown>>;
+    activeTaskId?: string;
+  };
+  triggerData: Record<string, unknown>;
+  rule?: { name?: string; severity?: string; category?: string };
+  // Rows for the task/goal the event is about (or the active task)
+  task?: Record<string, unknown> | null;
+  goal?: Record<string, unknown> | null;
+  now?: Date;
+}
+
+export interface TemplateOptions {
+  // IANA timezone for the date filter; defaults to UTC
+  timeZone?: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'output'; expression: Expression; raw: string }
+  | { kind: 'if'; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface Expression {
+  path: string[];
+  filters: Array<{ name: string; arg?: string | number }>;
+}
+
+type Operand = { path: string[] } | { literal: string | number | boolean };
+
+interface Condition {
+  negate: boolean;
+  left: Expression;
+  operator?: '==' | '!=' | '>' | '<' | '>=' | '<=';
+  right?: Operand;
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const FILTERS = ['default', 'upper', 'lower', 'round', 'date', 'json'];
+const PATH_PATTERN = /^[A-Za-z_][\w]*(\.[\w-]+)*$/;
+const LITERAL_PATTERN = /^(?:'([^']*)'|"([^"]*)"|(-?\d+(?:\.\d+)?)|(true|false))$/;
+
+function parseLiteral(text: string): string | number | boolean | undefined {
+  const match = text.trim().match(LITERAL_PATTERN);
+  if (!match) return undefined;
+  if (match[1] !== undefined) return match[1];
+  if (match[2] !== undefined) return match[2];
+  if (match[3] !== undefined) return Number(match[3]);
+  return match[4] === 'true';
+}
+
+// Split on | outside quotes
+function splitFilters(text: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseExpression(text: string): Expression | null {
+  const [pathText, ...filterTexts] = splitFilters(text);
+  const path = pathText.trim();
+  if (!PATH_PATTERN.test(path)) return null;
+
+  const filters: Expression['filters'] = [];
+  for (const filterText of filterTexts) {
+    const separator = filterText.indexOf(':');
+    const name = (separator === -1 ? filterText : filterText.slice(0, separator)).trim();
+    if (!FILTERS.includes(name)) return null;
+
+    if (separator === -1) {
+      filters.push({ name });
+      continue;
+    }
+    const arg = parseLiteral(filterText.slice(separator + 1));
+    if (arg === undefined || typeof arg === 'boolean') return null;
+    filters.push({ name, arg });
+  }
+
+  return { path: path.split('.'), filters };
+}
+
+function parseCondition(text: string): Condition {
+  let body = text.trim();
+  const negate = body.startsWith('!');
+  if (negate) body = body.slice(1).trim();
+
+  const match = body.match(/^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
+  const left = parseExpression(match ? match[1] : body);
+  if (!left) throw new TemplateError(`Invalid condition "${text.trim()}"`);
+  if (!match) return { negate, left };
+
+  const literal = parseLiteral(match[3]);
+  const rightPath = match[3].trim();
+  if (literal === undefined && !PATH_PATTERN.test(rightPath)) {
+    throw new TemplateError(`Invalid value "${rightPath}" in condition`);
+  }
+  return {
+    negate,
+    left,
+    operator: match[2] as Condition['operator'],
+    right: literal !== undefined ? { literal } : { path: rightPath.split('.') },
+  };
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open {#if} blocks; nodes are appended to the branch on top
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }> = [];
+  const target = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root;
+  };
+
+  const tagPattern = /\{([^{}]*)\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(template)) !== null) {
+    if (match.index > last) target().push({ kind: 'text', text: template.slice(last, match.index) });
+    last = match.index + match[0].length;
+
+    const body = match[1].trim();
+    if (body.startsWith('#if ')) {
+      const node: Extract<TemplateNode, { kind: 'if' }> = {
+        kind: 'if',
+        condition: parseCondition(body.slice(4)),
+        then: [],
+        otherwise: [],
+      };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (body === '#else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) throw new TemplateError('{#else} without a matching {#if}');
+      top.inElse = true;
+    } else if (body === '/if') {
+      if (!stack.pop()) throw new TemplateError('{/if} without a matching {#if}');
+    } else {
+      const expression = parseExpression(body);
+      target().push(expression ? { kind: 'output', expression, raw: match[0] } : { kind: 'text', text: match[0] });
+    }
+  }
+  if (last < template.length) target().push({ kind: 'text', text: template.slice(last) });
+  if (stack.length) throw new TemplateError('{#if} is missing its {/if}');
+
+  return root;
+}
+
+function lookup(scope: Record<string, unknown>, path: string[]): unknown {
+  let value: unknown = scope;
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Tokens: YYYY MMM MM M DD D dddd ddd HH H hh h mm ss A; [text] is kept literally
+export function formatDate(date: Date, format: string, timeZone = 'UTC'): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'long',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  const month = Number(get('month'));
+  const day = Number(get('day'));
+  const hour = Number(get('hour')) % 24;
+  const weekday = get('weekday');
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: get('year'),
+    MMM: MONTHS[month - 1],
+    MM: pad(month),
+    M: String(month),
+    DD: pad(day),
+    D: String(day),
+    dddd: weekday,
+    ddd: weekday.slice(0, 3),
+    HH: pad(hour),
+    H: String(hour),
+    hh: pad(hour % 12 || 12),
+    h: String(hour % 12 || 12),
+    mm: get('minute').padStart(2, '0'),
+    ss: get('second').padStart(2, '0'),
+    A: hour < 12 ? 'AM' : 'PM',
+  };
+
+  return format.replace(
+    /\[([^\]]*)]|YYYY|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A/g,
+    (token, literal) => literal ?? tokens[token]
+  );
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function applyFilters(value: unknown, filters: Expression['filters'], options: TemplateOptions): unknown {
+  let result = value;
+  for (const filter of filters) {
+    switch (filter.name) {
+      case 'default':
+        if (result === undefined || result === null || result === '') result = filter.arg ?? '';
+        break;
+      case 'upper':
+        result = result === undefined || result === null ? result : String(result).toUpperCase();
+        break;
+      case 'lower':
+        result = result === undefined || result === null ? result : String(result).toLowerCase();
+        break;
+      case 'round': {
+        const n = typeof result === 'number' ? result : Number(result);
+        if (result !== '' && result !== null && !isNaN(n)) {
+          const factor = 10 ** Number(filter.arg ?? 0);
+          result = Math.round(n * factor) / factor;
+        }
+        break;
+      }
+      case 'date': {
+        const date = toDate(result);
+        if (date) result = formatDate(date, String(filter.arg ?? 'YYYY-MM-DD HH:mm'), options.timeZone);
+        break;
+      }
+      case 'json':
+        result = JSON.stringify(result);
+        break;
+    }
+  }
+  return result;
+}
+
+function evaluate(expression: Expression, scope: Record<string, unknown>, options: TemplateOptions): unknown {
+  return applyFilters(lookup(scope, expression.path), expression.filters, options);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function testCondition(condition: Condition, scope: Record<string, unknown>, options: TemplateOptions): boolean {
+  const left = evaluate(condition.left, scope, options);
+  let result: boolean;
+
+  if (!condition.operator || !condition.right) {
+    result = Array.isArray(left) ? left.length > 0 : !!left && left !== 'false' && left !== '0';
+  } else {
+    const right = 'literal' in condition.right ? condition.right.literal : lookup(scope, condition.right.path);
+    const leftNumber = Number(left);
+    const rightNumber = Number(right);
+    const numeric = left !== '' && left !== null && left !== undefined && !isNaN(leftNumber) && !isNaN(rightNumber);
+
+    switch (condition.operator) {
+      case '==': result = numeric ? leftNumber === rightNumber : stringify(left) === stringify(right); break;
+      case '!=': result = numeric ? leftNumber !== rightNumber : stringify(left) !== stringify(right); break;
+      case '>': result = numeric && leftNumber > rightNumber; break;
+      case '<': result = numeric && leftNumber < rightNumber; break;
+      case '>=': result = numeric && leftNumber >= rightNumber; break;
+      case '<=': result = numeric && leftNumber <= rightNumber; break;
+    }
+  }
+
+  return condition.negate ? !result : result;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Record<string, unknown>, options: TemplateOptions): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'output':
+        // Unknown top-level names are probably not meant as variables
+        if (!(node.expression.path[0] in scope)) return node.raw;
+        return stringify(evaluate(node.expression, scope, options));
+      case 'if':
+        return renderNodes(
+          testCondition(node.condition, scope, options) ? node.then : node.otherwise,
+          scope,
+          options
+        );
+    }
+  }).join('');
+}
+
+// Syntax errors, for the editor; renderTemplate never throws
+export function validateTemplate(template: string): string | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (err) {
+    return err instanceof TemplateError ? err.message : String(err);
+  }
+}
+
+export function renderTemplate(
+  template: string | undefined | null,
+  scope: Record<string, unknown>,
+  options: TemplateOptions = {}
+): string {
+  if (!template) return '';
+  try {
+    return renderNodes(parseTemplate(template), scope, options);
+  } catch {
+    // A broken template is still better shown than dropped
+    return template;
+  }
+}
+
+// Render every string inside a JSON-like value (n8n payload_template)
+export function renderTemplateValue(value: unknown, scope: Record<string, unknown>, options: TemplateOptions = {}): unknown {
+  if (typeof value === 'string') return renderTemplate(value, scope, options);
+  if (Array.isArray(value)) return value.map(item => renderTemplateValue(item, scope, options));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplateValue(item, scope, options)])
+    );
+  }
+  return value;
+}
+
+// Split "domain.object_id" keys into nested objects so paths like states.light.kitchen resolve
+function nestEntities<T>(byEntityId: Record<string, T>): Record<string, Record<string, T>> {
+  const nested: Record<string, Record<string, T>> = {};
+  for (const [entityId, value] of Object.entries(byEntityId)) {
+    const separator = entityId.indexOf('.');
+    if (separator === -1) continue;
+    const domain = entityId.slice(0, separator);
+    (nested[domain] ||= {})[entityId.slice(separator + 1)] = value;
+  }
+  return nested;
+}
+
+export function buildTemplateScope(input: TemplateScopeInput): Record<string, unknown> {
+  const { context, triggerData, rule, task, goal } = input;
+  const goalProgress = goal && typeof goal.target_value === 'number' && goal.target_value
+    ? Math.round(((Number(goal.current_value) || 0) / goal.target_value) * 100)
+    : undefined;
+
+  return {
+    // Flat trigger keys and the original four names, as the first templates used them
+    ...triggerData,
+    idle_minutes: context.idleMinutes,
+    room: context.currentRoom || 'unknown',
+    activity: context.currentActivity || 'unknown',
+    time_of_day: context.timeOfDay,
+    day_of_week: DAYS[context.dayOfWeek],
+    now: (input.now || new Date()).toISOString(),
+    // Raw values, e.g. {context.currentRoom | default:'somewhere'} where room would say "unknown"
+    context,
+    trigger: triggerData,
+    rule: rule || {},
+    task: task || {},
+    goal: goal ? { ...goal, progress_percent: goalProgress } : {},
+    states: nestEntities(context.entityStates),
+    attributes: nestEntities(context.entityAttributes || {}),
+  };
+}
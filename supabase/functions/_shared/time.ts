@@ -0,0 +1,128 @@
+// Wall-clock helpers for the user's timezone (user_settings.timezone).
+// Shared by the edge functions and the app (src/lib/time.ts re-exports this file),
+// so keep it free of Deno- and browser-only APIs.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Buckets used by rules (time_of_day conditions) and the life manager
+export function getTimeOfDay(hour: number): string {
+  if (hour >= 5 && hour < 9) return 'early_morning';
+  if (hour >= 9 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The first usable timezone, falling back to UTC
+export function resolveTimeZone(...candidates: Array<string | null | undefined>): string {
+  return candidates.find(isValidTimeZone) ?? DEFAULT_TIME_ZONE;
+}
+
+export interface LocalClock {
+  // YYYY-MM-DD, the user's calendar day
+  date: string;
+  hour: number;
+  minute: number;
+  // 0 = Sunday
+  dayOfWeek: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of an instant in the given timezone
+export function getLocalClock(date: Date, timeZone: string): LocalClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: Number(get('hour')) % 24,
+    minute: Number(get('minute')),
+    dayOfWeek: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+// The user's calendar day (YYYY-MM-DD) at an instant; what daily counters reset on
+export function getLocalDate(date: Date, timeZone: string): string {
+  return getLocalClock(date, timeZone).date;
+}
+
+// Offset of the timezone from UTC at an instant, in minutes (e.g. -300 for New York in winter)
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const clock = getLocalClock(date, timeZone);
+  const seconds = date.getUTCSeconds();
+  const asUtc = Date.UTC(
+    Number(clock.date.slice(0, 4)),
+    Number(clock.date.slice(5, 7)) - 1,
+    Number(clock.date.slice(8, 10)),
+    clock.hour,
+    clock.minute,
+    seconds
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant a local wall-clock time happens in the timezone.
+// Times a DST change skips resolve to an instant next to the gap.
+export function fromLocalTime(
+  date: string,
+  hour: number,
+  minute: number,
+  second: number,
+  millisecond: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+  // Two passes settle the offset across a DST change
+  let offset = getOffsetMinutes(new Date(guess), timeZone);
+  offset = getOffsetMinutes(new Date(guess - offset * 60000), timeZone);
+  return new Date(guess - offset * 60000);
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// 23:59:59.999 on the given local day
+export function endOfLocalDay(date: string, timeZone: string): Date {
+  return fromLocalTime(date, 23, 59, 59, 999, timeZone);
+}
+
+// Current time for AI prompts, e.g. "Monday, March 3, 2025 at 9:41 PM (Europe/Berlin)"
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(date);
+  return `${formatted} (${timeZone})`;
+}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { addDays, endOfLocalDay, formatLocalDateTime, getLocalClock, resolveTimeZone } from "../_shared/time.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -44,6 +45,33 @@ interface GuardianInput {
   tasks?: TaskData[];
   isProactiveCheck?: boolean;
   conversationHistory?: Array<{ role: string; content: string }>;
+  // The user's timezone (user_settings.timezone)
+  timeZone?: string;
+}
+
+// "today", "tomorrow", "next week", "this weekend", "end of month" as the end of that
+// day in the user's timezone; anything else is passed through unchanged
+function parseNaturalDueDate(value: string, now: Date, timeZone: string): string {
+  const lowerDue = value.toLowerCase();
+  const { date: today, dayOfWeek } = getLocalClock(now, timeZone);
+
+  let dueDate: string | null = null;
+  if (lowerDue === 'today') {
+    dueDate = today;
+  } else if (lowerDue === 'tomorrow') {
+    dueDate = addDays(today, 1);
+  } else if (lowerDue.includes('next week')) {
+    dueDate = addDays(today, 7);
+  } else if (lowerDue.includes('this weekend')) {
+    const daysUntilSaturday = dayOfWeek === 0 ? 6 : 6 - dayOfWeek;
+    dueDate = addDays(today, daysUntilSaturday);
+  } else if (lowerDue.includes('end of month')) {
+    // Day 0 of next month is the last day of this one
+    const [year, month] = today.split('-').map(Number);
+    dueDate = new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+  }
+
+  return dueDate ? endOfLocalDay(dueDate, timeZone).toISOString() : value;
 }
 
 const SYSTEM_PROMPT = `You are Cortana, an AI home guardian. You observe the home through sensors, cameras, and conversation. You also help track personal goals and manage tasks.
@@ -108,7 +136,9 @@ serve(async (req) => {
   }
 
   try {
-    const { transcript, imageBase64, sensorData, goals, tasks, isProactiveCheck, conversationHistory } = await req.json() as GuardianInput;
+    const {
+      transcript, imageBase64, sensorData, goals, tasks, isProactiveCheck, conversationHistory, timeZone,
+    } = await req.json() as GuardianInput;
 
     // Get auth header to pass user context
     const authHeader = req.headers.get("Authorization");
@@ -176,7 +206,7 @@ serve(async (req) => {
 
     // Add current time context
     const now = new Date();
-    contextParts.unshift(`Current time: ${now.toLocaleString()}`);
+    contextParts.unshift(`Current time: ${formatLocalDateTime(now, resolveTimeZone(timeZone))}`);
 
     // Build messages array
     const messages: Array<{ role: string; content: unknown }> = [
@@ -380,36 +410,15 @@ serve(async (req) => {
             finalResponse.response = `I think you already have a similar task: "${existingTasks[0].title}"`;
             finalResponse.taskCreated = false;
           } else {
-            // Parse due_at if it's a natural language date
+            // Parse due_at if it's a natural language date, in the user's timezone
             let dueAt = taskToCreate.due_at;
             if (dueAt && typeof dueAt === 'string') {
-              const now = new Date();
-              const lowerDue = dueAt.toLowerCase();
-              
-              if (lowerDue === 'today') {
-                dueAt = new Date(now.setHours(23, 59, 59, 999)).toISOString();
-              } else if (lowerDue === 'tomorrow') {
-                const tomorrow = new Date(now);
-                tomorrow.setDate(tomorrow.getDate() + 1);
-                tomorrow.setHours(23, 59, 59, 999);
-                dueAt = tomorrow.toISOString();
-              } else if (lowerDue.includes('next week')) {
-                const nextWeek = new Date(now);
-                nextWeek.setDate(nextWeek.getDate() + 7);
-                nextWeek.setHours(23, 59, 59, 999);
-                dueAt = nextWeek.toISOString();
-              } else if (lowerDue.includes('this weekend')) {
-                const weekend = new Date(now);
-                const dayOfWeek = weekend.getDay();
-                const daysUntilSaturday = dayOfWeek === 0 ? 6 : 6 - dayOfWeek;
-                weekend.setDate(weekend.getDate() + daysUntilSaturday);
-                weekend.setHours(23, 59, 59, 999);
-                dueAt = weekend.toISOString();
-              } else if (lowerDue.includes('end of month')) {
-                const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-                endOfMonth.setHours(23, 59, 59, 999);
-                dueAt = endOfMonth.toISOString();
-              }
+              const { data: userSettings } = await supabase
+                .from('user_settings')
+                .select('timezone')
+                .eq('user_id', user.id)
+                .maybeSingle();
+              dueAt = parseNaturalDueDate(dueAt, new Date(), resolveTimeZone(userSettings?.timezone, timeZone));
             }
 
             const description = taskToCreate.detected_from_context 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { formatLocalDateTime, resolveTimeZone } from "../_shared/time.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -24,6 +25,8 @@ const corsHeaders = {
 
 interface AudioChatRequest {
   audioBase64?: string;
+  // The user's timezone (user_settings.timezone)
+  timeZone?: string;
   transcript?: string;
   conversationHistory?: Array<{ role: string; content: string }>;
   systemInstruction?: string;
@@ -82,7 +85,8 @@ serve(async (req) => {
       conversationHistory = [], 
       systemInstruction,
       goals = [],
-      tasks = []
+      tasks = [],
+      timeZone,
     } = await req.json() as AudioChatRequest;
 
     if (!transcript?.trim()) {
@@ -94,7 +98,7 @@ serve(async (req) => {
 
     // Build context
     const contextParts: string[] = [];
-    contextParts.push(`Current time: ${new Date().toLocaleString()}`);
+    contextParts.push(`Current time: ${formatLocalDateTime(new Date(), resolveTimeZone(timeZone))}`);
 
     if (goals.length > 0) {
       const activeGoals = goals.filter(g => g.status === 'active');
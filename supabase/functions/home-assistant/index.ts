@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { encryptToken, loadAccessToken, tokenHint } from "../_shared/haToken.ts";
+import { listRegistries, saveRegistries, withHAWebSocket } from "../_shared/haRegistry.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,7 +9,9 @@ const corsHeaders = {
 };
 
 interface HARequest {
-  action: "test" | "get_states" | "get_services" | "call_service" | "sync_entities";
+  action: "test" | "get_states" | "get_services" | "call_service" | "sync_entities" | "save_token" | "revoke_token";
+  // The home_assistant_config row to use; may be left out while the user has only one
+  config_id?: string;
   instance_url?: string;
   access_token?: string;
   service_domain?: string;
@@ -46,35 +50,59 @@ serve(async (req) => {
     }
 
     const body: HARequest = await req.json();
-    const { action, instance_url, access_token, service_domain, service, entity_id, service_data } = body;
-
-    // For most actions, we need the stored config or provided credentials
-    let haUrl = instance_url;
-    let haToken = access_token;
-
-    if (!haUrl || !haToken) {
-      // Fetch from stored config
-      const { data: config } = await supabase
-        .from("home_assistant_config")
-        .select("*")
-        .eq("user_id", user.id)
-        .single();
-
-      if (!config) {
-        return new Response(JSON.stringify({ error: "No Home Assistant configuration found" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
+    const { action, config_id, instance_url, access_token, service_domain, service, entity_id, service_data } = body;
 
-      haUrl = config.instance_url;
-      // Token needs to be passed for each request since we don't store it in DB
-      if (!haToken) {
-        return new Response(JSON.stringify({ error: "Access token required" }), {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
+    const { data: configs } = await supabase
+      .from("home_assistant_config")
+      .select("*")
+      .eq("user_id", user.id);
+    const config = config_id
+      ? configs?.find((c) => c.id === config_id)
+      : configs?.length === 1 ? configs[0] : undefined;
+
+    if (config_id && !config) {
+      return new Response(JSON.stringify({ error: "Home Assistant instance not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Revoking doesn't need Home Assistant to be reachable
+    if (action === "revoke_token") {
+      if (config) {
+        await supabase.from("home_assistant_tokens").delete().eq("config_id", config.id);
+        await supabase
+          .from("home_assistant_config")
+          .update({ token_hint: null, token_updated_at: null })
+          .eq("id", config.id);
       }
+      return new Response(JSON.stringify({ revoked: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Credentials in the request (e.g. testing a new token) win over the stored ones. The stored
+    // token is only ever sent to the stored URL; any other URL needs its token in the request.
+    const requestUrl = instance_url?.trim().replace(/\/$/, "");
+    const isStoredUrl = !requestUrl || requestUrl === config?.instance_url.replace(/\/$/, "");
+    let haUrl = requestUrl || config?.instance_url;
+    const haToken = access_token || (config && isStoredUrl ? await loadAccessToken(supabase, config.id) : null);
+
+    if (!haUrl) {
+      const error = configs?.length ? "config_id is required" : "No Home Assistant configuration found";
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (!haToken) {
+      const error = isStoredUrl
+        ? "No Home Assistant access token saved"
+        : "Enter the access token for this Home Assistant URL; the saved one is only used with the saved URL";
+      return new Response(JSON.stringify({ error }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
     // Ensure URL doesn't have trailing slash
@@ -101,10 +129,12 @@ serve(async (req) => {
         result = await response.json();
         
         // Update last_connected_at
-        await supabase
-          .from("home_assistant_config")
-          .update({ last_connected_at: new Date().toISOString() })
-          .eq("user_id", user.id);
+        if (config) {
+          await supabase
+            .from("home_assistant_config")
+            .update({ last_connected_at: new Date().toISOString() })
+            .eq("id", config.id);
+        }
         break;
       }
 
@@ -153,6 +183,13 @@ serve(async (req) => {
       }
 
       case "sync_entities": {
+        if (!config) {
+          return new Response(JSON.stringify({ error: "config_id is required" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
         // Fetch all states and sync to our database
         const response = await fetch(`${haUrl}/api/states`, { headers: haHeaders });
         if (!response.ok) {
@@ -162,12 +199,33 @@ serve(async (req) => {
           entity_id: string;
           state: string;
           attributes: Record<string, unknown>;
+          last_changed: string;
           last_updated: string;
         }>;
 
+        // Record state changes since the last sync - duration conditions in rules read this history
+        const { data: previous } = await supabase
+          .from("home_assistant_entities")
+          .select("entity_id, state")
+          .eq("config_id", config.id);
+        const previousStates = new Map((previous || []).map((e) => [e.entity_id, e.state]));
+
+        const events = states
+          .filter((s) => !previousStates.has(s.entity_id) || previousStates.get(s.entity_id) !== s.state)
+          .map((s) => ({
+            user_id: user.id,
+            config_id: config.id,
+            entity_id: s.entity_id,
+            old_state: previousStates.get(s.entity_id) ?? null,
+            new_state: s.state,
+            event_type: "state_changed",
+            occurred_at: s.last_changed || s.last_updated,
+          }));
+
         // Upsert entities
         const entities = states.map((s) => ({
           user_id: user.id,
+          config_id: config.id,
           entity_id: s.entity_id,
           friendly_name: (s.attributes.friendly_name as string) || s.entity_id,
           state: s.state,
@@ -178,13 +236,82 @@ serve(async (req) => {
 
         const { error: upsertError } = await supabase
           .from("home_assistant_entities")
-          .upsert(entities, { onConflict: "user_id,entity_id" });
+          .upsert(entities, { onConflict: "config_id,entity_id" });
 
         if (upsertError) {
           throw new Error(`Failed to sync entities: ${upsertError.message}`);
         }
 
-        result = { synced: entities.length };
+        if (events.length) {
+          // ha-subscriber may have recorded some of these already
+          const { error: eventsError } = await supabase
+            .from("home_assistant_events")
+            .upsert(events, { onConflict: "config_id,entity_id,occurred_at", ignoreDuplicates: true });
+          if (eventsError) console.error("Failed to record state changes:", eventsError);
+        }
+
+        // Areas and devices link entities to rooms; the entity sync stands even if they can't be read
+        let registry: { areas: number; devices: number } | null = null;
+        try {
+          registry = await saveRegistries(supabase, user.id, config, await withHAWebSocket(haUrl, haToken, listRegistries));
+        } catch (err) {
+          console.error("Failed to sync areas and devices:", err);
+        }
+
+        await supabase
+          .from("home_assistant_config")
+          .update({ last_connected_at: new Date().toISOString() })
+          .eq("id", config.id);
+
+        result = {
+          synced: entities.length,
+          changed: events.length,
+          areas: registry?.areas ?? null,
+          devices: registry?.devices ?? null,
+        };
+        break;
+      }
+
+      case "save_token": {
+        if (!config || !access_token) {
+          return new Response(JSON.stringify({ error: "Save the configuration and enter a token first" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        // The token is saved for the stored URL, so that is the only URL it may be checked against
+        if (!isStoredUrl) {
+          return new Response(JSON.stringify({ error: "Save the new URL before saving a token for it" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        // Only a token Home Assistant accepts is saved
+        const response = await fetch(`${haUrl}/api/`, { headers: haHeaders });
+        if (!response.ok) {
+          return new Response(JSON.stringify({ error: `Home Assistant rejected the token: ${response.statusText}` }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const encrypted = await encryptToken(access_token, config.id);
+        const { error: saveError } = await supabase
+          .from("home_assistant_tokens")
+          .upsert({ user_id: user.id, config_id: config.id, ...encrypted }, { onConflict: "config_id" });
+        if (saveError) {
+          throw new Error(`Failed to save token: ${saveError.message}`);
+        }
+
+        const now = new Date().toISOString();
+        await supabase
+          .from("home_assistant_config")
+          .update({ token_hint: tokenHint(access_token), token_updated_at: now, last_connected_at: now })
+          .eq("id", config.id);
+
+        result = { saved: true, token_hint: tokenHint(access_token) };
         break;
       }
 
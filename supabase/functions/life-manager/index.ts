@@ -64,8 +64,12 @@ interface LifeManagerInput {
       friendly_name: string | null;
       state: string | null;
       domain: string | null;
+      // The room of the entity's Home Assistant area
+      room?: string | null;
     }>;
   };
+  // The user's rooms; the AI names rooms with these
+  rooms?: Array<{ name: string; aliases: string[] }>;
   currentTime: string;
   dayOfWeek: number;
   timeOfDay: string;
@@ -216,15 +220,25 @@ serve(async (req) => {
       contextParts.push(`RECENT INTERVENTIONS (avoid repeating):\n${intLog}`);
     }
 
-    // Sensors
-    if (input.sensorData?.entities?.length) {
-      const sensorSummary = input.sensorData.entities
-        .filter(e => e.state && e.state !== "unavailable")
-        .map(e => `${e.friendly_name || e.entity_id}: ${e.state}`)
-        .slice(0, 15)
+    // Rooms, so updatedRoom and task rooms use names the rest of Cortana knows
+    if (input.rooms?.length) {
+      const roomList = input.rooms
+        .map(r => r.aliases?.length ? `${r.name} (also called ${r.aliases.join(', ')})` : r.name)
         .join(', ');
+      contextParts.push(`KNOWN ROOMS (use these exact names for rooms): ${roomList}`);
+    }
+
+    // Sensors, by room with the user's room first
+    if (input.sensorData?.entities?.length) {
+      const byRoom = new Map<string, string[]>();
+      for (const e of input.sensorData.entities.filter(e => e.state && e.state !== "unavailable").slice(0, 20)) {
+        const room = e.room || "Unassigned";
+        byRoom.set(room, [...(byRoom.get(room) || []), `${e.friendly_name || e.entity_id}: ${e.state}`]);
+      }
+      const rooms = [...byRoom.keys()].sort((a, b) => Number(b === ctx.current_room) - Number(a === ctx.current_room));
+      const sensorSummary = rooms.map(room => `- ${room}: ${byRoom.get(room)!.join(', ')}`).join('\n');
       if (sensorSummary) {
-        contextParts.push(`SENSOR STATES: ${sensorSummary}`);
+        contextParts.push(`SENSOR STATES:\n${sensorSummary}`);
       }
     }
 
@@ -314,7 +328,7 @@ If you see something that needs doing and no similar task exists, CREATE A TASK
               },
               updatedRoom: {
                 type: "string", 
-                description: "If you can determine the room from camera/sensors, update this",
+                description: "If you can determine the room from camera/sensors, update this. Use a known room's name",
               },
             },
             required: ["shouldIntervene"],
@@ -349,7 +363,7 @@ If you see something that needs doing and no similar task exists, CREATE A TASK
               },
               room: {
                 type: "string",
-                description: "Room where the task should be done",
+                description: "Room where the task should be done, by a known room's name",
               },
               estimated_minutes: {
                 type: "number",
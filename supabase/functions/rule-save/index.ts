@@ -0,0 +1,145 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateRuleInput } from "../_shared/ruleSchema.ts";
+
+// The only way rules are written from the app: clients can't insert or update public.rules
+// directly, so every stored definition has passed the same schema the editor checks against.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Columns a client may set; counters, versions and scheduling state stay server-side
+const WRITABLE_COLUMNS = [
+  "name",
+  "description",
+  "category",
+  "is_enabled",
+  "severity",
+  "trigger_type",
+  "trigger_config",
+  "conditions",
+  "cooldown_minutes",
+  "max_fires_per_day",
+  "actions",
+  "explanation_template",
+  "escalation_enabled",
+  "escalation_after_minutes",
+  "escalation_action",
+  "excluded_rooms",
+  "excluded_times",
+  "last_edited_by",
+  "last_edit_note",
+];
+
+type RuleRow = Record<string, unknown>;
+
+type SaveRequest =
+  | { action: "insert"; rules: RuleRow[] }
+  // changes holds only the columns being set; the stored row fills in the rest for validation
+  | { action: "update"; rule_id: string; changes: RuleRow };
+
+function pickWritable(row: RuleRow): RuleRow {
+  const picked: RuleRow = {};
+  for (const column of WRITABLE_COLUMNS) {
+    if (row[column] !== undefined) picked[column] = row[column];
+  }
+  if (picked.last_edited_by !== undefined && picked.last_edited_by !== "user" && picked.last_edited_by !== "ai") {
+    picked.last_edited_by = "user";
+  }
+  return picked;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Verify the user
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const body: SaveRequest = await req.json();
+
+    if (body.action === "insert") {
+      if (!Array.isArray(body.rules) || body.rules.length === 0) {
+        return jsonResponse({ error: "No rules to save" }, 400);
+      }
+
+      const rows = body.rules.map(pickWritable);
+      const issues = rows.flatMap((row, i) =>
+        validateRuleInput(row).map((issue) => (rows.length > 1 ? `${row.name ?? `Rule ${i + 1}`}: ${issue}` : issue))
+      );
+      if (issues.length) {
+        return jsonResponse({ error: "Invalid rule", issues }, 422);
+      }
+
+      const { data, error } = await supabase
+        .from("rules")
+        .insert(rows.map((row) => ({ ...row, user_id: user.id })))
+        .select();
+
+      if (error) throw error;
+      return jsonResponse({ rules: data || [] });
+    }
+
+    if (body.action === "update") {
+      const { data: stored, error: fetchError } = await supabase
+        .from("rules")
+        .select("*")
+        .eq("id", body.rule_id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!stored) {
+        return jsonResponse({ error: "Rule not found" }, 404);
+      }
+
+      // Check the rule as it will be stored, not just the changed fields
+      const changes = pickWritable(body.changes || {});
+      const issues = validateRuleInput({ ...stored, ...changes });
+      if (issues.length) {
+        return jsonResponse({ error: "Invalid rule", issues }, 422);
+      }
+
+      const { data, error } = await supabase
+        .from("rules")
+        .update(changes)
+        .eq("id", body.rule_id)
+        .eq("user_id", user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return jsonResponse({ rule: data });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("rule-save error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
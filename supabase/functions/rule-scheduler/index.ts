@@ -0,0 +1,420 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isValidTimeZone, resolveTimeZone } from "../_shared/time.ts";
+import { buildContext, invokeRulesEngine } from "../_shared/ruleContext.ts";
+import { cronMatches, getZonedParts, parseCron, type CronSchedule } from "../_shared/cron.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ScheduleRule {
+  id: string;
+  user_id: string;
+  name: string;
+  trigger_config: {
+    cron?: string;
+    timezone?: string;
+    // What to do with occurrences missed while the scheduler was down
+    catch_up?: 'skip' | 'latest' | 'all';
+    catch_up_window_minutes?: number;
+  };
+  schedule_cursor?: string | null;
+}
+
+interface Occurrence {
+  scheduledFor: Date;
+  isCatchUp: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_CATCH_UP_WINDOW_MINUTES = 60;
+const MAX_CATCH_UP_WINDOW_MINUTES = 24 * 60;
+// Retries of a trigger event arrive within minutes; older idempotency keys are dropped
+const FIRE_CLAIM_RETENTION_DAYS = 7;
+// A sequence claimed this long ago whose resume never finished (e.g. the function crashed) is resumed again
+const SEQUENCE_CLAIM_TIMEOUT_MINUTES = 5;
+// Engine calls for an occurrence, escalation or sequence resume, counting the first; failed ones are retried on later sweeps
+const MAX_ENGINE_ATTEMPTS = 3;
+// A sweep makes a few engine calls at a time and stops taking on work well before the
+// edge function's time limit; whatever is left waits for the next sweep a minute later
+const SWEEP_CONCURRENCY = 4;
+const SWEEP_TIME_BUDGET_MS = 100 * 1000;
+// Retries, escalations and sequences loaded per sweep
+const SWEEP_BATCH_SIZE = 100;
+
+// Rows aren't trusted to match the rule schema (they may predate it); fields of the wrong
+// type or out of range are dropped, so the rule falls back to the defaults or is skipped
+function readTriggerConfig(raw: unknown): ScheduleRule['trigger_config'] {
+  const config = (raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}) as Record<string, unknown>;
+  const windowMinutes = config.catch_up_window_minutes;
+  return {
+    cron: typeof config.cron === 'string' && config.cron.trim() ? config.cron : undefined,
+    timezone: typeof config.timezone === 'string' && isValidTimeZone(config.timezone) ? config.timezone : undefined,
+    catch_up: config.catch_up === 'skip' || config.catch_up === 'latest' || config.catch_up === 'all'
+      ? config.catch_up
+      : undefined,
+    catch_up_window_minutes: typeof windowMinutes === 'number' && Number.isInteger(windowMinutes) && windowMinutes > 0
+      ? windowMinutes
+      : undefined,
+  };
+}
+
+// Work out which occurrences of a rule are due at `now` (truncated to the minute).
+// Walking UTC minutes and converting each to local time keeps DST transitions
+// correct: skipped local times never match, repeated ones match twice.
+function getDueOccurrences(rule: ScheduleRule, schedule: CronSchedule, timeZone: string, now: Date): Occurrence[] {
+  const policy = rule.trigger_config.catch_up ?? 'latest';
+  const windowMinutes = Math.min(
+    rule.trigger_config.catch_up_window_minutes ?? DEFAULT_CATCH_UP_WINDOW_MINUTES,
+    MAX_CATCH_UP_WINDOW_MINUTES
+  );
+
+  const cursor = rule.schedule_cursor ? new Date(rule.schedule_cursor).getTime() : null;
+  // First evaluation of a rule only looks at the current minute
+  let from = cursor === null ? now.getTime() : cursor + MINUTE_MS;
+  if (from > now.getTime()) return [];
+
+  const missed: Occurrence[] = [];
+  if (policy !== 'skip') {
+    from = Math.max(from, now.getTime() - windowMinutes * MINUTE_MS);
+    for (let t = from; t < now.getTime(); t += MINUTE_MS) {
+      const instant = new Date(t);
+      if (cronMatches(schedule, getZonedParts(instant, timeZone))) {
+        missed.push({ scheduledFor: instant, isCatchUp: true });
+      }
+    }
+  }
+
+  const onTime = cronMatches(schedule, getZonedParts(now, timeZone))
+    ? { scheduledFor: now, isCatchUp: false }
+    : null;
+
+  if (policy === 'all') return onTime ? [...missed, onTime] : missed;
+  if (onTime) return [onTime];
+  return policy === 'latest' && missed.length ? [missed[missed.length - 1]] : [];
+}
+
+// Run work on items a few at a time, until they are done or the sweep is out of time
+async function inBatches<T>(items: T[], hasTime: () => boolean, work: (item: T) => Promise<void>): Promise<void> {
+  for (let i = 0; i < items.length && hasTime(); i += SWEEP_CONCURRENCY) {
+    await Promise.all(items.slice(i, i + SWEEP_CONCURRENCY).map(item => work(item).catch(err => {
+      console.error('Scheduler work failed:', err);
+    })));
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the pg_cron job (service role) may run the scheduler
+    const authHeader = req.headers.get("authorization");
+    if (authHeader !== `Bearer ${supabaseKey}`) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const startedAt = Date.now();
+    const hasTime = () => Date.now() - startedAt < SWEEP_TIME_BUDGET_MS;
+
+    // Rules the last sweep didn't get to have the oldest cursors, so they go first
+    const { data: rules, error: rulesError } = await supabase
+      .from('rules')
+      .select('id, user_id, name, trigger_config, schedule_cursor')
+      .eq('trigger_type', 'schedule')
+      .eq('is_enabled', true)
+      .order('schedule_cursor', { ascending: true, nullsFirst: true });
+
+    if (rulesError) throw rulesError;
+
+    const now = new Date(Math.floor(Date.now() / MINUTE_MS) * MINUTE_MS);
+
+    // user_settings.timezone, for schedules without their own and for escalations
+    const userTimeZones = new Map<string, string>();
+    const getUserTimeZone = async (userId: string): Promise<string> => {
+      if (!userTimeZones.has(userId)) {
+        const { data: userSettings } = await supabase
+          .from('user_settings')
+          .select('timezone')
+          .eq('user_id', userId)
+          .maybeSingle();
+        userTimeZones.set(userId, resolveTimeZone(userSettings?.timezone));
+      }
+      return userTimeZones.get(userId)!;
+    };
+    const summary: Array<{ ruleId: string; scheduledFor: string; isCatchUp: boolean; status: string; error?: string }> = [];
+
+    // Run one claimed occurrence. A failed engine call is marked 'retrying' for the next sweep; the
+    // retry sends the same idempotency key, so an occurrence the engine did fire isn't fired again.
+    const fireOccurrence = async (
+      rule: Pick<ScheduleRule, 'id' | 'user_id' | 'trigger_config'>,
+      timeZone: string,
+      run: { id: string; scheduledFor: string; isCatchUp: boolean; attempt: number }
+    ) => {
+      const triggerData = {
+        rule_id: rule.id,
+        cron: rule.trigger_config.cron,
+        timezone: timeZone,
+        scheduled_for: run.scheduledFor,
+        is_catch_up: run.isCatchUp,
+      };
+
+      let status: string;
+      let errorMessage: string | undefined;
+      try {
+        const context = await buildContext(supabase, rule.user_id, timeZone, new Date(), triggerData);
+        const result = await invokeRulesEngine(supabaseUrl, supabaseKey, {
+          userId: rule.user_id,
+          ruleId: rule.id,
+          triggerType: 'schedule',
+          triggerData,
+          context,
+          // A retried invocation for the same occurrence must not run the actions twice
+          idempotencyKey: `schedule:${rule.id}:${run.scheduledFor}`,
+        });
+        status = result.results?.[0]?.status ?? 'not_evaluated';
+      } catch (err) {
+        errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        status = run.attempt < MAX_ENGINE_ATTEMPTS ? 'retrying' : 'failed';
+      }
+
+      await supabase
+        .from('rule_schedule_runs')
+        .update({ engine_status: status, error_message: errorMessage ?? null, attempts: run.attempt })
+        .eq('id', run.id);
+
+      summary.push({
+        ruleId: rule.id,
+        scheduledFor: run.scheduledFor,
+        isCatchUp: run.isCatchUp,
+        status,
+        error: errorMessage,
+      });
+    };
+
+    // Occurrences whose engine call failed on an earlier sweep
+    const { data: retries, error: retriesError } = await supabase
+      .from('rule_schedule_runs')
+      .select('id, rule_id, user_id, scheduled_for, is_catch_up, attempts, rules(trigger_config, is_enabled)')
+      .eq('engine_status', 'retrying')
+      .order('scheduled_for')
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (retriesError) console.error('Failed to load schedule runs to retry:', retriesError);
+
+    await inBatches(retries || [], hasTime, async (retry) => {
+      const rule = retry.rules as unknown as { trigger_config: unknown; is_enabled: boolean } | null;
+      // Claim the retry; another sweep that got there first wins
+      const { data: claim } = await supabase
+        .from('rule_schedule_runs')
+        .update(rule?.is_enabled
+          ? { engine_status: 'running', attempts: retry.attempts + 1 }
+          : { engine_status: 'failed', error_message: 'Rule was disabled before the retry' })
+        .eq('id', retry.id)
+        .eq('engine_status', 'retrying')
+        .eq('attempts', retry.attempts)
+        .select('id');
+      if (!claim?.length || !rule?.is_enabled) return;
+
+      const triggerConfig = readTriggerConfig(rule.trigger_config);
+      await fireOccurrence(
+        { id: retry.rule_id, user_id: retry.user_id, trigger_config: triggerConfig },
+        triggerConfig.timezone || await getUserTimeZone(retry.user_id),
+        { id: retry.id, scheduledFor: retry.scheduled_for, isCatchUp: retry.is_catch_up, attempt: retry.attempts + 1 }
+      );
+    });
+
+    // A rule the sweep runs out of time for keeps its cursor, so the next sweep treats
+    // its occurrences as missed and applies the rule's catch_up policy
+    let evaluated = 0;
+    await inBatches(rules || [], hasTime, async (ruleData) => {
+      const rule: ScheduleRule = { ...ruleData, trigger_config: readTriggerConfig(ruleData.trigger_config) };
+      const timeZone = rule.trigger_config.timezone || await getUserTimeZone(rule.user_id);
+      evaluated++;
+
+      let occurrences: Occurrence[];
+      try {
+        if (!rule.trigger_config.cron) throw new Error('Missing cron expression');
+        const schedule = parseCron(rule.trigger_config.cron);
+        occurrences = getDueOccurrences(rule, schedule, timeZone, now);
+      } catch (err) {
+        console.error(`Skipping schedule rule ${rule.id} (${rule.name}):`, err);
+        return;
+      }
+
+      for (const occurrence of occurrences) {
+        // Claim the occurrence; a concurrent or repeated run loses the unique insert
+        const { data: claim, error: claimError } = await supabase
+          .from('rule_schedule_runs')
+          .upsert({
+            user_id: rule.user_id,
+            rule_id: rule.id,
+            scheduled_for: occurrence.scheduledFor.toISOString(),
+            is_catch_up: occurrence.isCatchUp,
+          }, { onConflict: 'rule_id,scheduled_for', ignoreDuplicates: true })
+          .select('id');
+
+        if (claimError) {
+          console.error(`Failed to claim occurrence for rule ${rule.id}:`, claimError);
+          continue;
+        }
+        if (!claim?.length) continue;
+
+        await fireOccurrence(rule, timeZone, {
+          id: claim[0].id,
+          scheduledFor: occurrence.scheduledFor.toISOString(),
+          isCatchUp: occurrence.isCatchUp,
+          attempt: 1,
+        });
+      }
+
+      await supabase.from('rules').update({ schedule_cursor: now.toISOString() }).eq('id', rule.id);
+    });
+
+    const { error: cleanupError } = await supabase
+      .from('rule_fire_claims')
+      .delete()
+      .lt('created_at', new Date(now.getTime() - FIRE_CLAIM_RETENTION_DAYS * 24 * 60 * MINUTE_MS).toISOString());
+    if (cleanupError) console.error('Failed to clean up rule fire claims:', cleanupError);
+
+    // Escalate rule notifications that were not acknowledged in time
+    const { data: dueEscalations, error: escalationsError } = await supabase
+      .from('rule_executions')
+      .select('id, user_id, escalation_attempts')
+      .lte('escalation_due_at', new Date().toISOString())
+      .is('acknowledged_at', null)
+      .is('escalated_at', null)
+      .lt('escalation_attempts', MAX_ENGINE_ATTEMPTS)
+      .order('escalation_due_at')
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (escalationsError) console.error('Failed to load due escalations:', escalationsError);
+
+    const escalated: Array<{ executionId: string; status: string; error?: string }> = [];
+    await inBatches(dueEscalations || [], hasTime, async (execution) => {
+      // Count the attempt first, so an escalation whose engine call keeps failing is given up on.
+      // rules-engine claims the escalation itself, so an acknowledgment or another run in the meantime wins.
+      const { data: attempt } = await supabase
+        .from('rule_executions')
+        .update({ escalation_attempts: execution.escalation_attempts + 1 })
+        .eq('id', execution.id)
+        .eq('escalation_attempts', execution.escalation_attempts)
+        .select('id');
+      if (!attempt?.length) return;
+
+      try {
+        const triggerData = { escalation_of: execution.id };
+        const result = await invokeRulesEngine(supabaseUrl, supabaseKey, {
+          userId: execution.user_id,
+          triggerType: 'escalation',
+          triggerData,
+          context: await buildContext(
+            supabase, execution.user_id, await getUserTimeZone(execution.user_id), new Date(), triggerData
+          ),
+          escalateExecutionId: execution.id,
+        });
+        escalated.push({ executionId: execution.id, status: result.results?.[0]?.status ?? 'not_evaluated' });
+      } catch (err) {
+        console.error(`Failed to escalate rule execution ${execution.id}:`, err);
+        escalated.push({
+          executionId: execution.id,
+          status: execution.escalation_attempts + 1 < MAX_ENGINE_ATTEMPTS ? 'retrying' : 'failed',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Resume action sequences whose delay is over or whose wait_until is due for another check
+    const staleClaim = new Date(Date.now() - SEQUENCE_CLAIM_TIMEOUT_MINUTES * MINUTE_MS).toISOString();
+    const claimable = `status.eq.pending,and(status.eq.running,claimed_at.lt.${staleClaim})`;
+    const { data: dueSequences, error: sequencesError } = await supabase
+      .from('rule_sequence_runs')
+      .select('id, user_id, execution_id, resume_attempts')
+      .lte('resume_at', new Date().toISOString())
+      .or(claimable)
+      .order('resume_at')
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (sequencesError) console.error('Failed to load due rule sequences:', sequencesError);
+
+    const resumed: Array<{ sequenceId: string; status: string; error?: string }> = [];
+    await inBatches(dueSequences || [], hasTime, async (sequence) => {
+      // A resume that failed every attempt is given up on, along with the rest of the rule's actions
+      if (sequence.resume_attempts >= MAX_ENGINE_ATTEMPTS) {
+        const { data: givenUp } = await supabase
+          .from('rule_sequence_runs')
+          .update({ status: 'failed', claimed_at: null })
+          .eq('id', sequence.id)
+          .eq('resume_attempts', sequence.resume_attempts)
+          .or(claimable)
+          .select('id');
+        if (!givenUp?.length) return;
+
+        const error = `Gave up resuming the remaining steps after ${sequence.resume_attempts} failed attempts`;
+        await supabase
+          .from('rule_executions')
+          .update({ execution_status: 'failed', error_message: error })
+          .eq('id', sequence.execution_id);
+        resumed.push({ sequenceId: sequence.id, status: 'failed', error });
+        return;
+      }
+
+      // Claim it, counting the attempt; another run that got there first wins
+      const { data: claim } = await supabase
+        .from('rule_sequence_runs')
+        .update({
+          status: 'running',
+          claimed_at: new Date().toISOString(),
+          resume_attempts: sequence.resume_attempts + 1,
+        })
+        .eq('id', sequence.id)
+        .eq('resume_attempts', sequence.resume_attempts)
+        .or(claimable)
+        .select('id');
+      if (!claim?.length) return;
+
+      try {
+        const triggerData = { sequence_id: sequence.id };
+        const result = await invokeRulesEngine(supabaseUrl, supabaseKey, {
+          userId: sequence.user_id,
+          triggerType: 'sequence',
+          triggerData,
+          context: await buildContext(
+            supabase, sequence.user_id, await getUserTimeZone(sequence.user_id), new Date(), triggerData
+          ),
+          resumeSequenceId: sequence.id,
+        });
+        resumed.push({ sequenceId: sequence.id, status: result.results?.[0]?.status ?? 'not_evaluated' });
+      } catch (err) {
+        // Left claimed, so it is retried once the claim goes stale, or given up on after the last attempt
+        console.error(`Failed to resume rule sequence ${sequence.id}:`, err);
+        resumed.push({
+          sequenceId: sequence.id,
+          status: sequence.resume_attempts + 1 < MAX_ENGINE_ATTEMPTS ? 'retrying' : 'failed',
+          error: err instanceof Error ? err.message : 'Unknown error',
+        });
+      }
+    });
+
+    return new Response(
+      JSON.stringify({ evaluated, fired: summary, escalated, resumed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Rule scheduler error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
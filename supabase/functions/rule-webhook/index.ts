@@ -0,0 +1,170 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveTimeZone } from "../_shared/time.ts";
+import { buildContext, invokeRulesEngine } from "../_shared/ruleContext.ts";
+
+// Inbound webhook trigger: POST /rule-webhook/<webhook id> fires that webhook's rule.
+//
+//   X-Cortana-Timestamp: <unix seconds>
+//   X-Cortana-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>" with the webhook secret>
+//   X-Idempotency-Key:   optional, the same on every retry of one event
+//
+// A JSON object body becomes the rule's trigger data; any other body is passed as { body }.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-cortana-timestamp, x-cortana-signature, x-idempotency-key",
+};
+
+// Signed requests older (or newer) than this are refused, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const MAX_BODY_BYTES = 64 * 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const encoder = new TextEncoder();
+
+function jsonResponse(body: Record<string, unknown>, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+  });
+}
+
+async function sign(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compares every character, so the time taken doesn't reveal how much of a guess was right
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+async function verifySignature(secret: string, timestamp: string | null, signature: string | null, body: string) {
+  if (!timestamp || !signature) return 'Missing X-Cortana-Timestamp or X-Cortana-Signature header';
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return 'Timestamp is missing or outside the allowed window';
+  }
+
+  const expected = await sign(secret, `${timestamp}.${body}`);
+  const provided = signature.replace(/^sha256=/, '').toLowerCase();
+  return timingSafeEqual(expected, provided) ? null : 'Signature does not match';
+}
+
+function parseBody(body: string): Record<string, unknown> {
+  if (!body.trim()) return {};
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { body: parsed };
+  } catch {
+    return { body };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405, { Allow: "POST" });
+  }
+
+  const webhookId = new URL(req.url).pathname.split('/').filter(Boolean).pop() ?? '';
+  if (!UUID_PATTERN.test(webhookId)) {
+    return jsonResponse({ error: "Unknown webhook" }, 404);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const setLastStatus = async (status: string) => {
+      await supabase.from('rule_webhooks').update({ last_status: status }).eq('id', webhookId);
+    };
+
+    // Counted before the signature check, so guessing signatures is rate-limited too (see claim_rule_webhook_request)
+    const { data: claimData, error: claimError } = await supabase.rpc('claim_rule_webhook_request', {
+      _webhook_id: webhookId,
+    });
+    if (claimError) throw claimError;
+
+    const claim = claimData as {
+      status: string;
+      rule_id?: string;
+      user_id?: string;
+      secret?: string;
+      retry_after_seconds?: number;
+    };
+    if (claim.status === 'not_found') {
+      return jsonResponse({ error: "Unknown webhook" }, 404);
+    }
+    if (claim.status === 'rate_limited') {
+      const retryAfter = String(Math.max(1, claim.retry_after_seconds ?? 60));
+      return jsonResponse({ error: "Rate limit exceeded" }, 429, { "Retry-After": retryAfter });
+    }
+
+    const body = await req.text();
+    if (encoder.encode(body).length > MAX_BODY_BYTES) {
+      await setLastStatus('too_large');
+      return jsonResponse({ error: `Body is larger than ${MAX_BODY_BYTES} bytes` }, 413);
+    }
+
+    const signature = req.headers.get("x-cortana-signature");
+    const signatureError = await verifySignature(
+      claim.secret!, req.headers.get("x-cortana-timestamp"), signature, body
+    );
+    if (signatureError) {
+      await setLastStatus('invalid_signature');
+      return jsonResponse({ error: signatureError }, 401);
+    }
+
+    const { data: rule } = await supabase
+      .from('rules')
+      .select('id, is_enabled, trigger_type')
+      .eq('id', claim.rule_id!)
+      .eq('user_id', claim.user_id!)
+      .maybeSingle();
+    if (!rule || rule.trigger_type !== 'webhook' || !rule.is_enabled) {
+      await setLastStatus('rule_inactive');
+      return jsonResponse({ error: "Rule is disabled or no longer uses a webhook trigger" }, 409);
+    }
+
+    const { data: userSettings } = await supabase
+      .from('user_settings')
+      .select('timezone')
+      .eq('user_id', claim.user_id!)
+      .maybeSingle();
+    const timeZone = resolveTimeZone(userSettings?.timezone);
+
+    const triggerData = parseBody(body);
+    const context = await buildContext(supabase, claim.user_id!, timeZone, new Date(), triggerData);
+    const result = await invokeRulesEngine(supabaseUrl, supabaseKey, {
+      userId: claim.user_id,
+      ruleId: claim.rule_id,
+      triggerType: 'webhook',
+      triggerData,
+      context,
+      // Without a key from the caller, a replay of the exact signed request is still a duplicate
+      idempotencyKey: `webhook:${webhookId}:${req.headers.get("x-idempotency-key") || signature}`,
+    });
+
+    const outcome = result.results?.[0];
+    const status = outcome?.status ?? 'not_evaluated';
+    await setLastStatus(status);
+
+    return jsonResponse({ status, executionId: outcome?.executionId, error: outcome?.error }, 200);
+  } catch (error) {
+    console.error("Rule webhook error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,40 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildTemplateScope, renderTemplate, renderTemplateValue } from "../_shared/ruleTemplate.ts";
+import { getLocalClock, getTimeOfDay, resolveTimeZone } from "../_shared/time.ts";
+import {
+  parseRuleRow,
+  type BrokenRule,
+  type Rule,
+  type RuleCondition,
+  type RuleConditionGroup as ConditionGroup,
+  type RuleConditionNode as ConditionNode,
+} from "../_shared/ruleSchema.ts";
+import { loadAccessToken } from "../_shared/haToken.ts";
+import { canonicalRoomName, findRoom, type RoomRecord } from "../_shared/rooms.ts";
+import { listCronOccurrences, parseCron } from "../_shared/cron.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface Rule {
-  id: string;
-  user_id: string;
-  name: string;
-  is_enabled: boolean;
-  severity: string;
-  trigger_type: string;
-  trigger_config: Record<string, unknown>;
-  conditions: Array<{
-    type: string;
-    operator: string;
-    value: unknown;
-    entity_id?: string;
-    time_window_minutes?: number;
-    negate?: boolean;
-  }>;
-  cooldown_minutes: number;
-  max_fires_per_day?: number;
-  actions: Array<{
-    type: string;
-    config: Record<string, unknown>;
-  }>;
-  explanation_template?: string;
-  excluded_rooms?: string[];
-  excluded_times?: Array<{ start: string; end: string }>;
-  last_fired_at?: string;
-  times_fired_today: number;
-  last_reset_date?: string;
-}
+type ConditionTrace =
+  | { condition: RuleCondition; result: boolean; actual_value: unknown }
+  | { group: ConditionGroup['group']; result: boolean; children: ConditionTrace[] };
+
+type RuleStep = Rule['actions'][number];
 
 interface EvaluationContext {
   currentRoom?: string;
@@ -44,8 +33,15 @@ interface EvaluationContext {
   dayOfWeek: number;
   currentHour: number;
   currentMinute: number;
+  // Entities of all Home Assistant instances; an entity_id that exists in several is ambiguous here
   entityStates: Record<string, string>;
+  entityAttributes?: Record<string, Record<string, unknown>>;
+  // The same, per instance (home_assistant_config id)
+  instanceEntityStates?: Record<string, Record<string, string>>;
+  instanceEntityAttributes?: Record<string, Record<string, Record<string, unknown>>>;
   activeTaskId?: string;
+  // IANA timezone of the clock fields; used to format dates in templates
+  timeZone?: string;
   triggerData: Record<string, unknown>;
 }
 
@@ -54,92 +50,402 @@ interface ExecuteRulesInput {
   triggerType: string;
   triggerData: Record<string, unknown>;
   context: EvaluationContext;
+  // HA token to use instead of the saved one (ha-subscriber has its own), for instance haConfigId
+  haAccessToken?: string;
+  haConfigId?: string;
+  // Evaluate only this rule (used by rule-scheduler)
+  ruleId?: string;
+  // Run the escalation action of this execution, if it is due and unacknowledged, instead of evaluating rules
+  escalateExecutionId?: string;
+  // Test mode: evaluate ruleId, or the given rule (e.g. unsaved edits), without side effects
+  dryRun?: boolean;
+  rule?: Partial<Rule>;
+  // Replay ruleId (or rule) over this past window instead of evaluating the current event
+  backtest?: BacktestWindow;
+  // Fire ruleId's actions now, skipping its trigger, conditions, cooldown and caps
+  runNow?: boolean;
+  // Same on every retry of one trigger event; a rule fires at most once per key
+  idempotencyKey?: string;
+  // Continue this paused action sequence (claimed by rule-scheduler) instead of evaluating rules
+  resumeSequenceId?: string;
+}
+
+interface ActionResult {
+  type: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  duration_ms?: number;
+}
+
+// One rule in a chain of rules firing each other through emit_signal
+interface ChainLink {
+  rule_id: string;
+  rule_name: string;
+  execution_id: string | null;
+  signal_name: string;
+}
+
+interface SignalChain {
+  // Shared by every execution the first rule set off
+  chainId: string;
+  causedBy: string | null;
+  // From the first rule to the one that emitted this signal
+  links: ChainLink[];
+}
+
+// Rules a single event can set off in a row, counting the first
+const MAX_CHAIN_DEPTH = 5;
+
+// Where a sequence stopped at a delay or wait_until, persisted in rule_sequence_runs
+interface SequencePause {
+  steps: RuleStep[];
+  stepIndex: number;
+  resumeAt: string;
+  waitDeadline: string | null;
+}
+
+interface StepRun {
+  results: ActionResult[];
+  pause?: SequencePause;
+  // A step failed without continue_on_error, so the rest didn't run
+  stopped: boolean;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MINUTES = 60;
+// rule-scheduler runs every minute, so that is how often a wait_until is re-checked
+const WAIT_POLL_MINUTES = 1;
+
+const EXTERNAL_CALL_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+// Read a response body as JSON when possible, otherwise as (truncated) text
+async function readResponseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.length > MAX_RESPONSE_BODY_LENGTH ? `${text.slice(0, MAX_RESPONSE_BODY_LENGTH)}…` : text;
+  }
+}
+
+// POST JSON to an external endpoint and record status, body and latency
+async function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Omit<ActionResult, 'type'>> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), EXTERNAL_CALL_TIMEOUT_MS);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    const responseBody = await readResponseBody(response);
+
+    return {
+      success: response.ok,
+      result: { status: response.status, body: responseBody },
+      error: response.ok ? undefined : `HTTP ${response.status}: ${response.statusText}`,
+      duration_ms: Date.now() - startedAt,
+    };
+  } catch (err) {
+    const aborted = err instanceof DOMException && err.name === 'AbortError';
+    return {
+      success: false,
+      error: aborted
+        ? `Timed out after ${EXTERNAL_CALL_TIMEOUT_MS}ms`
+        : err instanceof Error ? err.message : 'Unknown error',
+      duration_ms: Date.now() - startedAt,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Call a Home Assistant service, e.g. light.turn_on
+async function callHomeAssistantService(
+  instanceUrl: string,
+  accessToken: string,
+  config: Record<string, unknown>
+): Promise<Omit<ActionResult, 'type'>> {
+  const domain = config.domain as string | undefined;
+  const service = config.service as string | undefined;
+  if (!domain || !service) {
+    return { success: false, error: 'domain and service are required' };
+  }
+
+  const serviceBody = {
+    ...(config.entity_id ? { entity_id: config.entity_id } : {}),
+    ...((config.service_data as Record<string, unknown>) || {}),
+  };
+
+  return postJson(
+    `${instanceUrl.replace(/\/$/, '')}/api/services/${domain}/${service}`,
+    serviceBody,
+    { Authorization: `Bearer ${accessToken}` }
+  );
+}
+
+// POST the rule's payload to an n8n webhook
+async function callN8nWebhook(
+  config: Record<string, unknown>,
+  rule: Rule,
+  triggerType: string,
+  triggerData: Record<string, unknown>
+): Promise<Omit<ActionResult, 'type'>> {
+  const webhookUrl = config.webhook_url as string | undefined;
+  if (!webhookUrl) {
+    return { success: false, error: 'webhook_url is required' };
+  }
+
+  const payload = {
+    ...((config.payload_template as Record<string, unknown>) || {}),
+    rule_id: rule.id,
+    rule_name: rule.name,
+    severity: rule.severity,
+    trigger_type: triggerType,
+    trigger_data: triggerData,
+    fired_at: new Date().toISOString(),
+  };
+
+  return postJson(webhookUrl, payload);
+}
+
+// History read by duration conditions (those with time_window_minutes)
+interface ConditionHistory {
+  // When each entity last changed state, from home_assistant_events; keyed by entityKey
+  entityStateSince: Record<string, string | null>;
+  // Rooms the user was observed in, covering the longest room window and ROOM_LOOKBACK_MINUTES before it
+  observations: Array<{ room: string | null; observed_at: string }>;
+  // Evaluation time in ms; set when replaying history, otherwise now
+  asOf?: number;
+}
+
+const EMPTY_HISTORY: ConditionHistory = { entityStateSince: {}, observations: [] };
+
+// How far before a room window (or backtest window) to look for the room the user was in
+const ROOM_LOOKBACK_MINUTES = 60;
+
+// An entity in one Home Assistant instance, or in any instance when none is given
+function entityKey(entityId: string, instanceId?: string): string {
+  return instanceId ? `${instanceId}/${entityId}` : entityId;
+}
+
+function minutesSince(timestamp: string, now = Date.now()): number {
+  return Math.floor((now - new Date(timestamp).getTime()) / 60000);
+}
+
+// Sensor states arrive as strings ("26.5"); treat anything that parses as a number
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// in_range bounds: [min, max], { min, max } or "min-max" / "min,max"
+function parseRange(value: unknown): [unknown, unknown] | null {
+  if (Array.isArray(value) && value.length === 2) return [value[0], value[1]];
+  if (value && typeof value === 'object') {
+    const { min, max } = value as { min?: unknown; max?: unknown };
+    return [min, max];
+  }
+  if (typeof value === 'string') {
+    const match = value.match(/^\s*(-?[\d.]+|\d{1,2}:\d{2})\s*(?:-|,|\.\.)\s*(-?[\d.]+|\d{1,2}:\d{2})\s*$/);
+    if (match) return [match[1], match[2]];
+  }
+  return null;
+}
+
+function parseClockMinutes(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// Whether a minute-of-day falls in [start, end], wrapping past midnight
+function isWithinPeriod(minuteOfDay: number, start: number, end: number): boolean {
+  return start <= end
+    ? minuteOfDay >= start && minuteOfDay <= end
+    : minuteOfDay >= start || minuteOfDay <= end;
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber !== null && expectedNumber !== null) return actualNumber === expectedNumber;
+  if (typeof actual === 'boolean' || typeof expected === 'boolean') {
+    return String(actual).toLowerCase() === String(expected).toLowerCase();
+  }
+  return actual === expected || (actual != null && expected != null && String(actual) === String(expected));
+}
+
+// Apply a condition operator. An array value means "any of" for equals/contains.
+function compareValues(actual: unknown, operator: string, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals':
+      return Array.isArray(expected)
+        ? expected.some(e => valuesEqual(actual, e))
+        : valuesEqual(actual, expected);
+
+    case 'not_equals':
+      return !compareValues(actual, 'equals', expected);
+
+    case 'greater_than':
+    case 'less_than': {
+      const actualNumber = toNumber(actual);
+      const expectedNumber = toNumber(expected);
+      if (actualNumber === null || expectedNumber === null) return false;
+      return operator === 'greater_than' ? actualNumber > expectedNumber : actualNumber < expectedNumber;
+    }
+
+    case 'contains': {
+      const needles = Array.isArray(expected) ? expected : [expected];
+      if (Array.isArray(actual)) {
+        return needles.some(n => actual.some(a => valuesEqual(a, n)));
+      }
+      if (actual === null || actual === undefined) return false;
+      const haystack = (typeof actual === 'object' ? JSON.stringify(actual) : String(actual)).toLowerCase();
+      return needles.some(n => n != null && haystack.includes(String(n).toLowerCase()));
+    }
+
+    case 'in_range': {
+      const range = parseRange(expected);
+      const actualNumber = toNumber(actual);
+      if (!range || actualNumber === null) return false;
+      const [min, max] = range.map(toNumber);
+      return (min === null || actualNumber >= min) && (max === null || actualNumber <= max);
+    }
+
+    default:
+      return false;
+  }
 }
 
 // Evaluate a single condition
 function evaluateCondition(
-  condition: Rule['conditions'][0],
-  context: EvaluationContext
+  condition: RuleCondition,
+  context: EvaluationContext,
+  history: ConditionHistory = EMPTY_HISTORY
 ): { result: boolean; actual_value: unknown } {
   let actualValue: unknown;
   let result = false;
+  const minuteOfDay = context.currentHour * 60 + context.currentMinute;
 
   switch (condition.type) {
-    case 'time_of_day':
+    case 'time_of_day': {
       actualValue = context.timeOfDay;
-      if (Array.isArray(condition.value)) {
-        result = (condition.value as string[]).includes(context.timeOfDay);
+      // in_range takes clock times, e.g. ["21:00", "06:00"]
+      const range = condition.operator === 'in_range' ? parseRange(condition.value) : null;
+      const start = range ? parseClockMinutes(range[0]) : null;
+      const end = range ? parseClockMinutes(range[1]) : null;
+      if (start !== null && end !== null) {
+        actualValue = `${String(context.currentHour).padStart(2, '0')}:${String(context.currentMinute).padStart(2, '0')}`;
+        result = isWithinPeriod(minuteOfDay, start, end);
       } else {
-        result = context.timeOfDay === condition.value;
+        result = compareValues(context.timeOfDay, condition.operator, condition.value);
       }
       break;
+    }
 
     case 'day_of_week':
       actualValue = context.dayOfWeek;
-      if (Array.isArray(condition.value)) {
-        result = (condition.value as number[]).includes(context.dayOfWeek);
-      } else {
-        result = context.dayOfWeek === condition.value;
-      }
+      result = compareValues(context.dayOfWeek, condition.operator, condition.value);
       break;
 
-    case 'entity_state':
-      actualValue = condition.entity_id ? context.entityStates[condition.entity_id] : undefined;
-      result = actualValue === condition.value;
+    case 'entity_state': {
+      const entityId = condition.entity_id;
+      const instanceId = condition.instance_id;
+      const states = instanceId ? context.instanceEntityStates?.[instanceId] : context.entityStates;
+      const attributes = instanceId ? context.instanceEntityAttributes?.[instanceId] : context.entityAttributes;
+      // Read an attribute (e.g. current_temperature, brightness) instead of the state
+      actualValue = !entityId
+        ? undefined
+        : condition.attribute
+          ? attributes?.[entityId]?.[condition.attribute]
+          : states?.[entityId];
+      result = compareValues(actualValue, condition.operator, condition.value);
+
+      // "has been <state> for at least N minutes"
+      if (condition.time_window_minutes && entityId) {
+        const since = history.entityStateSince[entityKey(entityId, instanceId)];
+        const minutesInState = since ? minutesSince(since, history.asOf) : null;
+        actualValue = { value: actualValue, minutes_in_state: minutesInState };
+        result = result && minutesInState !== null && minutesInState >= condition.time_window_minutes;
+      }
       break;
+    }
 
     case 'room':
       actualValue = context.currentRoom;
-      if (condition.operator === 'equals') {
-        result = context.currentRoom === condition.value;
-      } else if (condition.operator === 'not_equals') {
-        result = context.currentRoom !== condition.value;
+      if (condition.time_window_minutes && (condition.operator === 'equals' || condition.operator === 'not_equals')) {
+        // equals: stayed in the room for the whole window; not_equals: room unoccupied for the window.
+        // The room at the window's start is the last one observed at or before it.
+        const asOf = history.asOf ?? Date.now();
+        const windowStart = asOf - condition.time_window_minutes * 60000;
+        const isInRoom = (o: { room: string | null }) => compareValues(o.room, 'equals', condition.value);
+        let atStart: ConditionHistory['observations'][number] | undefined;
+        const recent: ConditionHistory['observations'] = [];
+        for (const o of history.observations) {
+          const at = new Date(o.observed_at).getTime();
+          if (at > asOf) continue;
+          if (at > windowStart) recent.push(o);
+          else if (!atStart || at > new Date(atStart.observed_at).getTime()) atStart = o;
+        }
+        const inRoom = recent.filter(isInRoom).length;
+        const inRoomAtStart = !!atStart && isInRoom(atStart);
+        const inRoomNow = compareValues(context.currentRoom, 'equals', condition.value);
+        actualValue = {
+          current_room: context.currentRoom,
+          room_at_window_start: atStart?.room ?? null,
+          observations: recent.length,
+          in_room: inRoom,
+        };
+        result = condition.operator === 'equals'
+          ? inRoomAtStart && inRoom === recent.length && inRoomNow
+          : !inRoomAtStart && inRoom === 0 && !inRoomNow;
+      } else {
+        result = compareValues(context.currentRoom, condition.operator, condition.value);
       }
       break;
 
     case 'idle_minutes':
       actualValue = context.idleMinutes;
-      const threshold = typeof condition.value === 'number' ? condition.value : parseInt(condition.value as string);
-      if (condition.operator === 'greater_than') {
-        result = context.idleMinutes > threshold;
-      } else if (condition.operator === 'less_than') {
-        result = context.idleMinutes < threshold;
-      } else {
-        result = context.idleMinutes === threshold;
-      }
+      result = compareValues(context.idleMinutes, condition.operator, condition.value);
       break;
 
-    case 'task_in_progress':
+    case 'task_in_progress': {
       actualValue = !!context.activeTaskId;
-      result = condition.value === true ? !!context.activeTaskId : !context.activeTaskId;
+      // contains matches a specific active task id
+      result = condition.operator === 'contains'
+        ? compareValues(context.activeTaskId, 'equals', condition.value)
+        : compareValues(actualValue, condition.operator, condition.value === true || condition.value === 'true');
       break;
+    }
 
-    case 'quiet_hours':
-      const now = context.currentHour * 60 + context.currentMinute;
-      actualValue = now;
+    case 'quiet_hours': {
+      actualValue = minuteOfDay;
       // Check if current time is within any quiet period
-      if (Array.isArray(condition.value)) {
-        for (const period of condition.value as Array<{ start: string; end: string }>) {
-          const [startH, startM] = period.start.split(':').map(Number);
-          const [endH, endM] = period.end.split(':').map(Number);
-          const startMins = startH * 60 + startM;
-          const endMins = endH * 60 + endM;
-          
-          if (startMins <= endMins) {
-            if (now >= startMins && now <= endMins) {
-              result = true;
-              break;
-            }
-          } else {
-            // Overnight period
-            if (now >= startMins || now <= endMins) {
-              result = true;
-              break;
-            }
-          }
-        }
-      }
+      const periods = Array.isArray(condition.value)
+        ? condition.value as Array<{ start: string; end: string }>
+        : [];
+      const inQuietHours = periods.some(period => {
+        const start = parseClockMinutes(period.start);
+        const end = parseClockMinutes(period.end);
+        return start !== null && end !== null && isWithinPeriod(minuteOfDay, start, end);
+      });
+      result = condition.operator === 'not_equals' ? !inQuietHours : inQuietHours;
       break;
+    }
 
     default:
       actualValue = null;
@@ -153,23 +459,163 @@ function evaluateCondition(
   return { result, actual_value: actualValue };
 }
 
-// Check if rule is in cooldown
-function isInCooldown(rule: Rule): boolean {
-  if (!rule.last_fired_at) return false;
+function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return typeof node === 'object' && node !== null && 'group' in node;
+}
+
+function normalizeConditions(conditions: Rule['conditions'] | null | undefined): ConditionGroup {
+  if (Array.isArray(conditions)) return { group: 'all', conditions };
+  if (conditions && isConditionGroup(conditions)) return conditions;
+  return { group: 'all', conditions: [] };
+}
+
+// Leaf conditions of a tree
+function flattenConditions(node: ConditionNode): RuleCondition[] {
+  return isConditionGroup(node) ? (node.conditions || []).flatMap(flattenConditions) : [node];
+}
+
+// Room names as the rooms table spells them, so a rule written with an alias or another
+// spelling matches the canonical names contexts and observations carry
+function withCanonicalRooms(rule: Rule, rooms: RoomRecord[]): Rule {
+  if (!rooms.length) return rule;
+  const canonical = (value: unknown) => typeof value === 'string' ? canonicalRoomName(rooms, value) : value;
+  const canonicalNode = (node: ConditionNode): ConditionNode => {
+    if (isConditionGroup(node)) return { ...node, conditions: node.conditions.map(canonicalNode) };
+    if (node.type !== 'room') return node;
+    return {
+      ...node,
+      value: (Array.isArray(node.value) ? node.value.map(canonical) : canonical(node.value)) as RuleCondition['value'],
+    };
+  };
+  const canonicalSteps = (steps: RuleStep[]): RuleStep[] => steps.map(step => step.type !== 'wait_until' ? step : {
+    ...step,
+    config: {
+      ...step.config,
+      ...(step.config.condition && { condition: canonicalNode(step.config.condition) as ConditionGroup }),
+      ...(step.config.on_timeout && { on_timeout: canonicalSteps(step.config.on_timeout) }),
+    },
+  });
+
+  return {
+    ...rule,
+    trigger_config: rule.trigger_config?.room
+      ? { ...rule.trigger_config, room: canonicalRoomName(rooms, rule.trigger_config.room) }
+      : rule.trigger_config,
+    conditions: rule.conditions ? canonicalNode(normalizeConditions(rule.conditions)) as ConditionGroup : rule.conditions,
+    actions: canonicalSteps(rule.actions || []),
+    excluded_rooms: rule.excluded_rooms?.map(room => canonicalRoomName(rooms, room)),
+  };
+}
+
+// Evaluate a condition tree, keeping every node's result for the execution trace
+function evaluateConditionNode(
+  node: ConditionNode,
+  context: EvaluationContext,
+  history: ConditionHistory = EMPTY_HISTORY
+): ConditionTrace {
+  if (!isConditionGroup(node)) {
+    return { condition: node, ...evaluateCondition(node, context, history) };
+  }
+
+  const children = (node.conditions || []).map(child => evaluateConditionNode(child, context, history));
+  let result: boolean;
+  if (children.length === 0) {
+    result = true;
+  } else if (node.group === 'any') {
+    result = children.some(c => c.result);
+  } else {
+    result = children.every(c => c.result);
+    if (node.group === 'not') result = !result;
+  }
+
+  return { group: node.group, result, children };
+}
+
+// A stored rule that fails the shared schema is reported instead of evaluated
+function brokenRuleResult(broken: BrokenRule) {
+  return {
+    ruleId: broken.id,
+    ruleName: broken.name,
+    status: 'skipped_invalid',
+    error: `Invalid rule: ${broken.issues.join('; ')}`,
+  };
+}
+
+// Check the rule's trigger_config against the event that fired it.
+// Unset config fields match anything.
+function matchesTrigger(rule: Rule, triggerData: Record<string, unknown>): boolean {
+  const config = rule.trigger_config || {};
+  const matches = (key: string, actual: unknown) =>
+    config[key] === undefined || config[key] === '' || config[key] === actual;
+
+  switch (rule.trigger_type) {
+    case 'home_assistant': {
+      const attribute = config.attribute as string | undefined;
+      const attributes = (triggerData.attributes as Record<string, unknown> | undefined) || {};
+      const previousAttributes = (triggerData.from_attributes as Record<string, unknown> | undefined) || {};
+
+      if (!matches('instance_id', triggerData.instance_id)
+        || !matches('entity_id', triggerData.entity_id)
+        || !matches('from_state', triggerData.from_state)
+        || !matches('to_state', triggerData.to_state)) {
+        return false;
+      }
+      // Without an attribute, only state changes count; with one, only changes of that attribute
+      if (!attribute) return triggerData.state_changed !== false;
+      if (JSON.stringify(attributes[attribute]) === JSON.stringify(previousAttributes[attribute])) {
+        return false;
+      }
+      return config.attribute_value === undefined || config.attribute_value === ''
+        || valuesEqual(attributes[attribute], config.attribute_value);
+    }
+
+    case 'camera': {
+      const objects = (triggerData.objects_detected as string[] | undefined) || [];
+      return matches('camera_id', triggerData.camera_id)
+        && matches('activity_tag', triggerData.activity_tag)
+        && matches('room', triggerData.room)
+        && (!config.object_detected || objects.includes(config.object_detected as string));
+    }
+
+    case 'task_state':
+      return matches('status', triggerData.status)
+        && matches('priority', triggerData.priority)
+        && (!config.overdue_minutes
+          || ((triggerData.overdue_minutes as number) || 0) >= (config.overdue_minutes as number));
+
+    case 'goal_state':
+      return matches('goal_id', triggerData.goal_id)
+        && (config.progress_below === undefined
+          || (typeof triggerData.progress_percent === 'number'
+            && triggerData.progress_percent < (config.progress_below as number)))
+        && (config.days_until_due === undefined
+          || (typeof triggerData.days_until_due === 'number'
+            && triggerData.days_until_due <= (config.days_until_due as number)));
+
+    case 'manual':
+      return matches('signal_name', triggerData.signal_name);
+
+    default:
+      return true;
+  }
+}
+
+// Check if rule is in cooldown. Schedule rules fire on every cron occurrence, which
+// rule-scheduler already claims once each, so the cooldown does not apply to them.
+function isInCooldown(rule: Rule, now = new Date()): boolean {
+  if (!rule.last_fired_at || rule.trigger_type === 'schedule') return false;
   
   const lastFired = new Date(rule.last_fired_at).getTime();
-  const now = Date.now();
   const cooldownMs = rule.cooldown_minutes * 60 * 1000;
   
-  return (now - lastFired) < cooldownMs;
+  return (now.getTime() - lastFired) < cooldownMs;
 }
 
-// Check if rule hit daily cap
-function hitDailyCap(rule: Rule): boolean {
+// Check if rule hit daily cap; today is the user's local date
+function hitDailyCap(rule: Rule, today: string): boolean {
   if (!rule.max_fires_per_day) return false;
   
   // Reset counter if new day
-  const today = new Date().toISOString().split('T')[0];
   if (rule.last_reset_date !== today) {
     return false; // Will be reset when we update
   }
@@ -199,24 +645,523 @@ function isInExcludedTime(rule: Rule, hour: number, minute: number): boolean {
   return false;
 }
 
-// Render explanation template
-function renderExplanation(template: string | undefined, context: EvaluationContext, triggerData: Record<string, unknown>): string {
-  if (!template) return '';
-  
-  let result = template;
-  
-  // Replace context variables
-  result = result.replace(/{idle_minutes}/g, String(context.idleMinutes));
-  result = result.replace(/{room}/g, context.currentRoom || 'unknown');
-  result = result.replace(/{activity}/g, context.currentActivity || 'unknown');
-  result = result.replace(/{time_of_day}/g, context.timeOfDay);
-  
-  // Replace trigger data
-  for (const [key, value] of Object.entries(triggerData)) {
-    result = result.replace(new RegExp(`{${key}}`, 'g'), String(value));
+// Backtesting: replay recorded history through one rule, simulating its cooldown and daily cap
+
+const MAX_BACKTEST_DAYS = 31;
+// Rows read per history source, and timeline entries returned
+const MAX_BACKTEST_ROWS = 20000;
+const MAX_BACKTEST_TIMELINE = 500;
+const PAGE_SIZE = 1000;
+// Same cadence as the client's overdue task check (useRuleEvents), which fires a rule once per task and due date
+const OVERDUE_CHECK_INTERVAL_MINUTES = 5;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface BacktestWindow {
+  from: string;
+  to: string;
+  // IANA timezone used for time conditions, excluded times and days; the user's setting wins
+  timeZone?: string;
+}
+
+interface BacktestEvent {
+  at: number;
+  triggerData: Record<string, unknown>;
+  // Like a live event's key: once an event with it fires the rule, later ones are duplicates
+  idempotencyKey?: string;
+}
+
+interface BacktestEntry {
+  at: string;
+  status: 'fired' | 'skipped_cooldown' | 'skipped_daily_cap' | 'skipped_excluded_time' | 'skipped_excluded_room' | 'skipped_conditions';
+  triggerData: Record<string, unknown>;
+  explanation?: string;
+  conditions?: ConditionTrace;
+}
+
+// PostgREST caps each response, so page through long windows
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  while (rows.length < MAX_BACKTEST_ROWS) {
+    const { data, error } = await fetchPage(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
   }
-  
-  return result;
+  return rows;
+}
+
+async function runBacktest(
+  supabase: SupabaseClient,
+  userId: string,
+  rule: Rule,
+  window: BacktestWindow,
+  rooms: RoomRecord[] = []
+) {
+  const from = new Date(window.from);
+  const to = new Date(window.to);
+  const timeZone = window.timeZone || 'UTC';
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    throw new Error('Backtest window needs a valid from before to');
+  }
+  if (to.getTime() - from.getTime() > MAX_BACKTEST_DAYS * 86400000) {
+    throw new Error(`Backtest window is limited to ${MAX_BACKTEST_DAYS} days`);
+  }
+
+  const conditionTree = normalizeConditions(rule.conditions);
+  const leaves = flattenConditions(conditionTree);
+  const windowOf = (type: string) => Math.max(0, ...leaves
+    .filter(c => c.type === type && c.time_window_minutes)
+    .map(c => c.time_window_minutes!));
+  const uses = (type: string) => leaves.some(c => c.type === type);
+  const config = rule.trigger_config || {};
+  const notes: string[] = [];
+  let truncated = false;
+
+  const events: BacktestEvent[] = [];
+  const inWindow = (at: number) => at >= from.getTime() && at <= to.getTime();
+
+  // Entity states: replay state changes on top of the states before the window
+  const entityStates: Record<string, string> = {};
+  const entityAttributes: Record<string, Record<string, unknown>> = {};
+  const instanceEntityStates: Record<string, Record<string, string>> = {};
+  const instanceEntityAttributes: Record<string, Record<string, Record<string, unknown>>> = {};
+  const entityStateSince: Record<string, string | null> = {};
+  let stateChanges: Array<{
+    config_id: string;
+    entity_id: string;
+    old_state: string | null;
+    new_state: string | null;
+    occurred_at: string;
+  }> = [];
+
+  // Keep the all-instances and the per-instance view of an entity in step
+  const setEntityState = (configId: string, entityId: string, state: string | null) => {
+    if (!instanceEntityStates[configId]) instanceEntityStates[configId] = {};
+    for (const states of [entityStates, instanceEntityStates[configId]]) {
+      if (state !== null) states[entityId] = state;
+      else delete states[entityId];
+    }
+  };
+  const setEntitySince = (configId: string, entityId: string, since: string) => {
+    entityStateSince[entityId] = since;
+    entityStateSince[entityKey(entityId, configId)] = since;
+  };
+
+  if (rule.trigger_type === 'home_assistant' || uses('entity_state')) {
+    const entityWindow = windowOf('entity_state');
+    const historyStart = new Date(from.getTime() - entityWindow * 60000).toISOString();
+
+    const [{ data: entities }, changes] = await Promise.all([
+      supabase
+        .from('home_assistant_entities')
+        .select('config_id, entity_id, state, attributes')
+        .eq('user_id', userId),
+      fetchAllRows((start, end) => supabase
+        .from('home_assistant_events')
+        .select('config_id, entity_id, old_state, new_state, occurred_at')
+        .eq('user_id', userId)
+        .gte('occurred_at', historyStart)
+        .lte('occurred_at', to.toISOString())
+        .order('occurred_at', { ascending: true })
+        .range(start, end)),
+    ]);
+    stateChanges = changes as typeof stateChanges;
+    if (stateChanges.length >= MAX_BACKTEST_ROWS) truncated = true;
+
+    // Entities that did not change since historyStart have held their state for at least the window
+    for (const entity of entities || []) {
+      const attributes = (entity.attributes as Record<string, unknown>) || {};
+      setEntityState(entity.config_id, entity.entity_id, entity.state);
+      entityAttributes[entity.entity_id] = attributes;
+      if (!instanceEntityAttributes[entity.config_id]) instanceEntityAttributes[entity.config_id] = {};
+      instanceEntityAttributes[entity.config_id][entity.entity_id] = attributes;
+      setEntitySince(entity.config_id, entity.entity_id, historyStart);
+    }
+    const seen = new Set<string>();
+    for (const change of stateChanges) {
+      const key = entityKey(change.entity_id, change.config_id);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      setEntityState(change.config_id, change.entity_id, change.old_state);
+    }
+
+    if (rule.trigger_type === 'home_assistant') {
+      for (const change of stateChanges) {
+        const at = new Date(change.occurred_at).getTime();
+        if (!inWindow(at)) continue;
+        events.push({
+          at,
+          triggerData: {
+            instance_id: change.config_id,
+            entity_id: change.entity_id,
+            from_state: change.old_state,
+            to_state: change.new_state,
+            state_changed: true,
+            attributes: instanceEntityAttributes[change.config_id]?.[change.entity_id] || {},
+            from_attributes: instanceEntityAttributes[change.config_id]?.[change.entity_id] || {},
+          },
+        });
+      }
+      if (config.attribute) {
+        notes.push('Attribute changes are not recorded, so attribute triggers cannot be replayed');
+      }
+    }
+    if (leaves.some(c => c.type === 'entity_state' && c.attribute)) {
+      notes.push('Attribute history is not recorded; current attribute values are used throughout');
+    }
+  }
+
+  // Rooms, from camera observations
+  let observations: Array<{
+    camera_id: string | null;
+    room: string | null;
+    activity_detected: string | null;
+    objects_detected: string[] | null;
+    snapshot_description: string | null;
+    observed_at: string;
+  }> = [];
+  const roomWindow = windowOf('room');
+
+  if (rule.trigger_type === 'camera' || uses('room') || rule.excluded_rooms?.length) {
+    const lookback = roomWindow + ROOM_LOOKBACK_MINUTES;
+    observations = await fetchAllRows((start, end) => supabase
+      .from('behavioral_observations')
+      .select('camera_id, room, activity_detected, objects_detected, snapshot_description, observed_at')
+      .eq('user_id', userId)
+      .gte('observed_at', new Date(from.getTime() - lookback * 60000).toISOString())
+      .lte('observed_at', to.toISOString())
+      .order('observed_at', { ascending: true })
+      .range(start, end)) as typeof observations;
+    observations = observations.map(o => ({ ...o, room: canonicalRoomName(rooms, o.room) }));
+    if (observations.length >= MAX_BACKTEST_ROWS) truncated = true;
+
+    if (rule.trigger_type === 'camera') {
+      for (const observation of observations) {
+        const at = new Date(observation.observed_at).getTime();
+        if (!inWindow(at)) continue;
+        events.push({
+          at,
+          triggerData: {
+            camera_id: observation.camera_id,
+            room: observation.room,
+            activity_tag: observation.activity_detected,
+            objects_detected: observation.objects_detected || [],
+            observation: observation.snapshot_description,
+          },
+        });
+      }
+    }
+  }
+
+  // Tasks: status changes come from created/started/completed timestamps
+  let tasks: Array<{
+    id: string;
+    title: string;
+    priority: string;
+    room: string | null;
+    due_at: string | null;
+    created_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+  }> = [];
+
+  if (rule.trigger_type === 'task_state' || uses('task_in_progress')) {
+    tasks = await fetchAllRows((start, end) => supabase
+      .from('tasks')
+      .select('id, title, priority, room, due_at, created_at, started_at, completed_at')
+      .eq('user_id', userId)
+      .lte('created_at', to.toISOString())
+      .or(`completed_at.is.null,completed_at.gte.${from.toISOString()}`)
+      .order('created_at', { ascending: true })
+      .range(start, end)) as typeof tasks;
+    if (tasks.length >= MAX_BACKTEST_ROWS) truncated = true;
+
+    if (rule.trigger_type === 'task_state') {
+      for (const task of tasks) {
+        const startedAt = task.started_at ? new Date(task.started_at).getTime() : null;
+        const completedAt = task.completed_at ? new Date(task.completed_at).getTime() : null;
+        const dueAt = task.due_at ? new Date(task.due_at).getTime() : null;
+        const statusAt = (at: number) =>
+          completedAt !== null && at >= completedAt ? 'completed'
+            : startedAt !== null && at >= startedAt ? 'in_progress'
+              : 'pending';
+        const taskEvent = (at: number) => ({
+          at,
+          triggerData: {
+            task_id: task.id,
+            task_title: task.title,
+            status: statusAt(at),
+            priority: task.priority,
+            room: task.room,
+            due_at: task.due_at,
+            overdue_minutes: dueAt !== null && at > dueAt ? Math.floor((at - dueAt) / 60000) : 0,
+          },
+        });
+
+        for (const timestamp of [task.created_at, task.started_at, task.completed_at]) {
+          const at = timestamp ? new Date(timestamp).getTime() : null;
+          if (at !== null && inWindow(at)) events.push(taskEvent(at));
+        }
+
+        // Open overdue tasks are checked periodically, keyed by task and due date as the client does,
+        // so the rule fires once per due date: at the first check that matches and passes
+        if (dueAt !== null) {
+          const step = OVERDUE_CHECK_INTERVAL_MINUTES * 60000;
+          const end = Math.min(to.getTime(), completedAt ?? Infinity);
+          const idempotencyKey = `overdue:${task.id}:${task.due_at}`;
+          let at = dueAt + step * Math.max(1, Math.ceil((from.getTime() - dueAt) / step));
+          for (; at < end && events.length < MAX_BACKTEST_ROWS * 5; at += step) {
+            events.push({ ...taskEvent(at), idempotencyKey });
+          }
+          if (at < end) truncated = true;
+        }
+      }
+      notes.push('Task priority and due date are their current values; edits are not recorded');
+    }
+  }
+
+  // Goals: progress after each logged value, working back from the current value
+  if (rule.trigger_type === 'goal_state') {
+    const [{ data: goals }, logs] = await Promise.all([
+      supabase
+        .from('goals')
+        .select('id, title, status, current_value, target_value, unit, due_date')
+        .eq('user_id', userId),
+      fetchAllRows((start, end) => supabase
+        .from('goal_logs')
+        .select('goal_id, value, logged_at')
+        .eq('user_id', userId)
+        .gte('logged_at', from.toISOString())
+        .order('logged_at', { ascending: false })
+        .range(start, end)),
+    ]);
+
+    const valueAfter: Record<string, number> = {};
+    for (const goal of goals || []) valueAfter[goal.id] = goal.current_value || 0;
+
+    for (const log of logs as Array<{ goal_id: string; value: number | null; logged_at: string | null }>) {
+      const goal = (goals || []).find(g => g.id === log.goal_id);
+      if (!goal || !log.logged_at) continue;
+
+      const value = valueAfter[goal.id];
+      valueAfter[goal.id] = value - (log.value || 0);
+      const at = new Date(log.logged_at).getTime();
+      if (!inWindow(at)) continue;
+
+      events.push({
+        at,
+        triggerData: {
+          goal_id: goal.id,
+          goal_title: goal.title,
+          status: goal.status,
+          current_value: value,
+          target_value: goal.target_value,
+          unit: goal.unit,
+          progress_percent: goal.target_value ? Math.round((value / goal.target_value) * 100) : undefined,
+          days_until_due: goal.due_date
+            ? Math.ceil((new Date(goal.due_date).getTime() - at) / 86400000)
+            : undefined,
+        },
+      });
+    }
+  }
+
+  // Schedules: every occurrence of the cron in the window, so new and unsaved rules can be tried too
+  if (rule.trigger_type === 'schedule') {
+    if (!config.cron) {
+      notes.push('The rule has no cron expression, so there is nothing to replay');
+    } else {
+      const scheduleTimeZone = config.timezone || timeZone;
+      const limit = MAX_BACKTEST_ROWS * 5;
+      const occurrences = listCronOccurrences(parseCron(config.cron), scheduleTimeZone, from, to, limit);
+      if (occurrences.length >= limit) truncated = true;
+
+      for (const occurrence of occurrences) {
+        events.push({
+          at: occurrence.getTime(),
+          triggerData: {
+            cron: config.cron,
+            timezone: scheduleTimeZone,
+            scheduled_for: occurrence.toISOString(),
+            is_catch_up: false,
+          },
+        });
+      }
+      notes.push('Schedule occurrences are computed from the cron; scheduler downtime and catch-up are not simulated');
+    }
+  }
+
+  // Webhooks: the deliveries this rule evaluated, as recorded in its executions
+  if (rule.trigger_type === 'webhook') {
+    if (rule.id === 'unsaved') {
+      notes.push('Webhook deliveries are replayed from the rule\'s past executions, so save the rule first');
+    } else {
+      const deliveries = await fetchAllRows((start, end) => supabase
+        .from('rule_executions')
+        .select('trigger_data, triggered_at')
+        .eq('rule_id', rule.id)
+        .eq('user_id', userId)
+        .is('parent_execution_id', null)
+        .gte('triggered_at', from.toISOString())
+        .lte('triggered_at', to.toISOString())
+        .order('triggered_at', { ascending: true })
+        .range(start, end)) as Array<{ trigger_data: Record<string, unknown> | null; triggered_at: string }>;
+      if (deliveries.length >= MAX_BACKTEST_ROWS) truncated = true;
+
+      for (const delivery of deliveries) {
+        // Run now fires are not deliveries
+        if (delivery.trigger_data?.run_now) continue;
+        events.push({ at: new Date(delivery.triggered_at).getTime(), triggerData: delivery.trigger_data || {} });
+      }
+      notes.push('Deliveries rejected before evaluation (bad signature, rate limit) and retried duplicates are not recorded');
+    }
+  }
+
+  if (rule.trigger_type === 'manual') {
+    notes.push('Manual signals are not recorded, so there is nothing to replay');
+  }
+  if (uses('idle_minutes')) {
+    notes.push('Idle time is not recorded; idle_minutes is treated as 0');
+  }
+
+  events.sort((a, b) => a.at - b.at);
+
+  // Simulated rule state, starting as if it had never fired
+  const simulated: Rule = { ...rule, last_fired_at: undefined, times_fired_today: 0, last_reset_date: undefined };
+  const timeline: BacktestEntry[] = [];
+  const skipped = { cooldown: 0, daily_cap: 0, excluded_time: 0, excluded_room: 0, conditions: 0 };
+  const firesPerDay: Record<string, number> = {};
+  const firedKeys = new Set<string>();
+  let matched = 0;
+  let fired = 0;
+
+  let changeIndex = 0;
+  let observationIndex = 0;
+  let currentRoom: string | undefined;
+  let currentActivity: string | undefined;
+  let recentObservations: ConditionHistory['observations'] = [];
+
+  for (const event of events) {
+    // Bring the context up to the event time
+    while (changeIndex < stateChanges.length && new Date(stateChanges[changeIndex].occurred_at).getTime() <= event.at) {
+      const change = stateChanges[changeIndex++];
+      setEntityState(change.config_id, change.entity_id, change.new_state);
+      setEntitySince(change.config_id, change.entity_id, change.occurred_at);
+    }
+    while (observationIndex < observations.length && new Date(observations[observationIndex].observed_at).getTime() <= event.at) {
+      const observation = observations[observationIndex++];
+      currentRoom = observation.room || undefined;
+      currentActivity = observation.activity_detected || undefined;
+      recentObservations.push({ room: observation.room, observed_at: observation.observed_at });
+    }
+    recentObservations = recentObservations.filter(o => minutesSince(o.observed_at, event.at) <= roomWindow + ROOM_LOOKBACK_MINUTES);
+
+    // As live, an event whose key already fired the rule is a duplicate, not a cooldown skip
+    if (event.idempotencyKey && firedKeys.has(event.idempotencyKey)) continue;
+    if (!matchesTrigger(simulated, event.triggerData)) continue;
+    matched++;
+
+    const at = new Date(event.at);
+    const clock = getLocalClock(at, timeZone);
+    const activeTask = tasks
+      .filter(t => t.started_at && new Date(t.started_at).getTime() <= event.at
+        && (!t.completed_at || new Date(t.completed_at).getTime() > event.at))
+      .pop();
+    const context: EvaluationContext = {
+      currentRoom,
+      currentActivity,
+      idleMinutes: 0,
+      timeOfDay: getTimeOfDay(clock.hour),
+      dayOfWeek: clock.dayOfWeek,
+      currentHour: clock.hour,
+      currentMinute: clock.minute,
+      entityStates,
+      entityAttributes,
+      instanceEntityStates,
+      instanceEntityAttributes,
+      activeTaskId: activeTask?.id,
+      triggerData: event.triggerData,
+    };
+
+    // Same order of checks as a live evaluation
+    let status: BacktestEntry['status'];
+    let conditionResults: ConditionTrace | undefined;
+    if (isInCooldown(simulated, at)) {
+      status = 'skipped_cooldown';
+      skipped.cooldown++;
+    } else if (hitDailyCap(simulated, clock.date)) {
+      status = 'skipped_daily_cap';
+      skipped.daily_cap++;
+    } else if (isInExcludedTime(simulated, clock.hour, clock.minute)) {
+      status = 'skipped_excluded_time';
+      skipped.excluded_time++;
+    } else if (simulated.excluded_rooms?.includes(currentRoom || '')) {
+      status = 'skipped_excluded_room';
+      skipped.excluded_room++;
+    } else {
+      conditionResults = evaluateConditionNode(conditionTree, context, {
+        entityStateSince,
+        observations: recentObservations,
+        asOf: event.at,
+      });
+      if (conditionResults.result) {
+        status = 'fired';
+        fired++;
+        firesPerDay[clock.date] = (firesPerDay[clock.date] || 0) + 1;
+
+        simulated.times_fired_today = simulated.last_reset_date === clock.date ? simulated.times_fired_today + 1 : 1;
+        simulated.last_reset_date = clock.date;
+        simulated.last_fired_at = at.toISOString();
+        if (event.idempotencyKey) firedKeys.add(event.idempotencyKey);
+      } else {
+        status = 'skipped_conditions';
+        skipped.conditions++;
+      }
+    }
+
+    if (timeline.length < MAX_BACKTEST_TIMELINE) {
+      timeline.push({
+        at: at.toISOString(),
+        status,
+        triggerData: event.triggerData,
+        explanation: status === 'fired'
+          ? renderTemplate(
+            rule.explanation_template,
+            buildTemplateScope({ context, triggerData: event.triggerData, rule, now: at }),
+            { timeZone }
+          )
+          : undefined,
+        conditions: conditionResults,
+      });
+    } else {
+      truncated = true;
+    }
+  }
+
+  const days = Math.max(1, (to.getTime() - from.getTime()) / 86400000);
+  if (truncated) notes.push('The window had more history than could be replayed; results are partial');
+
+  return {
+    backtest: true,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    timeZone,
+    events: events.length,
+    matched,
+    fired,
+    skipped,
+    firesPerDay,
+    averageFiresPerDay: Math.round((fired / days) * 10) / 10,
+    maxFiresPerDay: Math.max(0, ...Object.values(firesPerDay)),
+    timeline,
+    truncated,
+    notes,
+  };
 }
 
 serve(async (req) => {
@@ -225,94 +1170,197 @@ serve(async (req) => {
   }
 
   try {
-    const { userId, triggerType, triggerData, context } = await req.json() as ExecuteRulesInput;
+    const {
+      userId, triggerType, triggerData, context: callerContext, haAccessToken, haConfigId, ruleId, escalateExecutionId, dryRun,
+      rule: unsavedRule, backtest, runNow, idempotencyKey, resumeSequenceId,
+    } = await req.json() as ExecuteRulesInput;
     
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Fetch enabled rules for this trigger type
-    const { data: rules, error: rulesError } = await supabase
-      .from('rules')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('is_enabled', true)
-      .eq('trigger_type', triggerType);
-
-    if (rulesError) throw rulesError;
-    if (!rules?.length) {
-      return new Response(
-        JSON.stringify({ executed: 0, results: [] }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // The other edge functions call with the service role key; the app calls with the user's
+    // session, which may only act for that user. Checked before anything of the user's is loaded.
+    const authHeader = req.headers.get("authorization");
+    const isServiceCall = authHeader === `Bearer ${supabaseKey}`;
+    if (!isServiceCall) {
+      const token = authHeader?.replace("Bearer ", "");
+      const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+      if (!user || !userId || user.id !== userId) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      // Escalations and sequence resumes are only started by rule-scheduler's claims,
+      // and only ha-subscriber brings its own Home Assistant token
+      if (escalateExecutionId || resumeSequenceId || haAccessToken || haConfigId) {
+        return new Response(JSON.stringify({ error: "Forbidden" }), {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
     }
 
-    const results: Array<{
-      ruleId: string;
-      ruleName: string;
-      status: string;
-      explanation?: string;
-      actions?: Array<{ type: string; success: boolean; error?: string }>;
-    }> = [];
+    // A dry run evaluates against the context it is given, so it needs one
+    if (dryRun && !backtest && (!callerContext || typeof callerContext !== 'object')) {
+      return new Response(JSON.stringify({ error: "A dry run needs a context" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
 
-    for (const ruleData of rules) {
-      const rule = ruleData as unknown as Rule;
-      
-      // Check cooldown
-      if (isInCooldown(rule)) {
-        results.push({ ruleId: rule.id, ruleName: rule.name, status: 'skipped_cooldown' });
-        continue;
+    // Days, times and dates are the user's, whatever clock the caller has
+    const [{ data: userSettings }, { data: roomRows }] = await Promise.all([
+      supabase
+        .from('user_settings')
+        .select('timezone')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      supabase
+        .from('rooms')
+        .select('id, name, aliases, config_id, ha_area_id')
+        .eq('user_id', userId),
+    ]);
+    const rooms: RoomRecord[] = roomRows || [];
+    const timeZone = resolveTimeZone(userSettings?.timezone, callerContext?.timeZone);
+    const clock = getLocalClock(now, timeZone);
+    const today = clock.date;
+
+    // A dry run keeps the clock it was given, so other times of day can be tried
+    const context: EvaluationContext = dryRun ? callerContext : {
+      ...callerContext,
+      timeOfDay: getTimeOfDay(clock.hour),
+      dayOfWeek: clock.dayOfWeek,
+      currentHour: clock.hour,
+      currentMinute: clock.minute,
+      timeZone,
+    };
+
+    // Rooms go by the rooms table's names from here on, whichever name or alias the caller used
+    if (context?.currentRoom) context.currentRoom = canonicalRoomName(rooms, context.currentRoom);
+    if (typeof triggerData?.room === 'string') triggerData.room = canonicalRoomName(rooms, triggerData.room);
+    const parseRule = (row: unknown): ReturnType<typeof parseRuleRow> => {
+      const parsed = parseRuleRow(row);
+      return parsed.broken ? parsed : { rule: withCanonicalRooms(parsed.rule, rooms) };
+    };
+
+    // Home Assistant config is only looked up once a rule actually needs it.
+    // The caller's token wins for its instance (ha-subscriber sends its own); otherwise the saved one is decrypted.
+    // Without an instance id, the first active instance is used.
+    let haConfigs: Array<{ id: string; instance_url: string; is_active: boolean | null }> | undefined;
+    const haConnections = new Map<string, { instanceUrl: string; accessToken: string | null } | null>();
+    const getHAConnection = async (instanceId?: string) => {
+      if (!haConfigs) {
+        const { data } = await supabase
+          .from('home_assistant_config')
+          .select('id, instance_url, is_active')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true });
+        haConfigs = data || [];
       }
+      const haConfig = instanceId
+        ? haConfigs.find(c => c.id === instanceId)
+        : haConfigs.find(c => c.is_active !== false);
+      if (!haConfig || haConfig.is_active === false) return null;
 
-      // Check daily cap
-      if (hitDailyCap(rule)) {
-        results.push({ ruleId: rule.id, ruleName: rule.name, status: 'skipped_daily_cap' });
-        continue;
+      if (!haConnections.has(haConfig.id)) {
+        haConnections.set(haConfig.id, {
+          instanceUrl: haConfig.instance_url,
+          accessToken: haAccessToken && (!haConfigId || haConfigId === haConfig.id)
+            ? haAccessToken
+            : await loadAccessToken(supabase, haConfig.id).catch((err) => {
+              console.error('Failed to load Home Assistant token:', err);
+              return null;
+            }),
+        });
       }
+      return haConnections.get(haConfig.id)!;
+    };
+
+    // Load the history duration conditions need; shared by all rules in this request
+    const entityStateSince: Record<string, string | null> = {};
+    let observations: ConditionHistory['observations'] = [];
+    let observationsWindow = 0;
+    const loadConditionHistory = async (conditions: RuleCondition[]): Promise<ConditionHistory> => {
+      const durationConditions = conditions.filter(c => c.time_window_minutes);
 
-      // Check excluded times
-      if (isInExcludedTime(rule, context.currentHour, context.currentMinute)) {
-        results.push({ ruleId: rule.id, ruleName: rule.name, status: 'skipped_excluded_time' });
-        continue;
+      for (const condition of durationConditions) {
+        if (condition.type !== 'entity_state' || !condition.entity_id) continue;
+        const key = entityKey(condition.entity_id, condition.instance_id);
+        if (key in entityStateSince) continue;
+
+        let query = supabase
+          .from('home_assistant_events')
+          .select('occurred_at')
+          .eq('user_id', userId)
+          .eq('entity_id', condition.entity_id);
+        if (condition.instance_id) query = query.eq('config_id', condition.instance_id);
+        const { data: lastChange } = await query
+          .order('occurred_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        entityStateSince[key] = lastChange?.occurred_at ?? null;
       }
 
-      // Check excluded rooms
-      if (rule.excluded_rooms?.includes(context.currentRoom || '')) {
-        results.push({ ruleId: rule.id, ruleName: rule.name, status: 'skipped_excluded_room' });
-        continue;
+      const roomWindow = Math.max(0, ...durationConditions
+        .filter(c => c.type === 'room')
+        .map(c => c.time_window_minutes!));
+      if (roomWindow > observationsWindow) {
+        const { data } = await supabase
+          .from('behavioral_observations')
+          .select('room, observed_at')
+          .eq('user_id', userId)
+          .gte('observed_at', new Date(Date.now() - (roomWindow + ROOM_LOOKBACK_MINUTES) * 60000).toISOString())
+          .order('observed_at', { ascending: false });
+        observations = (data || []).map(o => ({ ...o, room: canonicalRoomName(rooms, o.room) }));
+        observationsWindow = roomWindow;
       }
 
-      // Evaluate conditions
-      const conditionResults = rule.conditions.map(c => ({
-        condition: c,
-        ...evaluateCondition(c, context)
-      }));
-      
-      const allConditionsMet = conditionResults.every(c => c.result);
-      
-      if (!allConditionsMet) {
-        // Log the skipped execution
-        await supabase.from('rule_executions').insert({
-          user_id: userId,
-          rule_id: rule.id,
-          trigger_data: triggerData,
-          conditions_evaluated: conditionResults,
-          all_conditions_met: false,
-          actions_executed: [],
-          execution_status: 'skipped_conditions'
-        });
-        
-        results.push({ ruleId: rule.id, ruleName: rule.name, status: 'skipped_conditions' });
-        continue;
+      return { entityStateSince, observations };
+    };
+
+    // Variables for explanation and action templates, including the task/goal the event is about
+    const templateOptions = { timeZone: context?.timeZone || timeZone };
+    const loadTemplateScope = async (rule: Rule, triggerData: Record<string, unknown>) => {
+      const taskId = (triggerData.task_id as string | undefined) || context?.activeTaskId;
+      const goalId = triggerData.goal_id as string | undefined;
+      const [{ data: task }, { data: goal }] = await Promise.all([
+        taskId
+          ? supabase.from('tasks').select('*').eq('id', taskId).eq('user_id', userId).maybeSingle()
+          : Promise.resolve({ data: null }),
+        goalId
+          ? supabase.from('goals').select('*').eq('id', goalId).eq('user_id', userId).maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+      return buildTemplateScope({ context, triggerData, rule, task, goal });
+    };
+
+    const renderActionConfig = (config: Record<string, unknown>, scope: Record<string, unknown>) => {
+      const rendered = { ...config };
+      for (const key of ['message', 'title', 'description'] as const) {
+        if (typeof rendered[key] === 'string') rendered[key] = renderTemplate(rendered[key] as string, scope, templateOptions);
       }
+      if (rendered.payload_template) {
+        rendered.payload_template = renderTemplateValue(rendered.payload_template, scope, templateOptions);
+      }
+      return rendered;
+    };
+
+    const runActions = async (
+      rule: Rule,
+      actions: Rule['actions'],
+      triggerType: string,
+      triggerData: Record<string, unknown>,
+      scope?: Record<string, unknown>
+    ): Promise<ActionResult[]> => {
+      const actionResults: ActionResult[] = [];
+      scope ??= await loadTemplateScope(rule, triggerData);
 
-      // Execute actions
-      const actionResults: Array<{ type: string; success: boolean; result?: unknown; error?: string }> = [];
-      
-      for (const action of rule.actions) {
+      for (const template of actions) {
+        const action = { ...template, config: renderActionConfig(template.config, scope) };
         try {
           switch (action.type) {
             case 'notify':
@@ -364,6 +1412,8 @@ serve(async (req) => {
                   .update({ current_value: (goal.current_value || 0) + (action.config.increment_value || 1) })
                   .eq('id', action.config.goal_id);
                 actionResults.push({ type: 'update_goal', success: !goalError, error: goalError?.message });
+              } else {
+                actionResults.push({ type: 'update_goal', success: false, error: 'Goal not found' });
               }
               break;
 
@@ -378,16 +1428,56 @@ serve(async (req) => {
               actionResults.push({ type: 'set_context', success: !ctxError, error: ctxError?.message });
               break;
 
-            case 'home_assistant':
+            case 'home_assistant': {
+              // A room targets its Home Assistant area, on the instance the area belongs to
+              const roomName = (action.config.room === 'current' ? context?.currentRoom : action.config.room) as string | undefined;
+              const room = action.config.room ? findRoom(rooms, roomName) : undefined;
+              const instanceId = (action.config.instance_id as string | undefined) || room?.config_id || undefined;
+              const ha = await getHAConnection(instanceId);
+              if (action.config.room && !room?.ha_area_id) {
+                actionResults.push({
+                  type: 'home_assistant',
+                  success: false,
+                  error: roomName ? `${roomName} is not a Home Assistant area` : 'The current room is unknown',
+                });
+              } else if (room && room.config_id !== instanceId) {
+                actionResults.push({ type: 'home_assistant', success: false, error: `${room.name} is an area of another Home Assistant instance` });
+              } else if (!ha) {
+                actionResults.push({ type: 'home_assistant', success: false, error: 'No active Home Assistant configuration' });
+              } else if (!ha.accessToken) {
+                actionResults.push({ type: 'home_assistant', success: false, error: 'No Home Assistant access token saved' });
+              } else {
+                const config = room
+                  ? { ...action.config, service_data: { ...(action.config.service_data as Record<string, unknown>), area_id: room.ha_area_id } }
+                  : action.config;
+                actionResults.push({
+                  type: 'home_assistant',
+                  ...(await callHomeAssistantService(ha.instanceUrl, ha.accessToken, config)),
+                });
+              }
+              break;
+            }
+
             case 'n8n_webhook':
-              // These need external calls - return them for the caller to handle
               actionResults.push({
-                type: action.type,
-                success: true,
-                result: action.config
+                type: 'n8n_webhook',
+                ...(await callN8nWebhook(action.config, rule, triggerType, triggerData)),
               });
               break;
 
+            case 'emit_signal': {
+              // Evaluated by fireRule once this execution is recorded, so the chain can point back to it
+              const signalName = action.config.signal_name as string | undefined;
+              actionResults.push(signalName
+                ? {
+                  type: 'emit_signal',
+                  success: true,
+                  result: { signal_name: signalName, data: action.config.signal_data || {} },
+                }
+                : { type: 'emit_signal', success: false, error: 'signal_name is required' });
+              break;
+            }
+
             default:
               actionResults.push({ type: action.type, success: false, error: 'Unknown action type' });
           }
@@ -400,48 +1490,769 @@ serve(async (req) => {
         }
       }
 
-      const explanation = renderExplanation(rule.explanation_template, context, triggerData);
-      const allActionsSucceeded = actionResults.every(a => a.success);
+      return actionResults;
+    };
+
+    // Run steps from stepIndex until the end, a failure, or a delay / unmet wait_until that
+    // pauses the sequence. onStep is told after every step, so a resume can save its progress.
+    const runSteps = async (
+      rule: Rule,
+      steps: RuleStep[],
+      stepIndex: number,
+      waitDeadline: string | null,
+      triggerType: string,
+      triggerData: Record<string, unknown>,
+      scope: Record<string, unknown>,
+      onStep?: (progress: { steps: RuleStep[]; stepIndex: number; results: ActionResult[] }) => Promise<void>
+    ): Promise<StepRun> => {
+      const results: ActionResult[] = [];
+
+      for (let i = stepIndex; i < steps.length; i++) {
+        const step = steps[i];
+        const at = Date.now();
+
+        if (step.type === 'delay') {
+          const minutes = Number(step.config.minutes) || 0;
+          results.push({ type: 'delay', success: true, result: { minutes } });
+          if (minutes > 0) {
+            return {
+              results,
+              stopped: false,
+              pause: { steps, stepIndex: i + 1, resumeAt: new Date(at + minutes * 60000).toISOString(), waitDeadline: null },
+            };
+          }
+        } else if (step.type === 'wait_until') {
+          const conditionTree = normalizeConditions(step.config.condition as Rule['conditions'] | undefined);
+          const history = await loadConditionHistory(flattenConditions(conditionTree));
+          const trace = evaluateConditionNode(conditionTree, context, history);
+          const deadline = waitDeadline
+            ?? new Date(at + (Number(step.config.timeout_minutes) || DEFAULT_WAIT_TIMEOUT_MINUTES) * 60000).toISOString();
+
+          if (trace.result) {
+            results.push({ type: 'wait_until', success: true, result: { met: true } });
+          } else if (at >= new Date(deadline).getTime()) {
+            results.push({ type: 'wait_until', success: true, result: { timed_out: true } });
+            // The timeout branch replaces the rest of the sequence
+            steps = (step.config.on_timeout as RuleStep[] | undefined) || [];
+            i = -1;
+          } else {
+            const nextCheck = Math.min(at + WAIT_POLL_MINUTES * 60000, new Date(deadline).getTime());
+            return {
+              results,
+              stopped: false,
+              pause: { steps, stepIndex: i, resumeAt: new Date(nextCheck).toISOString(), waitDeadline: deadline },
+            };
+          }
+          waitDeadline = null;
+        } else {
+          const [result] = await runActions(rule, [step], triggerType, triggerData, scope);
+          results.push(result);
+          if (!result.success && !step.continue_on_error) {
+            return { results, stopped: true };
+          }
+        }
+
+        await onStep?.({ steps, stepIndex: i + 1, results });
+      }
+
+      return { results, stopped: false };
+    };
+
+    const getStatus = (actionResults: ActionResult[]): string => {
+      // delay and wait_until steps don't count as actions that ran
+      const actions = actionResults.filter(a => a.type !== 'delay' && a.type !== 'wait_until');
+      const failed = actions.filter(a => !a.success).length;
+      if (failed === 0) return 'success';
+      return failed === actions.length ? 'failed' : 'partial';
+    };
+
+    const getErrorMessage = (actionResults: ActionResult[]): string | null => {
+      const failedActions = actionResults.filter(a => !a.success);
+      return failedActions.length
+        ? failedActions.map(a => `${a.type}: ${a.error}`).join('; ')
+        : null;
+    };
+
+    // notify/speak are surfaced by the caller, so hand back their message
+    const toResultActions = (actionResults: ActionResult[]) => actionResults.map(a => ({
+      type: a.type,
+      success: a.success,
+      result: a.type === 'notify' || a.type === 'speak' ? a.result : undefined,
+      error: a.error,
+    }));
+
+    const results: Array<{
+      ruleId: string;
+      ruleName: string;
+      executionId?: string;
+      escalationDueAt?: string;
+      status: string;
+      explanation?: string;
+      actions?: Array<{ type: string; success: boolean; result?: unknown; error?: string }>;
+      // Set on rules fired by another rule's signal; 1 is a direct child
+      chainDepth?: number;
+      // Set when the actions paused at a delay or wait_until step
+      resumesAt?: string;
+      error?: string;
+    }> = [];
+
+    const chainColumns = (chain: SignalChain | null) => ({
+      chain_id: chain?.chainId ?? null,
+      caused_by_execution_id: chain?.causedBy ?? null,
+      chain_depth: chain?.links.length ?? 0,
+      causal_chain: chain?.links ?? null,
+    });
+
+    // Signals that would take the chain past MAX_CHAIN_DEPTH fail instead; returns the ones to send
+    const limitSignals = (actionResults: ActionResult[], chain: SignalChain | null): ActionResult[] => {
+      const signals = actionResults.filter(a => a.type === 'emit_signal' && a.success);
+      if (signals.length && (chain?.links.length ?? 0) + 1 >= MAX_CHAIN_DEPTH) {
+        for (const signal of signals) {
+          signal.success = false;
+          signal.error = `Chain depth limit (${MAX_CHAIN_DEPTH}) reached`;
+        }
+      }
+      return signals.filter(a => a.success);
+    };
+
+    const getEscalationDueAt = (rule: Rule, actionResults: ActionResult[], eventType: string): string | null => {
+      // Only something the user was told about can go unacknowledged
+      const needsAcknowledgment = actionResults.some(a => (a.type === 'notify' || a.type === 'speak') && a.success);
+      return rule.escalation_enabled && rule.escalation_action && rule.escalation_after_minutes
+        && needsAcknowledgment && eventType !== 'escalation'
+        ? new Date(Date.now() + rule.escalation_after_minutes * 60000).toISOString()
+        : null;
+    };
+
+    // Evaluate the manual rules listening for the signals an execution emitted
+    const sendSignals = async (
+      rule: Rule,
+      emitted: ActionResult[],
+      executionId: string | null,
+      chainId: string | null,
+      chain: SignalChain | null,
+      idempotencyKey?: string
+    ) => {
+      for (const signal of emitted) {
+        const { signal_name, data } = signal.result as { signal_name: string; data: Record<string, unknown> };
+        await evaluateEvent('manual', { ...data, signal_name, source: 'rule', emitted_by_rule_id: rule.id }, {
+          chainId: chainId!,
+          causedBy: executionId,
+          links: [
+            ...(chain?.links || []),
+            { rule_id: rule.id, rule_name: rule.name, execution_id: executionId, signal_name },
+          ],
+        }, idempotencyKey && `${idempotencyKey}/${rule.id}:${signal_name}`);
+      }
+    };
+
+    // Run a rule's actions, record the execution, then evaluate the signals it emitted.
+    // Actions that pause at a delay or wait_until are saved to rule_sequence_runs for rule-scheduler.
+    const fireRule = async (
+      rule: Rule,
+      actions: Rule['actions'],
+      eventType: string,
+      eventData: Record<string, unknown>,
+      conditionResults: ConditionTrace | [],
+      chain: SignalChain | null,
+      extraColumns: Record<string, unknown> = {}
+    ) => {
+      const scope = await loadTemplateScope(rule, eventData);
+      const run = await runSteps(rule, actions, 0, null, eventType, eventData, scope);
+      const actionResults = run.results;
+
+      const depth = chain?.links.length ?? 0;
+      const emitted = limitSignals(actionResults, chain);
+
+      const explanation = renderTemplate(rule.explanation_template, scope, templateOptions);
+      const executionStatus = run.pause ? 'running' : getStatus(actionResults);
+      const escalationDueAt = getEscalationDueAt(rule, actionResults, eventType);
+
+      // A rule that starts a chain gets its id now, so its children can share it
+      const chainId = chain?.chainId ?? (emitted.length ? crypto.randomUUID() : null);
 
       // Log execution
-      await supabase.from('rule_executions').insert({
+      const { data: execution } = await supabase.from('rule_executions').insert({
         user_id: userId,
         rule_id: rule.id,
-        trigger_data: triggerData,
+        rule_version: rule.version,
+        trigger_data: eventData,
         conditions_evaluated: conditionResults,
         all_conditions_met: true,
         actions_executed: actionResults,
         explanation,
-        execution_status: allActionsSucceeded ? 'success' : 'partial'
+        execution_status: executionStatus,
+        error_message: getErrorMessage(actionResults),
+        escalation_due_at: escalationDueAt,
+        ...chainColumns(chain),
+        chain_id: chainId,
+        ...extraColumns,
+      }).select('id').single();
+
+      if (run.pause && execution) {
+        const { error: sequenceError } = await supabase.from('rule_sequence_runs').insert({
+          user_id: userId,
+          rule_id: rule.id,
+          execution_id: execution.id,
+          steps: run.pause.steps,
+          step_index: run.pause.stepIndex,
+          resume_at: run.pause.resumeAt,
+          wait_deadline: run.pause.waitDeadline,
+          trigger_type: eventType,
+          trigger_data: eventData,
+        });
+        if (sequenceError) console.error(`Failed to save action sequence of rule ${rule.id}:`, sequenceError);
+      }
+
+      results.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        executionId: execution?.id,
+        escalationDueAt: escalationDueAt ?? undefined,
+        status: executionStatus,
+        explanation,
+        actions: toResultActions(actionResults),
+        chainDepth: chain ? depth : undefined,
+        resumesAt: run.pause?.resumeAt,
       });
 
-      // Update rule tracking
-      const updateData: Record<string, unknown> = {
-        last_fired_at: now.toISOString(),
-        times_fired: (rule.times_fired || 0) + 1,
+      return {
+        execution,
+        // Evaluated by the caller after it has updated the rule's tracking, so loops hit the cooldown too
+        sendSignals: (idempotencyKey?: string) =>
+          sendSignals(rule, emitted, execution?.id ?? null, chainId, chain, idempotencyKey),
       };
-      
-      if (rule.last_reset_date !== today) {
-        updateData.times_fired_today = 1;
-        updateData.last_reset_date = today;
-      } else {
-        updateData.times_fired_today = (rule.times_fired_today || 0) + 1;
+    };
+
+    // Atomically re-check cooldown and daily cap and record the fire (see claim_rule_fire)
+    const claimFire = async (rule: Rule, idempotencyKey?: string, ignoreLimits = false) => {
+      const { data, error } = await supabase.rpc('claim_rule_fire', {
+        _rule_id: rule.id,
+        _today: today,
+        _idempotency_key: idempotencyKey ?? null,
+        _ignore_limits: ignoreLimits,
+      });
+      if (error) throw error;
+      return data as { status: string; execution_id?: string | null };
+    };
+
+    // Lets a retry of this event point at the execution it already produced
+    const recordClaimExecution = async (rule: Rule, idempotencyKey: string | undefined, executionId?: string) => {
+      if (!idempotencyKey || !executionId) return;
+      await supabase
+        .from('rule_fire_claims')
+        .update({ execution_id: executionId })
+        .eq('rule_id', rule.id)
+        .eq('idempotency_key', idempotencyKey);
+    };
+
+    // Evaluate the enabled rules for one event; signals are followed depth-first
+    const evaluateEvent = async (
+      eventType: string,
+      eventData: Record<string, unknown>,
+      chain: SignalChain | null,
+      idempotencyKey?: string
+    ): Promise<void> => {
+      // Fetch enabled rules for this trigger type
+      let rulesQuery = supabase
+        .from('rules')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_enabled', true)
+        .eq('trigger_type', eventType);
+      if (ruleId && !chain) rulesQuery = rulesQuery.eq('id', ruleId);
+
+      const { data: rules, error: rulesError } = await rulesQuery;
+      if (rulesError) throw rulesError;
+
+      const chainDepth = chain ? chain.links.length : undefined;
+
+      // Every skip is logged so analytics can tell noisy, dead and blocked rules apart
+      const recordSkip = async (
+        rule: Rule,
+        status: string,
+        details: { conditions?: ConditionTrace; error?: string } = {}
+      ) => {
+        await supabase.from('rule_executions').insert({
+          user_id: userId,
+          rule_id: rule.id,
+          rule_version: rule.version,
+          trigger_data: eventData,
+          conditions_evaluated: details.conditions ?? [],
+          all_conditions_met: false,
+          actions_executed: [],
+          execution_status: status,
+          error_message: details.error ?? null,
+          ...chainColumns(chain),
+        });
+        results.push({ ruleId: rule.id, ruleName: rule.name, status, chainDepth });
+      };
+
+      for (const ruleData of rules || []) {
+        const { rule, broken } = parseRule(ruleData);
+        if (broken) {
+          console.error(`Skipping invalid rule ${broken.id}:`, broken.issues);
+          results.push(brokenRuleResult(broken));
+          continue;
+        }
+
+        // Rules for a different entity/task/goal/signal are not part of this event
+        if (!matchesTrigger(rule, eventData)) continue;
+
+        // A rule already in the chain would set the same chain off again
+        if (chain?.links.some(link => link.rule_id === rule.id)) {
+          await recordSkip(rule, 'skipped_loop', {
+            error: `Loop: ${[...chain.links.map(l => l.rule_name), rule.name].join(' → ')}`,
+          });
+          continue;
+        }
+        
+        // A retry of an event that already fired the rule is a duplicate, not a cooldown skip
+        if (idempotencyKey) {
+          const { data: earlier } = await supabase
+            .from('rule_fire_claims')
+            .select('execution_id')
+            .eq('rule_id', rule.id)
+            .eq('idempotency_key', idempotencyKey)
+            .maybeSingle();
+          if (earlier) {
+            results.push({
+              ruleId: rule.id,
+              ruleName: rule.name,
+              executionId: earlier.execution_id ?? undefined,
+              status: 'skipped_duplicate',
+              chainDepth,
+            });
+            continue;
+          }
+        }
+
+        // Check cooldown (claimFire checks again under a lock before anything runs)
+        if (isInCooldown(rule)) {
+          await recordSkip(rule, 'skipped_cooldown');
+          continue;
+        }
+
+        // Check daily cap
+        if (hitDailyCap(rule, today)) {
+          await recordSkip(rule, 'skipped_daily_cap');
+          continue;
+        }
+
+        // Check excluded times
+        if (isInExcludedTime(rule, context.currentHour, context.currentMinute)) {
+          await recordSkip(rule, 'skipped_excluded_time');
+          continue;
+        }
+
+        // Check excluded rooms
+        if (rule.excluded_rooms?.includes(context.currentRoom || '')) {
+          await recordSkip(rule, 'skipped_excluded_room');
+          continue;
+        }
+
+        // Evaluate conditions
+        const conditionTree = normalizeConditions(rule.conditions);
+        const history = await loadConditionHistory(flattenConditions(conditionTree));
+        const conditionResults = evaluateConditionNode(conditionTree, context, history);
+        
+        if (!conditionResults.result) {
+          await recordSkip(rule, 'skipped_conditions', { conditions: conditionResults });
+          continue;
+        }
+
+        // A concurrent request may have fired it since the checks above, or this may be a retry.
+        // The claim is recorded before the actions run, so delivery is at-most-once: if this
+        // function dies after the claim, a retry of the event is a duplicate and the actions never run.
+        const claim = await claimFire(rule, idempotencyKey);
+        if (claim.status === 'skipped_cooldown' || claim.status === 'skipped_daily_cap') {
+          await recordSkip(rule, claim.status);
+          continue;
+        }
+        if (claim.status !== 'claimed') {
+          // A retry of an event already handled is not a new skip
+          results.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            executionId: claim.execution_id ?? undefined,
+            status: claim.status,
+            chainDepth,
+          });
+          continue;
+        }
+
+        const fired = await fireRule(rule, rule.actions, eventType, eventData, conditionResults, chain);
+        await recordClaimExecution(rule, idempotencyKey, fired.execution?.id);
+        await fired.sendSignals(idempotencyKey);
+      }
+    };
+
+    if (resumeSequenceId) {
+      const { data: sequence, error: sequenceError } = await supabase
+        .from('rule_sequence_runs')
+        .select('*')
+        .eq('id', resumeSequenceId)
+        .eq('user_id', userId)
+        .single();
+      if (sequenceError) throw sequenceError;
+
+      const [{ data: ruleData, error: ruleError }, { data: execution, error: executionError }] = await Promise.all([
+        supabase.from('rules').select('*').eq('id', sequence.rule_id).single(),
+        supabase.from('rule_executions').select('*').eq('id', sequence.execution_id).single(),
+      ]);
+      if (ruleError) throw ruleError;
+      if (executionError) throw executionError;
+
+      const { rule, broken } = parseRule(ruleData);
+      const previousResults = (execution.actions_executed as unknown as ActionResult[] | null) || [];
+
+      // Only rule-scheduler's claim may run it, and a disabled or broken rule's remaining steps are dropped
+      if (sequence.status !== 'running' || !rule?.is_enabled) {
+        if (sequence.status === 'running') {
+          await supabase
+            .from('rule_sequence_runs')
+            .update({ status: 'cancelled', last_results: null, claimed_at: null })
+            .eq('id', sequence.id);
+          await supabase.from('rule_executions').update({
+            execution_status: getStatus(previousResults),
+            error_message: broken
+              ? brokenRuleResult(broken).error
+              : 'Rule was disabled before its remaining steps ran',
+          }).eq('id', execution.id);
+        }
+        return new Response(
+          JSON.stringify({
+            executed: 0,
+            results: [{
+              ruleId: sequence.rule_id,
+              ruleName: (rule ?? broken).name,
+              executionId: execution.id,
+              status: sequence.status === 'running' ? 'cancelled' : `skipped_${sequence.status}`,
+            }],
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
-      
-      await supabase.from('rules').update(updateData).eq('id', rule.id);
+
+      const eventData = (sequence.trigger_data as Record<string, unknown>) || {};
+      const chain: SignalChain | null = execution.chain_id
+        ? {
+          chainId: execution.chain_id,
+          causedBy: execution.caused_by_execution_id,
+          links: (execution.causal_chain as unknown as ChainLink[] | null) || [],
+        }
+        : null;
+
+      // Progress is saved after every step, so a crashed resume picks up after the last finished one
+      const scope = await loadTemplateScope(rule, eventData);
+      const run = await runSteps(
+        rule,
+        sequence.steps as unknown as RuleStep[],
+        sequence.step_index,
+        sequence.wait_deadline,
+        sequence.trigger_type,
+        eventData,
+        scope,
+        async (progress) => {
+          await supabase
+            .from('rule_sequence_runs')
+            .update({ steps: progress.steps, step_index: progress.stepIndex, wait_deadline: null })
+            .eq('id', sequence.id);
+          await supabase
+            .from('rule_executions')
+            .update({ actions_executed: [...previousResults, ...progress.results] })
+            .eq('id', execution.id);
+        }
+      );
+
+      const actionResults = [...previousResults, ...run.results];
+      const emitted = limitSignals(run.results, chain);
+      const chainId = execution.chain_id ?? (emitted.length ? crypto.randomUUID() : null);
+      const executionStatus = run.pause ? 'running' : getStatus(actionResults);
+      const escalationDueAt = execution.escalation_due_at
+        ?? getEscalationDueAt(rule, run.results, sequence.trigger_type);
+
+      await supabase.from('rule_executions').update({
+        actions_executed: actionResults,
+        execution_status: executionStatus,
+        error_message: getErrorMessage(actionResults),
+        escalation_due_at: escalationDueAt,
+        chain_id: chainId,
+      }).eq('id', execution.id);
+
+      await supabase.from('rule_sequence_runs').update({
+        status: run.pause ? 'pending' : run.stopped ? 'failed' : 'completed',
+        ...(run.pause && {
+          steps: run.pause.steps,
+          step_index: run.pause.stepIndex,
+          resume_at: run.pause.resumeAt,
+          wait_deadline: run.pause.waitDeadline,
+        }),
+        last_results: toResultActions(run.results),
+        claimed_at: null,
+        resume_attempts: 0,
+      }).eq('id', sequence.id);
 
       results.push({
         ruleId: rule.id,
         ruleName: rule.name,
-        status: allActionsSucceeded ? 'success' : 'partial',
-        explanation,
-        actions: actionResults.map(a => ({ type: a.type, success: a.success, error: a.error }))
+        executionId: execution.id,
+        escalationDueAt: escalationDueAt ?? undefined,
+        status: executionStatus,
+        explanation: execution.explanation ?? undefined,
+        actions: toResultActions(run.results),
+        chainDepth: chain ? chain.links.length : undefined,
+        resumesAt: run.pause?.resumeAt,
       });
+
+      // Keyed by the resume, so a retried resume doesn't send its signals twice
+      await sendSignals(rule, emitted, execution.id, chainId, chain, `sequence:${sequence.id}:${sequence.resume_at}`);
+
+      return new Response(
+        JSON.stringify({ executed: 1, results }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (escalateExecutionId) {
+      // Claim the escalation: only one call gets the row, and only while it is due and unacknowledged.
+      // A call after a crash past this point finds it claimed, so an escalation runs at most once.
+      const { data: claimed, error: claimError } = await supabase
+        .from('rule_executions')
+        .update({ escalated_at: now.toISOString() })
+        .eq('id', escalateExecutionId)
+        .eq('user_id', userId)
+        .lte('escalation_due_at', now.toISOString())
+        .is('acknowledged_at', null)
+        .is('escalated_at', null)
+        .select('*');
+      if (claimError) throw claimError;
+
+      const execution = claimed?.[0];
+      if (!execution) {
+        return new Response(
+          JSON.stringify({ executed: 0, results: [{ executionId: escalateExecutionId, status: 'skipped_not_due' }] }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: ruleData, error: ruleError } = await supabase
+        .from('rules')
+        .select('*')
+        .eq('id', execution.rule_id)
+        .single();
+      if (ruleError) throw ruleError;
+
+      const { rule, broken } = parseRule(ruleData);
+      if (broken) {
+        return new Response(
+          JSON.stringify({ executed: 0, results: [brokenRuleResult(broken)] }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (!rule.is_enabled || !rule.escalation_enabled || !rule.escalation_action) {
+        return new Response(
+          JSON.stringify({
+            executed: 0,
+            results: [{ ruleId: rule.id, ruleName: rule.name, status: 'skipped_escalation_disabled' }],
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const escalationData = {
+        ...((execution.trigger_data as Record<string, unknown>) || {}),
+        escalation_of: execution.id,
+        unacknowledged_minutes: rule.escalation_after_minutes,
+      };
+      const explanation = `Escalated: "${rule.name}" was not acknowledged within ${rule.escalation_after_minutes} minutes`;
+      const escalation = await fireRule(
+        { ...rule, explanation_template: explanation },
+        [rule.escalation_action!],
+        'escalation',
+        escalationData,
+        [],
+        null,
+        { parent_execution_id: execution.id }
+      );
+      await escalation.sendSignals();
+
+      return new Response(
+        JSON.stringify({ executed: 1, results }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (runNow) {
+      const { data: ruleData, error: ruleError } = await supabase
+        .from('rules')
+        .select('*')
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .single();
+      if (ruleError) throw ruleError;
+
+      const { rule, broken } = parseRule(ruleData);
+      if (broken) {
+        return new Response(
+          JSON.stringify({ executed: 0, results: [brokenRuleResult(broken)] }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const claim = await claimFire(rule, idempotencyKey, true);
+      if (claim.status !== 'claimed') {
+        return new Response(
+          JSON.stringify({
+            executed: 0,
+            results: [{ ruleId: rule.id, ruleName: rule.name, executionId: claim.execution_id, status: claim.status }],
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const fired = await fireRule(rule, rule.actions, 'manual', { ...triggerData, run_now: true }, [], null);
+      await recordClaimExecution(rule, idempotencyKey, fired.execution?.id);
+      await fired.sendSignals(idempotencyKey);
+
+      return new Response(
+        JSON.stringify({ executed: 1, results }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // The rule under test: the given (possibly unsaved) rule, or ruleId, checked against the shared schema
+    const resolveTestRule = async (): Promise<Rule> => {
+      let ruleData: unknown = null;
+      if (unsavedRule) {
+        // An edited copy of a saved rule keeps its id only if the caller owns that rule
+        let ownedId = 'unsaved';
+        if (typeof unsavedRule.id === 'string' && unsavedRule.id !== 'unsaved') {
+          const { data: owned, error: ownedError } = await supabase
+            .from('rules')
+            .select('id')
+            .eq('id', unsavedRule.id)
+            .eq('user_id', userId)
+            .maybeSingle();
+          if (ownedError) throw ownedError;
+          if (owned) ownedId = owned.id;
+        }
+
+        const createdAt = new Date().toISOString();
+        ruleData = {
+          name: 'Unsaved rule',
+          trigger_type: triggerType,
+          trigger_config: {},
+          cooldown_minutes: 0,
+          actions: [],
+          version: 1,
+          last_edited_by: 'user',
+          created_at: createdAt,
+          updated_at: createdAt,
+          ...unsavedRule,
+          id: ownedId,
+          user_id: userId,
+        };
+      } else {
+        const { data, error: ruleError } = await supabase
+          .from('rules')
+          .select('*')
+          .eq('id', ruleId)
+          .eq('user_id', userId)
+          .single();
+        if (ruleError) throw ruleError;
+        ruleData = data;
+      }
+
+      const { rule, broken } = parseRule(ruleData);
+      if (broken) throw new Error(brokenRuleResult(broken).error);
+      return rule;
+    };
+
+    if (backtest) {
+      const report = await runBacktest(supabase, userId, await resolveTestRule(), { ...backtest, timeZone }, rooms);
+      return new Response(
+        JSON.stringify(report),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    if (dryRun) {
+      const rule = await resolveTestRule();
+
+      const firedToday = rule.last_reset_date === today ? rule.times_fired_today || 0 : 0;
+      const checks = [
+        {
+          check: 'enabled',
+          passed: rule.is_enabled !== false,
+          detail: rule.is_enabled !== false ? 'Rule is enabled' : 'Rule is disabled',
+        },
+        {
+          check: 'trigger',
+          passed: rule.trigger_type === triggerType && matchesTrigger(rule, triggerData),
+          detail: rule.trigger_type !== triggerType
+            ? `Rule triggers on ${rule.trigger_type}, not ${triggerType}`
+            : `trigger_config ${JSON.stringify(rule.trigger_config || {})}`,
+        },
+        {
+          check: 'cooldown',
+          passed: !isInCooldown(rule),
+          detail: rule.trigger_type === 'schedule'
+            ? 'Schedule rules fire on every occurrence'
+            : rule.last_fired_at
+            ? `Last fired ${rule.last_fired_at}, cooldown ${rule.cooldown_minutes} min`
+            : 'Never fired',
+        },
+        {
+          check: 'daily_cap',
+          passed: !hitDailyCap(rule, today),
+          detail: rule.max_fires_per_day ? `${firedToday}/${rule.max_fires_per_day} today` : 'No daily cap',
+        },
+        {
+          check: 'excluded_time',
+          passed: !isInExcludedTime(rule, context.currentHour, context.currentMinute),
+          detail: `${String(context.currentHour).padStart(2, '0')}:${String(context.currentMinute).padStart(2, '0')}`
+            + (rule.excluded_times?.length
+              ? ` vs ${rule.excluded_times.map(t => `${t.start}-${t.end}`).join(', ')}`
+              : ''),
+        },
+        {
+          check: 'excluded_room',
+          passed: !rule.excluded_rooms?.includes(context.currentRoom || ''),
+          detail: `Current room: ${context.currentRoom || 'unknown'}`
+            + (rule.excluded_rooms?.length ? `, excluded: ${rule.excluded_rooms.join(', ')}` : ''),
+        },
+      ];
+
+      const conditionTree = normalizeConditions(rule.conditions);
+      const history = await loadConditionHistory(flattenConditions(conditionTree));
+      const conditionResults = evaluateConditionNode(conditionTree, context, history);
+      const scope = await loadTemplateScope(rule, triggerData);
+
+      return new Response(
+        JSON.stringify({
+          dryRun: true,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          wouldFire: checks.every(c => c.passed) && conditionResults.result,
+          checks,
+          conditions: conditionResults,
+          explanation: renderTemplate(rule.explanation_template, scope, templateOptions),
+          actions: rule.actions.map(action => ({ ...action, config: renderActionConfig(action.config, scope) })),
+          escalation: rule.escalation_enabled && rule.escalation_action
+            ? { after_minutes: rule.escalation_after_minutes, action: rule.escalation_action }
+            : null,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    await evaluateEvent(triggerType, triggerData, null, idempotencyKey);
+
     return new Response(
       JSON.stringify({ 
-        executed: results.filter(r => r.status === 'success' || r.status === 'partial').length,
+        executed: results.filter(r => ['success', 'partial', 'failed'].includes(r.status)).length,
         results 
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
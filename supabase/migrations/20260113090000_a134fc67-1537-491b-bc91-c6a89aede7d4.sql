@@ -0,0 +1,51 @@
+-- Schedule trigger evaluation for rules
+
+-- Last minute the scheduler evaluated for a schedule rule (NULL = never)
+ALTER TABLE public.rules ADD COLUMN schedule_cursor TIMESTAMP WITH TIME ZONE;
+
+-- One row per claimed cron occurrence - the unique key makes firing exactly-once
+CREATE TABLE public.rule_schedule_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL, -- The cron occurrence (UTC)
+  is_catch_up BOOLEAN NOT NULL DEFAULT false, -- Fired late, after scheduler downtime
+  fired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  engine_status TEXT, -- Status returned by rules-engine for this rule
+  error_message TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(rule_id, scheduled_for)
+);
+
+-- Enable RLS
+ALTER TABLE public.rule_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (written by the scheduler with the service role)
+CREATE POLICY "Users can view own rule schedule runs"
+  ON public.rule_schedule_runs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Index
+CREATE INDEX idx_rule_schedule_runs_rule ON public.rule_schedule_runs(rule_id, scheduled_for DESC);
+
+-- Run the scheduler every minute.
+-- Requires Vault secrets 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'rule-scheduler',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/rule-scheduler',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,21 @@
+-- Rule escalation with acknowledgment tracking
+
+ALTER TABLE public.rule_executions
+  ADD COLUMN parent_execution_id UUID REFERENCES public.rule_executions(id) ON DELETE CASCADE, -- Set on escalation executions
+  ADD COLUMN escalation_due_at TIMESTAMP WITH TIME ZONE, -- When to escalate if still unacknowledged
+  ADD COLUMN acknowledged_at TIMESTAMP WITH TIME ZONE, -- User acknowledged (UI or voice), cancels escalation
+  ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE; -- Escalation claimed by the scheduler
+
+-- Users acknowledge their own executions
+CREATE POLICY "Users can update own rule executions"
+  ON public.rule_executions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Index for the escalation sweep
+CREATE INDEX idx_rule_executions_escalation_due ON public.rule_executions(escalation_due_at)
+  WHERE escalation_due_at IS NOT NULL AND acknowledged_at IS NULL AND escalated_at IS NULL;
+
+CREATE INDEX idx_rule_executions_parent ON public.rule_executions(parent_execution_id);
+
+-- Escalations run server-side; the client hears about them via realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rule_executions;
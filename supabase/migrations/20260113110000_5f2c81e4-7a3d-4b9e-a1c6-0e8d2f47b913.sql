@@ -0,0 +1,11 @@
+-- Rule chaining: rules firing other rules through emit_signal
+
+ALTER TABLE public.rule_executions
+  ADD COLUMN chain_id UUID, -- Shared by every execution one event set off through signals
+  ADD COLUMN caused_by_execution_id UUID REFERENCES public.rule_executions(id) ON DELETE SET NULL, -- Execution whose signal fired this one
+  ADD COLUMN chain_depth INTEGER NOT NULL DEFAULT 0, -- 0 for the rule the event fired directly
+  ADD COLUMN causal_chain JSONB; -- [{ rule_id, rule_name, execution_id, signal_name }] from the first rule down
+
+CREATE INDEX idx_rule_executions_chain ON public.rule_executions(chain_id) WHERE chain_id IS NOT NULL;
+
+CREATE INDEX idx_rule_executions_caused_by ON public.rule_executions(caused_by_execution_id);
@@ -0,0 +1,89 @@
+-- Race-free rule firing with idempotent trigger events
+
+-- One row per (rule, trigger event) that fired the rule, so a retried event finds it
+CREATE TABLE public.rule_fire_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+
+  idempotency_key TEXT NOT NULL, -- Sent by the caller, the same on every retry of one event
+  execution_id UUID REFERENCES public.rule_executions(id) ON DELETE SET NULL, -- Filled in once the actions ran
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(rule_id, idempotency_key)
+);
+
+-- Enable RLS
+ALTER TABLE public.rule_fire_claims ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (written by rules-engine with the service role)
+CREATE POLICY "Users can view own rule fire claims"
+  ON public.rule_fire_claims FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Index for the scheduler's cleanup of old keys
+CREATE INDEX idx_rule_fire_claims_created ON public.rule_fire_claims(created_at);
+
+-- Check cooldown and daily cap and record the fire in one transaction.
+-- The row lock makes concurrent claims for a rule wait, so only one passes.
+-- Returns { status: 'claimed' | 'skipped_duplicate' | 'skipped_cooldown' | 'skipped_daily_cap' | 'not_found',
+--           execution_id } where execution_id is the earlier execution of a duplicate.
+CREATE OR REPLACE FUNCTION public.claim_rule_fire(
+  _rule_id UUID,
+  _today DATE, -- The user's calendar day, for the daily cap
+  _idempotency_key TEXT DEFAULT NULL,
+  _ignore_limits BOOLEAN DEFAULT false -- Run now: record the fire but skip cooldown and cap
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.rules%ROWTYPE;
+  _earlier public.rule_fire_claims%ROWTYPE;
+BEGIN
+  SELECT * INTO _rule FROM public.rules WHERE id = _rule_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT * INTO _earlier FROM public.rule_fire_claims
+      WHERE rule_id = _rule_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN jsonb_build_object('status', 'skipped_duplicate', 'execution_id', _earlier.execution_id);
+    END IF;
+  END IF;
+
+  IF NOT _ignore_limits THEN
+    IF _rule.last_fired_at IS NOT NULL
+      AND now() - _rule.last_fired_at < make_interval(mins => COALESCE(_rule.cooldown_minutes, 0)) THEN
+      RETURN jsonb_build_object('status', 'skipped_cooldown');
+    END IF;
+
+    IF COALESCE(_rule.max_fires_per_day, 0) > 0
+      AND _rule.last_reset_date = _today
+      AND COALESCE(_rule.times_fired_today, 0) >= _rule.max_fires_per_day THEN
+      RETURN jsonb_build_object('status', 'skipped_daily_cap');
+    END IF;
+  END IF;
+
+  UPDATE public.rules SET
+    last_fired_at = now(),
+    times_fired = COALESCE(times_fired, 0) + 1,
+    times_fired_today = CASE WHEN last_reset_date = _today THEN COALESCE(times_fired_today, 0) + 1 ELSE 1 END,
+    last_reset_date = _today
+  WHERE id = _rule_id;
+
+  IF _idempotency_key IS NOT NULL THEN
+    INSERT INTO public.rule_fire_claims (user_id, rule_id, idempotency_key)
+      VALUES (_rule.user_id, _rule_id, _idempotency_key);
+  END IF;
+
+  RETURN jsonb_build_object('status', 'claimed');
+END;
+$$;
+
+-- Bypasses RLS, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.claim_rule_fire(UUID, DATE, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
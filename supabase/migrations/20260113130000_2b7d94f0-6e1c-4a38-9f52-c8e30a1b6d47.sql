@@ -0,0 +1,7 @@
+-- Per-user timezone for daily counters, time conditions and due dates
+
+ALTER TABLE public.user_settings
+  ADD COLUMN timezone TEXT; -- IANA name (e.g. 'Europe/Berlin'); NULL until the app detects it, read as UTC
+
+ALTER TABLE public.user_context
+  ADD COLUMN stats_date DATE; -- The user's local day the *_today counters belong to
@@ -0,0 +1,111 @@
+-- Rule version history: every change to a rule's definition is kept as a version
+
+-- Who made the next edit, set by the writer along with the change
+ALTER TABLE public.rules
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN last_edited_by TEXT NOT NULL DEFAULT 'user' CHECK (last_edited_by IN ('user', 'ai')),
+  ADD COLUMN last_edit_note TEXT; -- e.g. "Rolled back to version 3"; cleared on the next edit that doesn't set one
+
+CREATE TABLE public.rule_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  edited_by TEXT NOT NULL DEFAULT 'user', -- 'user' or 'ai'
+  note TEXT,
+  snapshot JSONB NOT NULL, -- The rule's definition columns at this version
+  changes JSONB, -- { column: { before, after } } against the previous version; null for the first
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(rule_id, version)
+);
+
+-- Enable RLS
+ALTER TABLE public.rule_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (written by the triggers below)
+CREATE POLICY "Users can view own rule versions"
+  ON public.rule_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The version an execution ran; null for executions from before versioning
+ALTER TABLE public.rule_executions
+  ADD COLUMN rule_version INTEGER,
+  ADD FOREIGN KEY (rule_id, rule_version) REFERENCES public.rule_versions(rule_id, version);
+
+-- The columns that define what a rule does. Enabling/disabling and fire tracking aren't edits.
+CREATE OR REPLACE FUNCTION public.rule_definition(_rule public.rules)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_object_agg(key, value)
+  FROM jsonb_each(to_jsonb(_rule))
+  WHERE key IN (
+    'name', 'description', 'category', 'severity', 'trigger_type', 'trigger_config', 'conditions',
+    'cooldown_minutes', 'max_fires_per_day', 'actions', 'explanation_template', 'escalation_enabled',
+    'escalation_after_minutes', 'escalation_action', 'excluded_rooms', 'excluded_times'
+  );
+$$;
+
+-- Bump the version when the definition changes
+CREATE OR REPLACE FUNCTION public.bump_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF public.rule_definition(NEW) IS DISTINCT FROM public.rule_definition(OLD) THEN
+    NEW.version = OLD.version + 1;
+    IF NEW.last_edit_note IS NOT DISTINCT FROM OLD.last_edit_note THEN
+      NEW.last_edit_note = NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Store the new version with its diff against the previous one
+CREATE OR REPLACE FUNCTION public.record_rule_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _snapshot JSONB := public.rule_definition(NEW);
+  _previous JSONB;
+  _changes JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.version = OLD.version THEN
+      RETURN NULL;
+    END IF;
+    _previous := public.rule_definition(OLD);
+    SELECT jsonb_object_agg(key, jsonb_build_object('before', _previous -> key, 'after', value))
+      INTO _changes
+      FROM jsonb_each(_snapshot)
+      WHERE value IS DISTINCT FROM _previous -> key;
+  END IF;
+
+  INSERT INTO public.rule_versions (user_id, rule_id, version, edited_by, note, snapshot, changes)
+    VALUES (NEW.user_id, NEW.id, NEW.version, NEW.last_edited_by, NEW.last_edit_note, _snapshot, _changes);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER bump_rule_version
+  BEFORE UPDATE ON public.rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_rule_version();
+
+CREATE TRIGGER record_rule_version
+  AFTER INSERT OR UPDATE ON public.rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_rule_version();
+
+-- Existing rules start their history at version 1
+INSERT INTO public.rule_versions (user_id, rule_id, version, edited_by, snapshot)
+  SELECT user_id, id, 1, 'user', public.rule_definition(rules) FROM public.rules;
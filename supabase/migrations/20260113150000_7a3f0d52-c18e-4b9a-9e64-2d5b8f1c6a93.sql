@@ -0,0 +1,56 @@
+-- Multi-step action sequences: delay and wait_until steps pause a rule's actions,
+-- and rule-scheduler resumes them
+
+-- A fired rule whose actions are paused at a delay or wait_until step
+CREATE TABLE public.rule_sequence_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  rule_id UUID NOT NULL REFERENCES public.rules(id) ON DELETE CASCADE,
+  execution_id UUID NOT NULL REFERENCES public.rule_executions(id) ON DELETE CASCADE, -- Collects every step's result
+
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'running' (claimed by rule-scheduler), 'completed', 'failed', 'cancelled'
+  steps JSONB NOT NULL, -- The actions being run; a wait_until timeout swaps in its on_timeout steps
+  step_index INTEGER NOT NULL DEFAULT 0, -- Next step to run
+  resume_at TIMESTAMP WITH TIME ZONE NOT NULL, -- End of the delay, or the next check of a wait_until
+  wait_deadline TIMESTAMP WITH TIME ZONE, -- When the wait_until at step_index times out
+
+  -- The event that fired the rule, for templates and escalation of later steps
+  trigger_type TEXT NOT NULL,
+  trigger_data JSONB,
+  last_results JSONB, -- Results of the steps run by the last resume, surfaced by the app
+
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.rule_sequence_runs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (written by rules-engine and rule-scheduler with the service role)
+CREATE POLICY "Users can view own rule sequence runs"
+  ON public.rule_sequence_runs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Index for the scheduler's due query
+CREATE INDEX idx_rule_sequence_runs_due ON public.rule_sequence_runs(status, resume_at);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_rule_sequence_runs_updated_at
+  BEFORE UPDATE ON public.rule_sequence_runs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resumed steps' notify/speak results reach the app over realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.rule_sequence_runs;
+
+-- Steps now stop the sequence when they fail unless they set continue_on_error.
+-- Existing rules ran every action regardless, so keep that for them.
+UPDATE public.rules
+SET
+  actions = (
+    SELECT jsonb_agg(action || '{"continue_on_error": true}'::jsonb ORDER BY position)
+    FROM jsonb_array_elements(actions) WITH ORDINALITY AS step(action, position)
+  ),
+  last_edit_note = 'Kept running every action after a failure (continue_on_error)'
+WHERE jsonb_typeof(actions) = 'array' AND jsonb_array_length(actions) > 1;
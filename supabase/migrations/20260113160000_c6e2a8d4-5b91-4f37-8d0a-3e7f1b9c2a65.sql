@@ -0,0 +1,89 @@
+-- Webhook trigger: each webhook rule gets its own URL on the rule-webhook function,
+-- and callers sign the body with the URL's secret
+
+CREATE TABLE public.rule_webhooks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY, -- The last segment of the URL
+  user_id UUID NOT NULL,
+  rule_id UUID NOT NULL UNIQUE REFERENCES public.rules(id) ON DELETE CASCADE,
+
+  secret TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'hex'), -- HMAC-SHA256 key
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 30 CHECK (rate_limit_per_minute > 0),
+
+  -- Fixed one-minute window, counted by claim_rule_webhook_request
+  window_started_at TIMESTAMP WITH TIME ZONE,
+  window_count INTEGER NOT NULL DEFAULT 0,
+
+  last_received_at TIMESTAMP WITH TIME ZONE,
+  last_status TEXT, -- 'invalid_signature', 'rate_limited', or the rules-engine status of the last request
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.rule_webhooks ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (the app creates a rule's webhook and rotates its secret; rule-webhook uses the service role)
+CREATE POLICY "Users can view own rule webhooks"
+  ON public.rule_webhooks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own rule webhooks"
+  ON public.rule_webhooks FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.rules WHERE rules.id = rule_id AND rules.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own rule webhooks"
+  ON public.rule_webhooks FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.rules WHERE rules.id = rule_id AND rules.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own rule webhooks"
+  ON public.rule_webhooks FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Count a request against the webhook's rate limit.
+-- The row lock makes concurrent requests wait, so the limit holds under bursts.
+-- Returns { status: 'claimed' | 'rate_limited' | 'not_found', rule_id, user_id, secret, retry_after_seconds }
+CREATE OR REPLACE FUNCTION public.claim_rule_webhook_request(_webhook_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _webhook public.rule_webhooks%ROWTYPE;
+BEGIN
+  SELECT * INTO _webhook FROM public.rule_webhooks WHERE id = _webhook_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _webhook.window_started_at IS NOT NULL AND now() - _webhook.window_started_at < interval '1 minute' THEN
+    IF _webhook.window_count >= _webhook.rate_limit_per_minute THEN
+      UPDATE public.rule_webhooks SET last_received_at = now(), last_status = 'rate_limited' WHERE id = _webhook_id;
+      RETURN jsonb_build_object(
+        'status', 'rate_limited',
+        'retry_after_seconds', CEIL(EXTRACT(EPOCH FROM _webhook.window_started_at + interval '1 minute' - now()))
+      );
+    END IF;
+    UPDATE public.rule_webhooks SET window_count = window_count + 1, last_received_at = now() WHERE id = _webhook_id;
+  ELSE
+    UPDATE public.rule_webhooks SET window_started_at = now(), window_count = 1, last_received_at = now() WHERE id = _webhook_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'claimed',
+    'rule_id', _webhook.rule_id,
+    'user_id', _webhook.user_id,
+    'secret', _webhook.secret
+  );
+END;
+$$;
+
+-- Bypasses RLS, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.claim_rule_webhook_request(UUID) FROM PUBLIC, anon, authenticated;
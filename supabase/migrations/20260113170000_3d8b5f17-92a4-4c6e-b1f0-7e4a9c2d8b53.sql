@@ -0,0 +1,18 @@
+-- Live Home Assistant state: ha-subscriber keeps a WebSocket subscription to state_changed
+-- and writes entities, state history and rule triggers as they happen
+
+ALTER TABLE public.home_assistant_config
+  ADD COLUMN last_event_at TIMESTAMP WITH TIME ZONE, -- Last state_changed ingested; a reconnect backfills from here
+  ADD COLUMN subscriber_connected_at TIMESTAMP WITH TIME ZONE, -- Start of the current (or last) subscription
+  ADD COLUMN subscriber_seen_at TIMESTAMP WITH TIME ZONE; -- Heartbeat; stale means the subscriber is down
+
+-- A change can arrive live and again from the backfill after a reconnect; keep one row
+DELETE FROM public.home_assistant_events a
+  USING public.home_assistant_events b
+  WHERE a.user_id = b.user_id
+    AND a.entity_id = b.entity_id
+    AND a.occurred_at = b.occurred_at
+    AND a.id > b.id;
+
+CREATE UNIQUE INDEX idx_ha_events_unique_change
+  ON public.home_assistant_events(user_id, entity_id, occurred_at);
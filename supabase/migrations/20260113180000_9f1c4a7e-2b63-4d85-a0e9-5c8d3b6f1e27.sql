@@ -0,0 +1,31 @@
+-- Home Assistant access tokens, stored encrypted so server jobs (rules, schedules,
+-- ha-subscriber) can call HA without the browser.
+-- Encrypted and decrypted only by edge functions (see _shared/haToken.ts).
+
+CREATE TABLE public.home_assistant_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  config_id UUID NOT NULL UNIQUE REFERENCES public.home_assistant_config(id) ON DELETE CASCADE,
+
+  ciphertext TEXT NOT NULL, -- AES-GCM, base64
+  iv TEXT NOT NULL, -- base64
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.home_assistant_tokens ENABLE ROW LEVEL SECURITY;
+
+-- No policies: the app never reads a token back, only the service role touches this table
+
+-- Trigger for updated_at
+CREATE TRIGGER update_home_assistant_tokens_updated_at
+  BEFORE UPDATE ON public.home_assistant_tokens
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- What the app shows instead of the token
+ALTER TABLE public.home_assistant_config
+  ADD COLUMN token_hint TEXT, -- Last characters of the saved token
+  ADD COLUMN token_updated_at TIMESTAMP WITH TIME ZONE;
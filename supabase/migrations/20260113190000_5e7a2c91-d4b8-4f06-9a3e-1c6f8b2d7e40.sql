@@ -0,0 +1,38 @@
+-- Several Home Assistant instances per user (e.g. a house and a cabin).
+-- Entities and their history belong to an instance, so the same entity_id can exist in each.
+
+ALTER TABLE public.home_assistant_config
+  DROP CONSTRAINT home_assistant_config_user_id_key;
+
+ALTER TABLE public.home_assistant_entities
+  ADD COLUMN config_id UUID REFERENCES public.home_assistant_config(id) ON DELETE CASCADE;
+
+ALTER TABLE public.home_assistant_events
+  ADD COLUMN config_id UUID REFERENCES public.home_assistant_config(id) ON DELETE CASCADE;
+
+-- Until now each user had at most one instance
+UPDATE public.home_assistant_entities e
+  SET config_id = c.id
+  FROM public.home_assistant_config c
+  WHERE c.user_id = e.user_id;
+
+UPDATE public.home_assistant_events e
+  SET config_id = c.id
+  FROM public.home_assistant_config c
+  WHERE c.user_id = e.user_id;
+
+-- Left over from a configuration that was removed
+DELETE FROM public.home_assistant_entities WHERE config_id IS NULL;
+DELETE FROM public.home_assistant_events WHERE config_id IS NULL;
+
+ALTER TABLE public.home_assistant_entities
+  ALTER COLUMN config_id SET NOT NULL,
+  DROP CONSTRAINT home_assistant_entities_user_id_entity_id_key,
+  ADD CONSTRAINT home_assistant_entities_config_id_entity_id_key UNIQUE (config_id, entity_id);
+
+ALTER TABLE public.home_assistant_events
+  ALTER COLUMN config_id SET NOT NULL;
+
+DROP INDEX public.idx_ha_events_unique_change;
+CREATE UNIQUE INDEX idx_ha_events_unique_change
+  ON public.home_assistant_events(config_id, entity_id, occurred_at);
@@ -0,0 +1,227 @@
+-- Rooms as their own records, linked to Home Assistant areas.
+-- cameras.room, tasks.room and user_context.current_room stay as text for existing readers,
+-- but now also point at a room, and the text follows the room's name.
+
+-- "Living Room", "living_room" and " living-room" are the same room
+CREATE OR REPLACE FUNCTION public.normalize_room_name(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(_name), '[\s_-]+', ' ', 'g'));
+$$;
+
+CREATE TABLE public.rooms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  -- Other names the room goes by, e.g. its Home Assistant area name or a former name
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  -- The Home Assistant area this room is, if any
+  config_id UUID REFERENCES public.home_assistant_config(id) ON DELETE SET NULL,
+  ha_area_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (config_id, ha_area_id)
+);
+
+CREATE UNIQUE INDEX idx_rooms_user_name ON public.rooms(user_id, public.normalize_room_name(name));
+
+CREATE TABLE public.home_assistant_devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  config_id UUID NOT NULL REFERENCES public.home_assistant_config(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  name TEXT,
+  manufacturer TEXT,
+  model TEXT,
+  area_id TEXT,
+  room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (config_id, device_id)
+);
+
+-- Where each entity is: its own area in Home Assistant, or else its device's
+ALTER TABLE public.home_assistant_entities
+  ADD COLUMN device_id TEXT,
+  ADD COLUMN area_id TEXT,
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cameras
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.tasks
+  ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_context
+  ADD COLUMN current_room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ha_entities_room ON public.home_assistant_entities(room_id);
+CREATE INDEX idx_tasks_user_room ON public.tasks(user_id, room_id);
+
+-- Enable RLS
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.home_assistant_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own rooms"
+ON public.rooms FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own rooms"
+ON public.rooms FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own rooms"
+ON public.rooms FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own rooms"
+ON public.rooms FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own HA devices"
+ON public.home_assistant_devices FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own HA devices"
+ON public.home_assistant_devices FOR ALL
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_rooms_updated_at
+BEFORE UPDATE ON public.rooms
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_home_assistant_devices_updated_at
+BEFORE UPDATE ON public.home_assistant_devices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The user's room with this name or alias; a name match wins over an alias
+CREATE OR REPLACE FUNCTION public.resolve_room_id(_user_id UUID, _name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM public.rooms
+  WHERE user_id = _user_id
+    AND (
+      normalize_room_name(name) = normalize_room_name(_name)
+      OR normalize_room_name(_name) IN (SELECT normalize_room_name(alias) FROM unnest(aliases) AS alias)
+    )
+  ORDER BY normalize_room_name(name) = normalize_room_name(_name) DESC
+  LIMIT 1;
+$$;
+
+-- Keeps room and room_id in step on cameras and tasks: setting room_id sets the room's name,
+-- setting the text links the room it names (and spells it the room's way)
+CREATE OR REPLACE FUNCTION public.sync_room_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.room_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.room_id IS DISTINCT FROM OLD.room_id) THEN
+    SELECT name INTO NEW.room FROM public.rooms WHERE id = NEW.room_id;
+  ELSIF TG_OP = 'INSERT' OR NEW.room IS DISTINCT FROM OLD.room THEN
+    NEW.room_id := public.resolve_room_id(NEW.user_id, NEW.room);
+    IF NEW.room_id IS NOT NULL THEN
+      SELECT name INTO NEW.room FROM public.rooms WHERE id = NEW.room_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- The same for user_context.current_room
+CREATE OR REPLACE FUNCTION public.sync_current_room_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_room_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.current_room_id IS DISTINCT FROM OLD.current_room_id) THEN
+    SELECT name INTO NEW.current_room FROM public.rooms WHERE id = NEW.current_room_id;
+  ELSIF TG_OP = 'INSERT' OR NEW.current_room IS DISTINCT FROM OLD.current_room THEN
+    NEW.current_room_id := public.resolve_room_id(NEW.user_id, NEW.current_room);
+    IF NEW.current_room_id IS NOT NULL THEN
+      SELECT name INTO NEW.current_room FROM public.rooms WHERE id = NEW.current_room_id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_cameras_room
+BEFORE INSERT OR UPDATE OF room, room_id ON public.cameras
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_room_link();
+
+CREATE TRIGGER sync_tasks_room
+BEFORE INSERT OR UPDATE OF room, room_id ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_room_link();
+
+CREATE TRIGGER sync_user_context_room
+BEFORE INSERT OR UPDATE OF current_room, current_room_id ON public.user_context
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_current_room_link();
+
+-- A renamed room keeps answering to its old name
+CREATE OR REPLACE FUNCTION public.keep_room_former_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF normalize_room_name(NEW.name) <> normalize_room_name(OLD.name)
+    AND NOT normalize_room_name(OLD.name) IN (SELECT normalize_room_name(alias) FROM unnest(NEW.aliases) AS alias) THEN
+    NEW.aliases := array_append(NEW.aliases, OLD.name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Linked rows show the room's new name
+CREATE OR REPLACE FUNCTION public.propagate_room_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.cameras SET room = NEW.name WHERE room_id = NEW.id;
+  UPDATE public.tasks SET room = NEW.name WHERE room_id = NEW.id;
+  UPDATE public.user_context SET current_room = NEW.name WHERE current_room_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER keep_rooms_former_name
+BEFORE UPDATE OF name ON public.rooms
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_room_former_name();
+
+CREATE TRIGGER propagate_rooms_name
+AFTER UPDATE OF name ON public.rooms
+FOR EACH ROW
+WHEN (OLD.name IS DISTINCT FROM NEW.name)
+EXECUTE FUNCTION public.propagate_room_name();
+
+-- Existing rooms come from the names already in use
+INSERT INTO public.rooms (user_id, name)
+SELECT DISTINCT ON (user_id, public.normalize_room_name(room)) user_id, trim(room)
+FROM (
+  SELECT user_id, room FROM public.cameras
+  UNION ALL
+  SELECT user_id, room FROM public.tasks
+  UNION ALL
+  SELECT user_id, current_room FROM public.user_context
+) AS used
+WHERE trim(coalesce(room, '')) <> '' AND public.normalize_room_name(room) <> 'other'
+ORDER BY user_id, public.normalize_room_name(room), trim(room);
+
+UPDATE public.cameras SET room_id = public.resolve_room_id(user_id, room) WHERE room IS NOT NULL;
+UPDATE public.tasks SET room_id = public.resolve_room_id(user_id, room) WHERE room IS NOT NULL;
+UPDATE public.user_context SET current_room_id = public.resolve_room_id(user_id, current_room) WHERE current_room IS NOT NULL;
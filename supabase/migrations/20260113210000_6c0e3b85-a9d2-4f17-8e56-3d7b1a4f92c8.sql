@@ -0,0 +1,11 @@
+-- Home control panel: favorite entities and live entity state
+
+-- Kept across syncs, which only upsert state, attributes and registry links
+ALTER TABLE public.home_assistant_entities
+  ADD COLUMN is_favorite BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_ha_entities_favorite ON public.home_assistant_entities(user_id)
+  WHERE is_favorite;
+
+-- The subscriber writes state changes; the control panel hears about them via realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.home_assistant_entities;
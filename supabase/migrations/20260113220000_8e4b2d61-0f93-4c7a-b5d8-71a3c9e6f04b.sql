@@ -0,0 +1,6 @@
+-- Clients may only acknowledge their rule executions
+
+-- Status, results and escalation bookkeeping are written by the edge functions (service role).
+-- The "Users can update own rule executions" policy still limits which rows.
+REVOKE UPDATE ON public.rule_executions FROM anon, authenticated;
+GRANT UPDATE (acknowledged_at) ON public.rule_executions TO authenticated;
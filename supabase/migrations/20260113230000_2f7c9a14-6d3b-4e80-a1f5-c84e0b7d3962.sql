@@ -0,0 +1,13 @@
+-- Retry rule-scheduler's failed rules-engine calls a bounded number of times
+
+-- Engine calls made for the occurrence; engine_status 'retrying' means the next sweep tries again
+ALTER TABLE public.rule_schedule_runs
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 1;
+
+-- Engine calls made to escalate the execution; the scheduler gives up after a few
+ALTER TABLE public.rule_executions
+  ADD COLUMN escalation_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Index for the scheduler's retry sweep
+CREATE INDEX idx_rule_schedule_runs_retrying ON public.rule_schedule_runs(scheduled_for)
+  WHERE engine_status = 'retrying';
@@ -0,0 +1,35 @@
+-- Retention for skipped rule executions
+
+-- Every skip is logged, including a skipped_conditions row per Home Assistant state change that
+-- matches a trigger, so skips are kept only as long as the longest analytics range (90 days).
+-- Fired executions are kept.
+CREATE OR REPLACE FUNCTION public.prune_rule_skips(_keep_days INTEGER DEFAULT 90)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted INTEGER;
+BEGIN
+  DELETE FROM public.rule_executions
+    WHERE execution_status LIKE 'skipped\_%'
+      AND triggered_at < now() - make_interval(days => _keep_days);
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$$;
+
+-- Bypasses RLS, so only the service role (and pg_cron) may call it
+REVOKE EXECUTE ON FUNCTION public.prune_rule_skips(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Index for the pruning job
+CREATE INDEX idx_rule_executions_skips ON public.rule_executions(triggered_at)
+  WHERE execution_status LIKE 'skipped\_%';
+
+-- Prune daily, at a quiet hour (UTC)
+SELECT cron.schedule(
+  'prune-rule-skips',
+  '30 3 * * *',
+  $$ SELECT public.prune_rule_skips(); $$
+);
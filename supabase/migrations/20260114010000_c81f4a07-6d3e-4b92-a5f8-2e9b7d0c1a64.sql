@@ -0,0 +1,5 @@
+-- Rules are only written through the rule-save function
+
+-- It checks every definition against the rule schema and writes it with the service role.
+-- Clients still read and delete their own rules directly.
+REVOKE INSERT, UPDATE ON public.rules FROM anon, authenticated;
@@ -0,0 +1,27 @@
+-- A saved Home Assistant token only ever goes to the URL it was saved for
+
+-- The app updates home_assistant_config directly, so pointing an instance at another URL drops
+-- its token here; a new one has to be saved (and checked against the new URL) by the
+-- home-assistant function before rules and ha-subscriber can reach it again.
+CREATE OR REPLACE FUNCTION public.forget_ha_token_on_url_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF rtrim(NEW.instance_url, '/') IS DISTINCT FROM rtrim(OLD.instance_url, '/') THEN
+    DELETE FROM public.home_assistant_tokens WHERE config_id = NEW.id;
+    NEW.token_hint = NULL;
+    NEW.token_updated_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.forget_ha_token_on_url_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER forget_ha_token_on_url_change
+  BEFORE UPDATE OF instance_url ON public.home_assistant_config
+  FOR EACH ROW
+  EXECUTE FUNCTION public.forget_ha_token_on_url_change();
@@ -0,0 +1,62 @@
+-- Schedule rules fire on every cron occurrence: rule_schedule_runs already claims each occurrence
+-- once, so the cooldown would only swallow frequent or caught-up runs. The daily cap still applies.
+CREATE OR REPLACE FUNCTION public.claim_rule_fire(
+  _rule_id UUID,
+  _today DATE, -- The user's calendar day, for the daily cap
+  _idempotency_key TEXT DEFAULT NULL,
+  _ignore_limits BOOLEAN DEFAULT false -- Run now: record the fire but skip cooldown and cap
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.rules%ROWTYPE;
+  _earlier public.rule_fire_claims%ROWTYPE;
+BEGIN
+  SELECT * INTO _rule FROM public.rules WHERE id = _rule_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF _idempotency_key IS NOT NULL THEN
+    SELECT * INTO _earlier FROM public.rule_fire_claims
+      WHERE rule_id = _rule_id AND idempotency_key = _idempotency_key;
+    IF FOUND THEN
+      RETURN jsonb_build_object('status', 'skipped_duplicate', 'execution_id', _earlier.execution_id);
+    END IF;
+  END IF;
+
+  IF NOT _ignore_limits THEN
+    IF _rule.trigger_type <> 'schedule'
+      AND _rule.last_fired_at IS NOT NULL
+      AND now() - _rule.last_fired_at < make_interval(mins => COALESCE(_rule.cooldown_minutes, 0)) THEN
+      RETURN jsonb_build_object('status', 'skipped_cooldown');
+    END IF;
+
+    IF COALESCE(_rule.max_fires_per_day, 0) > 0
+      AND _rule.last_reset_date = _today
+      AND COALESCE(_rule.times_fired_today, 0) >= _rule.max_fires_per_day THEN
+      RETURN jsonb_build_object('status', 'skipped_daily_cap');
+    END IF;
+  END IF;
+
+  UPDATE public.rules SET
+    last_fired_at = now(),
+    times_fired = COALESCE(times_fired, 0) + 1,
+    times_fired_today = CASE WHEN last_reset_date = _today THEN COALESCE(times_fired_today, 0) + 1 ELSE 1 END,
+    last_reset_date = _today
+  WHERE id = _rule_id;
+
+  IF _idempotency_key IS NOT NULL THEN
+    INSERT INTO public.rule_fire_claims (user_id, rule_id, idempotency_key)
+      VALUES (_rule.user_id, _rule_id, _idempotency_key);
+  END IF;
+
+  RETURN jsonb_build_object('status', 'claimed');
+END;
+$$;
+
+-- Bypasses RLS, so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.claim_rule_fire(UUID, DATE, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,6 @@
+-- Stop resuming an action sequence whose rules-engine call keeps failing
+
+-- Claims of the current resume; reset when a resume finishes, so every delay and
+-- wait_until check gets its own attempts. The scheduler gives up after a few.
+ALTER TABLE public.rule_sequence_runs
+  ADD COLUMN resume_attempts INTEGER NOT NULL DEFAULT 0;
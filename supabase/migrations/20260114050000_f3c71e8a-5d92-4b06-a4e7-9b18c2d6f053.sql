@@ -0,0 +1,35 @@
+-- A room or device may only point at the caller's own Home Assistant instance. Otherwise a user
+-- could take another user's (config_id, ha_area_id) or (config_id, device_id) and block their sync.
+
+DROP POLICY "Users can create their own rooms" ON public.rooms;
+DROP POLICY "Users can update their own rooms" ON public.rooms;
+DROP POLICY "Users can manage their own HA devices" ON public.home_assistant_devices;
+
+CREATE POLICY "Users can create their own rooms"
+ON public.rooms FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    config_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.home_assistant_config c WHERE c.id = config_id AND c.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own rooms"
+ON public.rooms FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    config_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.home_assistant_config c WHERE c.id = config_id AND c.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can manage their own HA devices"
+ON public.home_assistant_devices FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.home_assistant_config c WHERE c.id = config_id AND c.user_id = auth.uid())
+);